@@ -4,8 +4,25 @@
 
 import * as vscode from 'vscode';
 import { InstantiationServiceBuilder } from './di/instantiationServiceBuilder';
-import { registerServices, ILogService, IClaudeAgentService, IWebViewService } from './services/serviceRegistry';
+import { registerServices, ILogService, IClaudeAgentService, IWebViewService, IClaudeDiffReviewService, IClaudeExportService } from './services/serviceRegistry';
 import { VSCodeTransport } from './services/claude/transport/VSCodeTransport';
+import { EDITOR_PANEL_VIEW_TYPE } from './services/webViewService';
+import {
+	FIX_PROBLEMS_COMMAND,
+	FixWithClaudixCodeActionProvider,
+	collectDiagnostics,
+	markerToIdeDiagnostic,
+	sortDiagnostics,
+	toIdeDiagnostic
+} from './services/claude/diagnostics';
+import {
+	describeLines,
+	formatLineMention,
+	getPromptTemplate,
+	renderPromptTemplate,
+	type PromptTemplateId
+} from './services/claude/promptTemplates';
+import type { IdeDiagnostic, SelectionRange, StartPromptRequest } from './shared/messages';
 
 /**
  * Extension Activation
@@ -19,6 +36,8 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// 3. Seal the builder and create DI container
 	const instantiationService = builder.seal();
+	// 停用时销毁服务（释放文件监听和事件订阅）
+	context.subscriptions.push(instantiationService);
 
 	// 4. Log activation
 	instantiationService.invokeFunction(accessor => {
@@ -48,6 +67,12 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		);
 
+		// 窗口重载后恢复编辑器中的 Claudix 面板（聊天标签、设置页等）
+		const panelSerializer = vscode.window.registerWebviewPanelSerializer(
+			EDITOR_PANEL_VIEW_TYPE,
+			webViewService
+		);
+
 		// Connect WebView messages to Claude Agent Service
 		webViewService.setMessageHandler((message) => {
 			claudeAgentService.fromClient(message);
@@ -63,7 +88,17 @@ export function activate(context: vscode.ExtensionContext) {
 		claudeAgentService.start();
 
 		// Register disposables
-		context.subscriptions.push(webviewProvider);
+		context.subscriptions.push(webviewProvider, panelSerializer);
+		context.subscriptions.push(
+			vscode.commands.registerCommand('claudix.newConversationTab', () => {
+				try {
+					// 每个聊天标签都是独立实例，拥有自己的会话
+					webViewService.openChatTab();
+				} catch (error) {
+					logService.error('[Command] 打开聊天标签失败', error);
+				}
+			})
+		);
 		context.subscriptions.push(
 			vscode.commands.registerCommand('claudix.openSettings', async () => {
 				await instantiationService.invokeFunction(accessorInner => {
@@ -79,9 +114,139 @@ export function activate(context: vscode.ExtensionContext) {
 			})
 		);
 
+		context.subscriptions.push(
+			vscode.commands.registerCommand('claudix.openMcpServers', () => {
+				try {
+					// MCP 管理页同样为单实例
+					webViewService.openEditorPage('mcp', 'Claudix MCP Servers');
+				} catch (error) {
+					logService.error('[Command] 打开 MCP 页面失败', error);
+				}
+			})
+		);
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand('claudix.openUsage', () => {
+				try {
+					// 用量统计页同样为单实例
+					webViewService.openEditorPage('usage', 'Claudix Usage');
+				} catch (error) {
+					logService.error('[Command] 打开用量统计页面失败', error);
+				}
+			})
+		);
+
+		// 权限审批 Diff 视图的 Accept / Reject（编辑器标题栏）
+		const diffReviewService = accessor.get(IClaudeDiffReviewService);
+		context.subscriptions.push(
+			vscode.commands.registerCommand('claudix.acceptDiff', async (uri?: vscode.Uri) => {
+				if (!await diffReviewService.resolve(true, uri)) {
+					logService.warn('[Command] 当前编辑器没有待审批的 Diff');
+				}
+			}),
+			vscode.commands.registerCommand('claudix.rejectDiff', async (uri?: vscode.Uri) => {
+				if (!await diffReviewService.resolve(false, uri)) {
+					logService.warn('[Command] 当前编辑器没有待审批的 Diff');
+				}
+			})
+		);
+
+		// 导出会话（未传入 sessionId 时从会话列表中选择）
+		const exportService = accessor.get(IClaudeExportService);
+		context.subscriptions.push(
+			vscode.commands.registerCommand('claudix.exportSession', async (sessionId?: string) => {
+				try {
+					await exportService.exportSession(typeof sessionId === 'string' ? sessionId : undefined);
+				} catch (error) {
+					logService.error('[Command] 导出会话失败', error);
+					void vscode.window.showErrorMessage(`Failed to export conversation: ${error instanceof Error ? error.message : String(error)}`);
+				}
+			})
+		);
+
+		// Fix with Claudix 与编辑器命令都通过 start_prompt 在聊天视图中发起提示词
+		const startPromptInChat = async (request: Omit<StartPromptRequest, 'type'>) => {
+			await vscode.commands.executeCommand('claudix.chatView.focus');
+			claudeAgentService.startPrompt(request);
+		};
+		const getPromptTemplateOverrides = () =>
+			vscode.workspace.getConfiguration('claudix').get<Record<string, unknown>>('promptTemplates');
+
+		// Fix with Claudix：快速修复传入 (uri, diagnostics)，Problems 视图右键菜单传入选中的条目
+		context.subscriptions.push(
+			vscode.languages.registerCodeActionsProvider(
+				{ scheme: 'file' },
+				new FixWithClaudixCodeActionProvider(),
+				{ providedCodeActionKinds: FixWithClaudixCodeActionProvider.providedCodeActionKinds }
+			),
+			vscode.commands.registerCommand(FIX_PROBLEMS_COMMAND, async (target?: unknown, selected?: unknown) => {
+				let diagnostics: IdeDiagnostic[];
+				if (target instanceof vscode.Uri && Array.isArray(selected)) {
+					diagnostics = selected.map(diagnostic => toIdeDiagnostic(target, diagnostic));
+				} else if (target) {
+					// 多选时第二个参数为所有选中的条目
+					const items = Array.isArray(selected) && selected.length > 0 ? selected : [target];
+					diagnostics = items
+						.map(markerToIdeDiagnostic)
+						.filter((diagnostic): diagnostic is IdeDiagnostic => !!diagnostic);
+				} else {
+					diagnostics = collectDiagnostics('activeFile');
+				}
+
+				if (diagnostics.length === 0) {
+					void vscode.window.showInformationMessage('No problems to fix.');
+					return;
+				}
+
+				await startPromptInChat({
+					prompt: getPromptTemplate('fixProblems', getPromptTemplateOverrides()),
+					diagnostics: sortDiagnostics(diagnostics)
+				});
+			})
+		);
+
+		// 编辑器命令：插入带行号的 @ 提及，或用选中的代码和提示词模板发起新的提示词
+		const registerSelectionPrompt = (command: string, templateId: PromptTemplateId) =>
+			vscode.commands.registerCommand(command, async () => {
+				const editor = vscode.window.activeTextEditor;
+				if (!editor) {
+					return;
+				}
+
+				const selection = getEditorSelection(editor);
+				const template = getPromptTemplate(templateId, getPromptTemplateOverrides());
+				await startPromptInChat({
+					prompt: renderPromptTemplate(template, {
+						file: vscode.workspace.asRelativePath(editor.document.uri, false),
+						lines: describeLines(selection.startLine, selection.endLine),
+						language: editor.document.languageId
+					}),
+					selection
+				});
+			});
+
+		context.subscriptions.push(
+			vscode.commands.registerCommand('claudix.addSelectionToChat', async () => {
+				const editor = vscode.window.activeTextEditor;
+				if (!editor) {
+					return;
+				}
+
+				const relativePath = vscode.workspace.asRelativePath(editor.document.uri, false);
+				const mention = editor.selection.isEmpty
+					? formatLineMention(relativePath)
+					: formatLineMention(relativePath, ...getSelectedLines(editor.selection));
+				await vscode.commands.executeCommand('claudix.chatView.focus');
+				claudeAgentService.insertAtMention(mention);
+			}),
+			registerSelectionPrompt('claudix.explainSelection', 'explain'),
+			registerSelectionPrompt('claudix.refactorSelection', 'refactor'),
+			registerSelectionPrompt('claudix.writeTestsForSelection', 'writeTests')
+		);
+
 		logService.info('✓ Claude Agent Service 已连接 Transport');
 		logService.info('✓ WebView Service 已注册为 View Provider');
-		logService.info('✓ Settings 命令已注册');
+		logService.info('✓ Settings / MCP / Usage / Diff / Export / Fix / 编辑器命令已注册');
 	});
 
 	// 6. Register commands
@@ -104,6 +269,38 @@ export function activate(context: vscode.ExtensionContext) {
 	};
 }
 
+/**
+ * 选中的行（1 起始；选区结束于下一行行首时不计入该行）
+ */
+function getSelectedLines(selection: vscode.Selection): [number, number] {
+	const endLine = selection.end.character === 0 && selection.end.line > selection.start.line
+		? selection.end.line
+		: selection.end.line + 1;
+	return [selection.start.line + 1, endLine];
+}
+
+/**
+ * 编辑器命令使用的选区（未选中时使用整个文件）
+ */
+function getEditorSelection(editor: vscode.TextEditor): SelectionRange {
+	const document = editor.document;
+	const range = editor.selection.isEmpty
+		? document.validateRange(new vscode.Range(0, 0, document.lineCount, 0))
+		: editor.selection;
+	const [startLine, endLine] = editor.selection.isEmpty
+		? [1, Math.max(document.lineCount, 1)]
+		: getSelectedLines(editor.selection);
+
+	return {
+		filePath: document.uri.fsPath,
+		startLine,
+		endLine,
+		startColumn: range.start.character,
+		endColumn: range.end.character,
+		selectedText: document.getText(range)
+	};
+}
+
 /**
  * Extension Deactivation
  */
@@ -24,10 +24,22 @@ import { INotificationService } from '../notificationService';
 import { ITerminalService } from '../terminalService';
 import { ITabsAndEditorsService } from '../tabsAndEditorsService';
 import { IClaudeSdkService } from './ClaudeSdkService';
+import { IClaudeAuthService } from './ClaudeAuthService';
 import { IClaudeSessionService } from './ClaudeSessionService';
+import { IClaudeSearchService } from './ClaudeSearchService';
+import { IClaudeMcpService } from './ClaudeMcpService';
+import { IClaudeSettingsService } from './ClaudeSettingsService';
+import { IClaudeCheckpointService } from './ClaudeCheckpointService';
+import { IClaudeExportService } from './ClaudeExportService';
+import { IClaudeUsageService } from './ClaudeUsageService';
+import { IClaudeDiffReviewService } from './ClaudeDiffReviewService';
+import { buildEditedToolInput } from './diffEdits';
+import { BudgetTracker, DEFAULT_BUDGET_WARNING_THRESHOLD, MIN_BUDGET_WARNING_THRESHOLD, describeBudgetExceeded } from './budget';
+import { getMaxThinkingTokens, normalizeThinkingLevel, validateThinkingLevel } from '../../shared/thinkingLevels';
 import { AsyncStream, ITransport } from './transport';
 import { HandlerContext } from './handlers/types';
 import { IWebViewService } from '../webViewService';
+import { Disposable, toDisposable } from '../../base/lifecycle';
 
 // 消息类型导入
 import type {
@@ -38,6 +50,11 @@ import type {
     ExtensionRequest,
     ToolPermissionRequest,
     ToolPermissionResponse,
+    SessionBudget,
+    BudgetStatus,
+    ClaudixSystemMessage,
+    StartPromptRequest,
+    AuthURLRequest,
 } from '../../shared/messages';
 
 // SDK 类型导入
@@ -56,25 +73,51 @@ import {
     handleInit,
     handleGetClaudeState,
     handleGetMcpServers,
+    handleListMcpServerConfigs,
+    handleSaveMcpServer,
+    handleRemoveMcpServer,
+    handleSetMcpServerEnabled,
+    handleInspectMcpServer,
+    preparePermissionDiff,
+    handleGetSettings,
+    handleUpdateSettings,
+    handleUpdatePermissionRules,
+    handleGetPermissionRules,
+    handleRemovePermissionRule,
     handleGetAssetUris,
     handleOpenFile,
     handleGetCurrentSelection,
+    handleGetDiagnostics,
     handleShowNotification,
     handleNewConversationTab,
     handleRenameTab,
     handleOpenDiff,
     handleListSessions,
     handleGetSession,
+    handleListSessionBranches,
+    handleRenameSession,
+    handleUpdateSessionMetadata,
+    handleDeleteSession,
+    handleGetForkPoint,
+    handleRewindCheckpoint,
+    handleExportSession,
+    handleSavePlan,
+    handleGetUsageReport,
+    handleExportUsageCsv,
+    handleOpenUsageDashboard,
+    handleEditSessionBudget,
+    handleSearchSessions,
     handleExec,
     handleListFiles,
     handleStatPath,
     handleOpenContent,
     handleOpenURL,
     handleOpenConfigFile,
-    // handleOpenClaudeInTerminal,
-    // handleGetAuthStatus,
-    // handleLogin,
-    // handleSubmitOAuthCode,
+    handleOpenClaudeInTerminal,
+    handleGetAuthStatus,
+    handleLogin,
+    handleSubmitOAuthCode,
+    handleLogout,
 } from './handlers/handlers';
 
 export const IClaudeAgentService = createDecorator<IClaudeAgentService>('claudeAgentService');
@@ -89,8 +132,32 @@ export const IClaudeAgentService = createDecorator<IClaudeAgentService>('claudeA
 export interface Channel {
     in: AsyncStream<SDKUserMessage>;  // 输入流：向 SDK 发送用户消息
     query: Query;                      // Query 对象：从 SDK 接收响应
+    budget: BudgetTracker;             // 会话预算统计
+    cwd: string;                       // 会话工作目录（保存会话元数据时使用）
+    thinkingLevel: string;             // 当前 Thinking 等级
+    savedThinkingLevel: string;        // 会话元数据中记录的 Thinking 等级
+    busy: boolean;                     // 本轮对话进行中（已发送用户消息，尚未收到 result）
+    tokenExpired: boolean;             // 启动时注入的 OAuth token 已刷新，本轮结束后关闭
 }
 
+/**
+ * 恢复会话时的额外选项
+ */
+export interface ResumeOptions {
+    resumeSessionAt?: string;  // 恢复到指定消息（之后的消息被丢弃）
+    forkSession?: boolean;     // 恢复时创建新会话
+}
+
+/**
+ * 权限审批时自动打开 Diff 视图的工具
+ */
+const DIFF_REVIEW_TOOLS = new Set(["Edit", "Write", "MultiEdit"]);
+
+/**
+ * 编辑器选区变化的推送间隔（拖动选择时合并多次变化）
+ */
+const EDITOR_CONTEXT_DEBOUNCE_MS = 150;
+
 /**
  * 请求处理器
  */
@@ -129,7 +196,9 @@ export interface IClaudeAgentService {
         cwd: string,
         model: string | null,
         permissionMode: string,
-        thinkingLevel: string | null
+        thinkingLevel: string | null,
+        resumeOptions?: ResumeOptions,
+        budget?: SessionBudget
     ): Promise<void>;
 
     /**
@@ -137,6 +206,11 @@ export interface IClaudeAgentService {
      */
     interruptClaude(channelId: string): Promise<void>;
 
+    /**
+     * 获取 Channel
+     */
+    getChannel(channelId: string): Channel | undefined;
+
     /**
      * 关闭会话
      */
@@ -172,6 +246,26 @@ export interface IClaudeAgentService {
      */
     setModel(channelId: string, model: string): Promise<void>;
 
+    /**
+     * 设置会话预算（返回最新的预算状态）
+     */
+    setSessionBudget(channelId: string, budget: SessionBudget): BudgetStatus | undefined;
+
+    /**
+     * 在聊天视图中发起提示词（Fix with Claudix、Explain 等编辑器命令）
+     */
+    startPrompt(request: Omit<StartPromptRequest, "type">): void;
+
+    /**
+     * 在聊天输入框中插入 @ 提及
+     */
+    insertAtMention(text: string): void;
+
+    /**
+     * 推送 OAuth 授权 URL（浏览器未能打开时可在 WebView 中手动打开）
+     */
+    notifyAuthUrl(url: string, method: AuthURLRequest["method"]): void;
+
     /**
      * 关闭
      */
@@ -185,7 +279,7 @@ export interface IClaudeAgentService {
 /**
  * Claude Agent 服务实现
  */
-export class ClaudeAgentService implements IClaudeAgentService {
+export class ClaudeAgentService extends Disposable implements IClaudeAgentService {
     readonly _serviceBrand: undefined;
 
     // Transport 适配器
@@ -203,11 +297,19 @@ export class ClaudeAgentService implements IClaudeAgentService {
     // 取消控制器
     private abortControllers = new Map<string, AbortController>();
 
+    // 等待用户审批的权限请求（requestId → 请求信息；打开 Diff 后记录原文件内容）
+    private pendingPermissions = new Map<string, {
+        channelId: string;
+        toolName: string;
+        inputs: Record<string, unknown>;
+        originalContent?: string;
+    }>();
+
     // Handler 上下文（缓存）
     private handlerContext: HandlerContext;
 
-    // Thinking Level 配置
-    private thinkingLevel: string = 'default_on';
+    // 编辑器上下文推送定时器
+    private editorContextTimer?: ReturnType<typeof setTimeout>;
 
     constructor(
         @ILogService private readonly logService: ILogService,
@@ -218,9 +320,19 @@ export class ClaudeAgentService implements IClaudeAgentService {
         @ITerminalService private readonly terminalService: ITerminalService,
         @ITabsAndEditorsService private readonly tabsAndEditorsService: ITabsAndEditorsService,
         @IClaudeSdkService private readonly sdkService: IClaudeSdkService,
+        @IClaudeAuthService private readonly authService: IClaudeAuthService,
         @IClaudeSessionService private readonly sessionService: IClaudeSessionService,
+        @IClaudeSearchService private readonly searchService: IClaudeSearchService,
+        @IClaudeMcpService private readonly mcpService: IClaudeMcpService,
+        @IClaudeSettingsService private readonly settingsService: IClaudeSettingsService,
+        @IClaudeCheckpointService private readonly checkpointService: IClaudeCheckpointService,
+        @IClaudeExportService private readonly exportService: IClaudeExportService,
+        @IClaudeUsageService private readonly usageService: IClaudeUsageService,
+        @IClaudeDiffReviewService private readonly diffReviewService: IClaudeDiffReviewService,
         @IWebViewService private readonly webViewService: IWebViewService
     ) {
+        super();
+
         // 构建 Handler 上下文
         this.handlerContext = {
             logService: this.logService,
@@ -231,10 +343,84 @@ export class ClaudeAgentService implements IClaudeAgentService {
             terminalService: this.terminalService,
             tabsAndEditorsService: this.tabsAndEditorsService,
             sessionService: this.sessionService,
+            searchService: this.searchService,
             sdkService: this.sdkService,
+            authService: this.authService,
+            mcpService: this.mcpService,
+            settingsService: this.settingsService,
+            checkpointService: this.checkpointService,
+            exportService: this.exportService,
+            usageService: this.usageService,
             agentService: this,  // 自身引用
             webViewService: this.webViewService,
         };
+
+        this._register(toDisposable(() => clearTimeout(this.editorContextTimer)));
+
+        // 设置双向同步：VS Code 配置或 settings.json 变化时通知 WebView
+        this._register(this.configService.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('claudix')) {
+                void this.notifySettingsChanged(true);
+            }
+            if (event.affectsConfiguration('claudix.budget')) {
+                this.updateBudgetDefaults();
+            }
+        }));
+        this._register(this.settingsService.onDidChange(() => {
+            void this.notifySettingsChanged(false);
+        }));
+
+        // 凭证变化：现有 channel 使用的是旧凭证，关闭后由下一条消息重新启动
+        this._register(this.authService.onDidChange(() => {
+            void this.closeAllChannelsWithCredentialChange()
+                .then(() => this.notifySettingsChanged(true))
+                .catch(error => this.logService.error(`[ClaudeAgentService] 凭证变化后关闭会话失败: ${error}`));
+        }));
+
+        // OAuth token 刷新：CLI 只在启动时读取 token，关闭 channel 后由下一条消息用新 token 重新启动
+        this._register(this.authService.onDidRefreshToken(() => {
+            this.closeChannelsWithRefreshedToken();
+        }));
+
+        // 当前文件与选区变化时推送给所有 WebView
+        this._register(this.tabsAndEditorsService.onDidChangeActiveTextEditor(editor => {
+            // 焦点切到 WebView 等非文本编辑器时保留上一个文件，只有所有编辑器都关闭时才清空
+            if (editor || this.tabsAndEditorsService.getVisibleTextEditors().length === 0) {
+                this.scheduleEditorContext();
+            }
+        }));
+        this._register(this.tabsAndEditorsService.onDidChangeTextEditorSelection(event => {
+            if (event.textEditor === this.tabsAndEditorsService.getActiveTextEditor()) {
+                this.scheduleEditorContext();
+            }
+        }));
+
+        // 对话记录变化时推送最新会话列表，WebView 无需手动刷新
+        this._register(this.sessionService.onDidChangeSessions(() => {
+            void this.notifySessionsChanged();
+        }));
+
+        // Diff 视图中的 Accept / Reject 交给 WebView 解析同一个 PermissionRequest
+        this._register(this.diffReviewService.onDidResolve(({ id, accepted, content }) => {
+            if (!this.pendingPermissions.has(id)) {
+                return;
+            }
+            this.notifyClients({
+                type: "resolve_tool_permission",
+                permissionRequestId: id,
+                behavior: accepted ? "allow" : "deny",
+                updatedInput: content !== undefined ? this.buildEditedInput(id, content) : undefined
+            });
+        }));
+
+        // 用户保存 Diff 右侧修改后，同步给 WebView 弹窗，使其“允许”也应用修改后的版本
+        this._register(this.diffReviewService.onDidSave(({ id, content }) => {
+            const updatedInput = this.buildEditedInput(id, content);
+            if (!this.pendingPermissions.has(id) || !updatedInput) {
+                return;
+            }
+            this.notifyClients({ type: "update_tool_permission_input", permissionRequestId: id, updatedInput });
+        }));
     }
 
     /**
@@ -282,7 +468,9 @@ export class ClaudeAgentService implements IClaudeAgentService {
                             message.cwd || this.getCwd(),
                             message.model || null,
                             message.permissionMode || "default",
-                            message.thinkingLevel || null
+                            message.thinkingLevel || null,
+                            { resumeSessionAt: message.resumeSessionAt, forkSession: message.forkSession },
+                            message.budget
                         );
                         break;
 
@@ -332,15 +520,14 @@ export class ClaudeAgentService implements IClaudeAgentService {
         cwd: string,
         model: string | null,
         permissionMode: string,
-        thinkingLevel: string | null
+        thinkingLevel: string | null,
+        resumeOptions?: ResumeOptions,
+        budget?: SessionBudget
     ): Promise<void> {
-        // 保存 thinkingLevel
-        if (thinkingLevel) {
-            this.thinkingLevel = thinkingLevel;
-        }
-
-        // 计算 maxThinkingTokens
-        const maxThinkingTokens = this.getMaxThinkingTokens(this.thinkingLevel);
+        // 未指定时使用配置中的默认等级（每个 channel 各自保存）
+        const defaultThinkingLevel = this.getDefaultThinkingLevel();
+        const level = normalizeThinkingLevel(thinkingLevel, defaultThinkingLevel);
+        const maxThinkingTokens = getMaxThinkingTokens(level);
 
         this.logService.info('');
         this.logService.info('╔════════════════════════════════════════╗');
@@ -348,10 +535,13 @@ export class ClaudeAgentService implements IClaudeAgentService {
         this.logService.info('╚════════════════════════════════════════╝');
         this.logService.info(`  Channel ID: ${channelId}`);
         this.logService.info(`  Resume: ${resume || 'null'}`);
+        if (resumeOptions?.resumeSessionAt || resumeOptions?.forkSession) {
+            this.logService.info(`  Resume At: ${resumeOptions.resumeSessionAt || 'latest'} (fork: ${!!resumeOptions.forkSession})`);
+        }
         this.logService.info(`  CWD: ${cwd}`);
         this.logService.info(`  Model: ${model || 'null'}`);
         this.logService.info(`  Permission: ${permissionMode}`);
-        this.logService.info(`  Thinking Level: ${this.thinkingLevel}`);
+        this.logService.info(`  Thinking Level: ${level}`);
         this.logService.info(`  Max Thinking Tokens: ${maxThinkingTokens}`);
         this.logService.info('');
 
@@ -361,6 +551,11 @@ export class ClaudeAgentService implements IClaudeAgentService {
             throw new Error(`Channel already exists: ${channelId}`);
         }
 
+        // 恢复的会话以对话记录中已有的用量为预算起点（在 CLI 写入新消息之前读取；分叉是新会话，从零开始）
+        const recordedUsage = resume && !resumeOptions?.forkSession
+            ? await this.getRecordedUsage(resume, cwd)
+            : undefined;
+
         try {
             // 1. 创建输入流
             this.logService.info('📝 步骤 1: 创建输入流');
@@ -386,18 +581,31 @@ export class ClaudeAgentService implements IClaudeAgentService {
                 model,
                 cwd,
                 permissionMode,
-                maxThinkingTokens
+                maxThinkingTokens,
+                resumeOptions
             );
             this.logService.info('  ✓ spawnClaude() 完成，Query 对象已创建');
 
             // 3. 存储到 channels Map
             this.logService.info('');
             this.logService.info('📝 步骤 3: 注册 Channel');
+            const defaults = this.getBudgetDefaults();
+            const budgetTracker = new BudgetTracker(defaults.budget, budget, defaults.warningThreshold, recordedUsage);
             this.channels.set(channelId, {
                 in: inputStream,
-                query: query
+                query: query,
+                budget: budgetTracker,
+                cwd,
+                thinkingLevel: level,
+                // 恢复的会话以启动时带上的等级为准；新会话（含分叉）尚无记录，视为默认等级
+                savedThinkingLevel: resume && !resumeOptions?.forkSession ? level : defaultThinkingLevel,
+                busy: false,
+                tokenExpired: false
             });
             this.logService.info(`  ✓ Channel 已注册，当前 ${this.channels.size} 个活跃会话`);
+            if (recordedUsage) {
+                this.notifyClients({ type: "budget_status", channelId, status: budgetTracker.getStatus() });
+            }
 
             // 4. 启动监听任务：将 SDK 输出转发给客户端
             this.logService.info('');
@@ -417,6 +625,20 @@ export class ClaudeAgentService implements IClaudeAgentService {
                             message,
                             done: false
                         });
+
+                        this.checkBudget(channelId, message);
+                        if (message.type === "result") {
+                            void this.saveThinkingLevel(channelId, message.session_id);
+
+                            const channel = this.channels.get(channelId);
+                            if (channel) {
+                                channel.busy = false;
+                                if (channel.tokenExpired) {
+                                    this.logService.info(`  → OAuth token 已刷新，本轮结束后重新启动: ${channelId}`);
+                                    break;
+                                }
+                            }
+                        }
                     }
 
                     // 正常结束
@@ -470,6 +692,13 @@ export class ClaudeAgentService implements IClaudeAgentService {
         }
     }
 
+    /**
+     * 获取 Channel
+     */
+    getChannel(channelId: string): Channel | undefined {
+        return this.channels.get(channelId);
+    }
+
     /**
      * 关闭会话
      */
@@ -510,6 +739,7 @@ export class ClaudeAgentService implements IClaudeAgentService {
      * @param cwd 工作目录
      * @param permissionMode 权限模式
      * @param maxThinkingTokens 最大思考 tokens
+     * @param resumeOptions 恢复到指定消息 / 分叉会话
      * @returns SDK Query 对象
      */
     protected async spawnClaude(
@@ -519,11 +749,14 @@ export class ClaudeAgentService implements IClaudeAgentService {
         model: string | null,
         cwd: string,
         permissionMode: string,
-        maxThinkingTokens: number
+        maxThinkingTokens: number,
+        resumeOptions?: ResumeOptions
     ): Promise<Query> {
         return this.sdkService.query({
             inputStream,
             resume,
+            resumeSessionAt: resumeOptions?.resumeSessionAt,
+            forkSession: resumeOptions?.forkSession,
             canUseTool,
             model,
             cwd,
@@ -554,12 +787,25 @@ export class ClaudeAgentService implements IClaudeAgentService {
         this.channels.clear();
     }
 
+    /**
+     * OAuth token 刷新后关闭使用旧 token 的通道（进行中的对话等本轮结束后关闭）
+     */
+    private closeChannelsWithRefreshedToken(): void {
+        for (const [channelId, channel] of this.channels) {
+            if (channel.busy) {
+                channel.tokenExpired = true;
+            } else {
+                this.closeChannel(channelId, true);
+            }
+        }
+    }
+
     /**
      * 传输消息到 Channel
      */
     private transportMessage(
         channelId: string,
-        message: SDKMessage | SDKUserMessage,
+        message: SDKMessage | SDKUserMessage | ClaudixSystemMessage,
         done: boolean
     ): void {
         const channel = this.channels.get(channelId);
@@ -567,8 +813,10 @@ export class ClaudeAgentService implements IClaudeAgentService {
             throw new Error(`Channel not found: ${channelId}`);
         }
 
-        // 用户消息加入输入流
+        // 用户消息加入输入流（新一轮开始，仍然超出预算时会再次中断）
         if (message.type === "user") {
+            channel.budget.resetStop();
+            channel.busy = true;
             channel.in.enqueue(message as SDKUserMessage);
         }
 
@@ -632,6 +880,22 @@ export class ClaudeAgentService implements IClaudeAgentService {
             case "get_mcp_servers":
                 return handleGetMcpServers(request, this.handlerContext, channelId);
 
+            // MCP 服务器管理
+            case "list_mcp_server_configs":
+                return handleListMcpServerConfigs(request, this.handlerContext, channelId);
+
+            case "save_mcp_server":
+                return handleSaveMcpServer(request, this.handlerContext);
+
+            case "remove_mcp_server":
+                return handleRemoveMcpServer(request, this.handlerContext);
+
+            case "set_mcp_server_enabled":
+                return handleSetMcpServerEnabled(request, this.handlerContext);
+
+            case "inspect_mcp_server":
+                return handleInspectMcpServer(request, this.handlerContext, signal);
+
             case "get_asset_uris":
                 return handleGetAssetUris(request, this.handlerContext);
 
@@ -642,6 +906,9 @@ export class ClaudeAgentService implements IClaudeAgentService {
             case "get_current_selection":
                 return handleGetCurrentSelection(this.handlerContext);
 
+            case "get_diagnostics":
+                return handleGetDiagnostics(request, this.handlerContext);
+
             case "open_diff":
                 return handleOpenDiff(request, this.handlerContext, signal);
 
@@ -701,9 +968,35 @@ export class ClaudeAgentService implements IClaudeAgentService {
                 };
             }
 
+            case "set_session_budget": {
+                const status = channelId ? this.setSessionBudget(channelId, request.budget) : undefined;
+                return {
+                    type: "set_session_budget_response",
+                    status
+                };
+            }
+
+            case "edit_session_budget":
+                return handleEditSessionBudget(request, this.handlerContext);
+
             case "open_config_file":
                 return handleOpenConfigFile(request, this.handlerContext);
 
+            case "get_settings":
+                return handleGetSettings(request, this.handlerContext);
+
+            case "update_settings":
+                return handleUpdateSettings(request, this.handlerContext);
+
+            case "update_permission_rules":
+                return handleUpdatePermissionRules(request, this.handlerContext);
+
+            case "get_permission_rules":
+                return handleGetPermissionRules(request, this.handlerContext);
+
+            case "remove_permission_rule":
+                return handleRemovePermissionRule(request, this.handlerContext);
+
             // 会话管理
             case "list_sessions_request":
                 return handleListSessions(request, this.handlerContext);
@@ -711,6 +1004,42 @@ export class ClaudeAgentService implements IClaudeAgentService {
             case "get_session_request":
                 return handleGetSession(request, this.handlerContext);
 
+            case "list_session_branches":
+                return handleListSessionBranches(request, this.handlerContext);
+
+            case "rename_session":
+                return handleRenameSession(request, this.handlerContext);
+
+            case "update_session_metadata":
+                return handleUpdateSessionMetadata(request, this.handlerContext);
+
+            case "delete_session":
+                return handleDeleteSession(request, this.handlerContext);
+
+            case "get_fork_point":
+                return handleGetForkPoint(request, this.handlerContext);
+
+            case "rewind_checkpoint":
+                return handleRewindCheckpoint(request, this.handlerContext);
+
+            case "export_session":
+                return handleExportSession(request, this.handlerContext);
+
+            case "save_plan":
+                return handleSavePlan(request, this.handlerContext);
+
+            case "get_usage_report":
+                return handleGetUsageReport(request, this.handlerContext);
+
+            case "export_usage_csv":
+                return handleExportUsageCsv(request, this.handlerContext);
+
+            case "open_usage_dashboard":
+                return handleOpenUsageDashboard(request, this.handlerContext);
+
+            case "search_sessions":
+                return handleSearchSessions(request, this.handlerContext);
+
         // 文件操作
         case "list_files_request":
             return handleListFiles(request, this.handlerContext);
@@ -722,18 +1051,21 @@ export class ClaudeAgentService implements IClaudeAgentService {
             case "exec":
                 return handleExec(request, this.handlerContext);
 
-            // case "open_claude_in_terminal":
-            //     return handleOpenClaudeInTerminal(request, this.handlerContext);
+            case "open_claude_in_terminal":
+                return handleOpenClaudeInTerminal(request, this.handlerContext);
 
             // 认证
-            // case "get_auth_status":
-            //     return handleGetAuthStatus(request, this.handlerContext);
+            case "get_auth_status":
+                return handleGetAuthStatus(request, this.handlerContext);
+
+            case "login":
+                return handleLogin(request, this.handlerContext);
 
-            // case "login":
-            //     return handleLogin(request, this.handlerContext);
+            case "submit_oauth_code":
+                return handleSubmitOAuthCode(request, this.handlerContext);
 
-            // case "submit_oauth_code":
-            //     return handleSubmitOAuthCode(request, this.handlerContext);
+            case "logout":
+                return handleLogout(request, this.handlerContext);
 
             default:
                 throw new Error(`Unknown request type: ${request.type}`);
@@ -774,10 +1106,9 @@ export class ClaudeAgentService implements IClaudeAgentService {
      */
     protected sendRequest<TRequest extends ExtensionRequest, TResponse>(
         channelId: string,
-        request: TRequest
+        request: TRequest,
+        requestId: string = this.generateId()
     ): Promise<TResponse> {
-        const requestId = this.generateId();
-
         return new Promise<TResponse>((resolve, reject) => {
             // 注册 Promise handlers
             this.outstandingRequests.set(requestId, { resolve, reject });
@@ -795,6 +1126,184 @@ export class ClaudeAgentService implements IClaudeAgentService {
         });
     }
 
+    /**
+     * 向客户端发送通知（不等待响应）
+     */
+    protected notifyClients(request: ExtensionRequest): void {
+        this.transport?.send({
+            type: "request",
+            requestId: this.generateId(),
+            request
+        } as RequestMessage);
+    }
+
+    /**
+     * 推送最新设置
+     *
+     * @param stateChanged VS Code 配置是否变化（需要同步 update_state）
+     */
+    private async notifySettingsChanged(stateChanged: boolean): Promise<void> {
+        if (!this.transport) {
+            return;
+        }
+
+        try {
+            if (stateChanged) {
+                const init = await handleInit({ type: "init" }, this.handlerContext);
+                this.notifyClients({ type: "update_state", state: init.state });
+            }
+
+            const { settings } = await handleGetSettings({ type: "get_settings" }, this.handlerContext);
+            this.notifyClients({ type: "settings_changed", settings });
+        } catch (error) {
+            this.logService.warn(`[ClaudeAgentService] 推送设置失败: ${error}`);
+        }
+    }
+
+    /**
+     * 合并短时间内的多次变化后推送编辑器上下文
+     */
+    private scheduleEditorContext(): void {
+        clearTimeout(this.editorContextTimer);
+        this.editorContextTimer = setTimeout(() => {
+            void this.notifyEditorContext();
+        }, EDITOR_CONTEXT_DEBOUNCE_MS);
+    }
+
+    /**
+     * 推送当前文件与选区
+     */
+    private async notifyEditorContext(): Promise<void> {
+        if (!this.transport) {
+            return;
+        }
+
+        const { selection, activeFile } = await handleGetCurrentSelection(this.handlerContext);
+        this.notifyClients({ type: "selection_changed", selection, activeFile });
+    }
+
+    /**
+     * 推送最新会话列表
+     */
+    private async notifySessionsChanged(): Promise<void> {
+        if (!this.transport) {
+            return;
+        }
+
+        const { sessions } = await handleListSessions({ type: "list_sessions_request" }, this.handlerContext);
+        this.notifyClients({ type: "sessions_changed", sessions });
+    }
+
+    /**
+     * 统计 SDK 输出的用量，推送预算状态；超出预算时在会话中说明原因并中断
+     */
+    private checkBudget(channelId: string, message: SDKMessage): void {
+        const channel = this.channels.get(channelId);
+        if (!channel || !channel.budget.record(message)) {
+            return;
+        }
+
+        const status = channel.budget.getStatus();
+        this.notifyClients({ type: "budget_status", channelId, status });
+
+        const exceeded = channel.budget.takeExceeded();
+        if (!exceeded) {
+            return;
+        }
+
+        const reason = describeBudgetExceeded(exceeded, status);
+        this.logService.warn(`[ClaudeAgentService] ${reason} (Channel: ${channelId})`);
+        this.transport?.send({
+            type: "io_message",
+            channelId,
+            message: {
+                type: "system",
+                subtype: "budget_exceeded",
+                session_id: message.session_id,
+                content: reason
+            },
+            done: false
+        });
+        void this.interruptClaude(channelId);
+    }
+
+    /**
+     * 读取会话已记录的用量（读取失败时从零开始统计）
+     */
+    private async getRecordedUsage(sessionId: string, cwd: string): Promise<BudgetStatus["usage"] | undefined> {
+        try {
+            return await this.usageService.getSessionUsage(sessionId, cwd);
+        } catch (error) {
+            this.logService.warn(`[ClaudeAgentService] 读取会话用量失败: ${sessionId} ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * 设置会话预算
+     */
+    setSessionBudget(channelId: string, budget: SessionBudget): BudgetStatus | undefined {
+        const channel = this.channels.get(channelId);
+        if (!channel) {
+            return undefined;
+        }
+
+        channel.budget.setOverride(budget);
+        const status = channel.budget.getStatus();
+        this.notifyClients({ type: "budget_status", channelId, status });
+        return status;
+    }
+
+    /**
+     * 在聊天视图中发起提示词（Fix with Claudix、Explain 等编辑器命令）
+     */
+    startPrompt(request: Omit<StartPromptRequest, "type">): void {
+        this.notifyClients({ type: "start_prompt", ...request });
+    }
+
+    /**
+     * 在聊天输入框中插入 @ 提及
+     */
+    insertAtMention(text: string): void {
+        this.notifyClients({ type: "insert_at_mention", text });
+    }
+
+    /**
+     * 推送 OAuth 授权 URL
+     */
+    notifyAuthUrl(url: string, method: AuthURLRequest["method"]): void {
+        this.notifyClients({ type: "auth_url", url, method });
+    }
+
+    /**
+     * 读取工作区默认预算（claudix.budget.*）
+     */
+    private getBudgetDefaults(): { budget: SessionBudget; warningThreshold: number } {
+        const threshold = this.configService.getValue<number>('claudix.budget.warningThreshold', DEFAULT_BUDGET_WARNING_THRESHOLD);
+        return {
+            budget: {
+                maxCostUsd: this.configService.getValue<number>('claudix.budget.maxCostUsd', 0),
+                maxOutputTokens: this.configService.getValue<number>('claudix.budget.maxOutputTokens', 0),
+                maxTurns: this.configService.getValue<number>('claudix.budget.maxTurns', 0)
+            },
+            // 与 package.json 中的取值范围一致
+            warningThreshold: typeof threshold === 'number' && Number.isFinite(threshold)
+                ? Math.min(Math.max(threshold, MIN_BUDGET_WARNING_THRESHOLD), 1)
+                : DEFAULT_BUDGET_WARNING_THRESHOLD
+        };
+    }
+
+    /**
+     * 工作区默认预算变化时更新所有 channel 并推送最新状态
+     */
+    private updateBudgetDefaults(): void {
+        const defaults = this.getBudgetDefaults();
+        for (const [channelId, channel] of this.channels) {
+            channel.budget.setDefaults(defaults.budget, defaults.warningThreshold);
+            this.notifyClients({ type: "budget_status", channelId, status: channel.budget.getStatus() });
+        }
+    }
+
     /**
      * 请求工具权限
      */
@@ -811,18 +1320,75 @@ export class ClaudeAgentService implements IClaudeAgentService {
             suggestions
         };
 
-        const response = await this.sendRequest<ToolPermissionRequest, ToolPermissionResponse>(
-            channelId,
-            request
-        );
+        const requestId = this.generateId();
+        this.pendingPermissions.set(requestId, { channelId, toolName, inputs });
+
+        if (DIFF_REVIEW_TOOLS.has(toolName)) {
+            void this.openPermissionDiff(requestId, toolName, inputs, this.channels.get(channelId)?.cwd ?? this.getCwd());
+        }
 
-        return response.result;
+        try {
+            const response = await this.sendRequest<ToolPermissionRequest, ToolPermissionResponse>(
+                channelId,
+                request,
+                requestId
+            );
+
+            return response.result;
+        } finally {
+            this.pendingPermissions.delete(requestId);
+            await this.diffReviewService.close(requestId);
+        }
+    }
+
+    /**
+     * 为编辑类工具打开 Diff 视图，供用户在编辑器中审阅
+     */
+    private async openPermissionDiff(
+        requestId: string,
+        toolName: string,
+        inputs: Record<string, unknown>,
+        cwd: string
+    ): Promise<void> {
+        try {
+            const diff = await preparePermissionDiff(toolName, inputs, cwd, this.handlerContext);
+
+            // 准备期间请求可能已在 WebView 中处理完毕
+            const pending = this.pendingPermissions.get(requestId);
+            if (!diff || !pending) {
+                return;
+            }
+            pending.originalContent = diff.originalContent;
+
+            await this.diffReviewService.open(
+                { id: requestId, leftUri: diff.leftUri, rightUri: diff.rightUri },
+                diff.title
+            );
+
+            if (!this.pendingPermissions.has(requestId)) {
+                await this.diffReviewService.close(requestId);
+            }
+        } catch (error) {
+            this.logService.warn(`[ClaudeAgentService] 打开权限 Diff 失败: ${error}`);
+        }
+    }
+
+    /**
+     * 将 Diff 右侧修改后的内容转换为新的工具输入
+     */
+    private buildEditedInput(id: string, content: string): Record<string, unknown> | undefined {
+        const pending = this.pendingPermissions.get(id);
+        if (!pending || pending.originalContent === undefined) {
+            return undefined;
+        }
+        return buildEditedToolInput(pending.toolName, pending.inputs, pending.originalContent, content);
     }
 
     /**
      * 关闭服务
      */
     async shutdown(): Promise<void> {
+        clearTimeout(this.editorContextTimer);
         await this.closeAllChannels();
         this.fromClientStream.done();
     }
@@ -846,27 +1412,51 @@ export class ClaudeAgentService implements IClaudeAgentService {
     }
 
     /**
-     * 获取 maxThinkingTokens（根据 thinking level）
+     * 获取新会话的默认 Thinking 等级
      */
-    private getMaxThinkingTokens(level: string): number {
-        return level === 'off' ? 0 : 31999;
+    private getDefaultThinkingLevel(): string {
+        return normalizeThinkingLevel(this.configService.getValue<string>('claudix.thinkingLevel'));
     }
 
     /**
-     * 设置 thinking level
+     * 设置 thinking level（只影响指定的 channel，下一轮对话结束后写入会话元数据）
      */
     async setThinkingLevel(channelId: string, level: string): Promise<void> {
-        this.thinkingLevel = level;
+        const error = validateThinkingLevel(level);
+        if (error) {
+            throw new Error(error);
+        }
 
-        // 更新正在运行的 channel
         const channel = this.channels.get(channelId);
-        if (channel?.query) {
-            const maxTokens = this.getMaxThinkingTokens(level);
+        if (channel) {
+            const maxTokens = getMaxThinkingTokens(level);
+            channel.thinkingLevel = level;
             await channel.query.setMaxThinkingTokens(maxTokens);
             this.logService.info(`[setThinkingLevel] Updated channel ${channelId} to ${level} (${maxTokens} tokens)`);
         }
     }
 
+    /**
+     * 把 channel 的 Thinking 等级写入会话元数据，恢复会话时沿用
+     *
+     * 在 result 消息之后写入，此时对话记录文件已经存在；与默认等级相同时清除记录
+     */
+    private async saveThinkingLevel(channelId: string, sessionId: string): Promise<void> {
+        const channel = this.channels.get(channelId);
+        if (!channel || channel.thinkingLevel === channel.savedThinkingLevel) {
+            return;
+        }
+
+        const level = channel.thinkingLevel;
+        channel.savedThinkingLevel = level;
+        try {
+            const stored = level === this.getDefaultThinkingLevel() ? "" : level;
+            await this.sessionService.updateMetadata(sessionId, { thinkingLevel: stored }, channel.cwd);
+        } catch (error) {
+            this.logService.warn(`[ClaudeAgentService] 保存会话 Thinking 等级失败: ${error}`);
+        }
+    }
+
     /**
      * 设置权限模式
      */
@@ -0,0 +1,476 @@
+/**
+ * ClaudeAuthService - 认证状态与登录
+ *
+ * 职责：
+ * 1. 检测当前凭证来源（SecretStorage、环境变量、Claude Code CLI 自身的登录）
+ * 2. API 密钥和 OAuth token 保存在 VS Code SecretStorage 中，启动 SDK 时注入环境变量
+ * 3. OAuth（PKCE）：生成授权 URL，用户在浏览器中授权后提交页面上显示的代码
+ *    - claude.ai：使用订阅额度，保存 access token（过期时刷新）
+ *    - 注入 CLI 的 token 过期前定时刷新，发出 onDidRefreshToken，由 ClaudeAgentService 重新启动 channel
+ *    - console.anthropic.com：用 access token 创建 API 密钥并保存
+ * 4. 退出登录时清除保存的凭证
+ *
+ * 凭证变化时发出 onDidChange，由 ClaudeAgentService 关闭现有 channel 并推送新的状态。
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ * - IConfigurationService: 读取 claudix.environmentVariables
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createDecorator } from '../../di/instantiation';
+import { ILogService } from '../logService';
+import { IConfigurationService } from '../configurationService';
+import { getCustomEnvironmentVariables } from './environmentVariables';
+import type { AuthStatus, LoginMethod } from '../../shared/messages';
+
+export const IClaudeAuthService = createDecorator<IClaudeAuthService>('claudeAuthService');
+
+export type OAuthLoginMethod = Exclude<LoginMethod, "apiKey">;
+
+/**
+ * Claude Code 的 OAuth 客户端
+ */
+const OAUTH_CLIENT_ID = "9d1c250a-e61b-44d9-88ed-5944d1962f5e";
+const OAUTH_REDIRECT_URI = "https://console.anthropic.com/oauth/code/callback";
+const OAUTH_TOKEN_URL = "https://console.anthropic.com/v1/oauth/token";
+const CREATE_API_KEY_URL = "https://api.anthropic.com/api/oauth/claude_cli/create_api_key";
+
+const OAUTH_AUTHORIZE_URLS: Record<OAuthLoginMethod, string> = {
+    "claude.ai": "https://claude.ai/oauth/authorize",
+    "console.anthropic.com": "https://console.anthropic.com/oauth/authorize"
+};
+
+const OAUTH_SCOPES: Record<OAuthLoginMethod, string> = {
+    "claude.ai": "org:create_api_key user:profile user:inference",
+    "console.anthropic.com": "org:create_api_key user:profile"
+};
+
+/**
+ * SecretStorage 键
+ */
+const API_KEY_SECRET = "claudix.apiKey";
+const OAUTH_TOKEN_SECRET = "claudix.oauthToken";
+
+/**
+ * 提前刷新 token 的时间（避免启动过程中过期）
+ */
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * 定时刷新的最短间隔（刷新失败后重试）
+ */
+const TOKEN_REFRESH_RETRY_MS = 60 * 1000;
+
+/**
+ * setTimeout 允许的最大延迟
+ */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * 任一存在即视为已通过环境变量配置凭证
+ */
+const CREDENTIAL_ENV_VARS = [
+    "ANTHROPIC_API_KEY",
+    "ANTHROPIC_AUTH_TOKEN",
+    "CLAUDE_CODE_OAUTH_TOKEN",
+    "CLAUDE_CODE_USE_BEDROCK",
+    "CLAUDE_CODE_USE_VERTEX"
+];
+
+interface StoredOAuthToken {
+    accessToken: string;
+    refreshToken?: string;
+    expiresAt?: number;
+}
+
+interface PendingLogin {
+    method: OAuthLoginMethod;
+    verifier: string;
+    state: string;
+}
+
+/**
+ * PKCE 参数
+ */
+export function createPkce(): { verifier: string; challenge: string; state: string } {
+    const verifier = crypto.randomBytes(32).toString("base64url");
+    return {
+        verifier,
+        challenge: crypto.createHash("sha256").update(verifier).digest("base64url"),
+        state: crypto.randomBytes(32).toString("base64url")
+    };
+}
+
+/**
+ * 授权页面 URL
+ */
+export function buildAuthorizeUrl(method: OAuthLoginMethod, challenge: string, state: string): string {
+    const url = new URL(OAUTH_AUTHORIZE_URLS[method]);
+    url.searchParams.set("code", "true");
+    url.searchParams.set("client_id", OAUTH_CLIENT_ID);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("redirect_uri", OAUTH_REDIRECT_URI);
+    url.searchParams.set("scope", OAUTH_SCOPES[method]);
+    url.searchParams.set("code_challenge", challenge);
+    url.searchParams.set("code_challenge_method", "S256");
+    url.searchParams.set("state", state);
+    return url.toString();
+}
+
+/**
+ * 解析授权页面显示的代码（格式为 code#state，也接受只粘贴 code）
+ */
+export function parseOAuthCode(input: string): { code: string; state?: string } {
+    const [code, state] = input.trim().split("#");
+    return { code, state: state || undefined };
+}
+
+/**
+ * 距离定时刷新 token 的时间（到期前 TOKEN_REFRESH_MARGIN_MS 刷新，最短 TOKEN_REFRESH_RETRY_MS）
+ */
+export function getTokenRefreshDelay(expiresAt: number, now = Date.now()): number {
+    return Math.min(Math.max(expiresAt - TOKEN_REFRESH_MARGIN_MS - now, TOKEN_REFRESH_RETRY_MS), MAX_TIMER_DELAY_MS);
+}
+
+/**
+ * 环境变量中是否已配置凭证
+ */
+export function hasCredentialEnvironment(env: Record<string, string | undefined>): boolean {
+    return CREDENTIAL_ENV_VARS.some(name => !!env[name]);
+}
+
+/**
+ * 认证服务接口
+ */
+export interface IClaudeAuthService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 保存的凭证变化
+     */
+    readonly onDidChange: vscode.Event<void>;
+
+    /**
+     * 注入 CLI 的 OAuth token 已刷新（已启动的 CLI 仍使用旧 token，需要重新启动）
+     */
+    readonly onDidRefreshToken: vscode.Event<void>;
+
+    /**
+     * 当前认证状态
+     */
+    getStatus(): Promise<AuthStatus>;
+
+    /**
+     * 启动 CLI 时注入的凭证环境变量（没有保存凭证时为空）
+     */
+    getCredentialEnvironment(): Promise<Record<string, string>>;
+
+    /**
+     * 保存 API 密钥（替换已保存的 OAuth token）
+     */
+    setApiKey(apiKey: string): Promise<void>;
+
+    /**
+     * 开始 OAuth 登录，返回授权页面 URL
+     */
+    startOAuthLogin(method: OAuthLoginMethod): string;
+
+    /**
+     * 提交授权页面显示的代码，完成登录
+     */
+    submitOAuthCode(input: string): Promise<void>;
+
+    /**
+     * 清除保存的凭证
+     */
+    logout(): Promise<void>;
+}
+
+/**
+ * ClaudeAuthService 实现
+ */
+export class ClaudeAuthService implements IClaudeAuthService {
+    readonly _serviceBrand: undefined;
+
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    private readonly refreshEmitter = new vscode.EventEmitter<void>();
+    readonly onDidRefreshToken = this.refreshEmitter.event;
+
+    private readonly secrets: vscode.SecretStorage;
+    private pendingLogin?: PendingLogin;
+
+    // 上次通知时保存的凭证（忽略刷新 token 等不改变凭证的写入）
+    private credentialKey?: string;
+
+    // 最近一次注入 CLI 的 OAuth access token 及其定时刷新
+    private injectedToken?: string;
+    private refreshTimer?: ReturnType<typeof setTimeout>;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        @ILogService private readonly logService: ILogService,
+        @IConfigurationService private readonly configService: IConfigurationService
+    ) {
+        this.secrets = context.secrets;
+
+        // 其他窗口修改凭证时同步
+        void this.getCredentialKey().then(key => this.credentialKey = key);
+        context.subscriptions.push(
+            this.secrets.onDidChange(event => {
+                if (event.key === API_KEY_SECRET || event.key === OAUTH_TOKEN_SECRET) {
+                    void this.notifyIfChanged();
+                }
+            }),
+            this.changeEmitter,
+            this.refreshEmitter,
+            { dispose: () => clearTimeout(this.refreshTimer) }
+        );
+
+        this.logService.info('[ClaudeAuthService] 已初始化');
+    }
+
+    async getStatus(): Promise<AuthStatus> {
+        const pendingLogin = this.pendingLogin?.method;
+
+        if (await this.secrets.get(API_KEY_SECRET)) {
+            return { authenticated: true, method: "apiKey", pendingLogin };
+        }
+        if (await this.secrets.get(OAUTH_TOKEN_SECRET)) {
+            return { authenticated: true, method: "claudeAi", pendingLogin };
+        }
+        if (hasCredentialEnvironment({ ...process.env, ...getCustomEnvironmentVariables(this.configService) })) {
+            return { authenticated: true, method: "environment", pendingLogin };
+        }
+        if (await this.hasCliLogin()) {
+            return { authenticated: true, method: "claudeCli", pendingLogin };
+        }
+        return { authenticated: false, pendingLogin };
+    }
+
+    async getCredentialEnvironment(): Promise<Record<string, string>> {
+        const apiKey = await this.secrets.get(API_KEY_SECRET);
+        if (apiKey) {
+            return { ANTHROPIC_API_KEY: apiKey };
+        }
+
+        const token = await this.getOAuthToken();
+        if (!token) {
+            return {};
+        }
+        this.scheduleTokenRefresh(token);
+        return { CLAUDE_CODE_OAUTH_TOKEN: token.accessToken };
+    }
+
+    async setApiKey(apiKey: string): Promise<void> {
+        this.pendingLogin = undefined;
+        await this.secrets.delete(OAUTH_TOKEN_SECRET);
+        await this.secrets.store(API_KEY_SECRET, apiKey.trim());
+        this.logService.info('[ClaudeAuthService] 已保存 API 密钥');
+        await this.notifyChanged();
+    }
+
+    startOAuthLogin(method: OAuthLoginMethod): string {
+        const { verifier, challenge, state } = createPkce();
+        this.pendingLogin = { method, verifier, state };
+        this.logService.info(`[ClaudeAuthService] 开始 OAuth 登录: ${method}`);
+        return buildAuthorizeUrl(method, challenge, state);
+    }
+
+    async submitOAuthCode(input: string): Promise<void> {
+        const pending = this.pendingLogin;
+        if (!pending) {
+            throw new Error("No sign-in in progress. Start signing in again.");
+        }
+
+        const { code, state } = parseOAuthCode(input);
+        if (!code) {
+            throw new Error("Paste the code shown after authorizing.");
+        }
+        if (state && state !== pending.state) {
+            throw new Error("This code belongs to a different sign-in attempt. Start signing in again.");
+        }
+
+        const token = await this.requestToken({
+            grant_type: "authorization_code",
+            code,
+            state: pending.state,
+            client_id: OAUTH_CLIENT_ID,
+            redirect_uri: OAUTH_REDIRECT_URI,
+            code_verifier: pending.verifier
+        });
+
+        if (pending.method === "console.anthropic.com") {
+            await this.secrets.delete(OAUTH_TOKEN_SECRET);
+            await this.secrets.store(API_KEY_SECRET, await this.createApiKey(token.accessToken));
+        } else {
+            await this.secrets.delete(API_KEY_SECRET);
+            await this.secrets.store(OAUTH_TOKEN_SECRET, JSON.stringify(token));
+        }
+
+        this.pendingLogin = undefined;
+        this.logService.info(`[ClaudeAuthService] OAuth 登录完成: ${pending.method}`);
+        await this.notifyChanged();
+    }
+
+    async logout(): Promise<void> {
+        this.pendingLogin = undefined;
+        await this.secrets.delete(API_KEY_SECRET);
+        await this.secrets.delete(OAUTH_TOKEN_SECRET);
+        this.logService.info('[ClaudeAuthService] 已清除保存的凭证');
+        await this.notifyChanged();
+    }
+
+    /**
+     * 通知凭证变化（登录后即使凭证类型相同也要重新启动 channel）
+     */
+    private async notifyChanged(): Promise<void> {
+        this.clearTokenRefresh();
+        this.credentialKey = await this.getCredentialKey();
+        this.changeEmitter.fire();
+    }
+
+    private async notifyIfChanged(): Promise<void> {
+        const key = await this.getCredentialKey();
+        if (key !== this.credentialKey) {
+            this.credentialKey = key;
+            this.changeEmitter.fire();
+        }
+    }
+
+    /**
+     * 标识当前保存的凭证（API 密钥取摘要，OAuth token 刷新后保持不变）
+     */
+    private async getCredentialKey(): Promise<string> {
+        const apiKey = await this.secrets.get(API_KEY_SECRET);
+        if (apiKey) {
+            return `apiKey:${crypto.createHash("sha256").update(apiKey).digest("hex")}`;
+        }
+        return await this.secrets.get(OAUTH_TOKEN_SECRET) ? "claudeAi" : "";
+    }
+
+    /**
+     * 读取保存的 OAuth token（即将过期时刷新，刷新失败则沿用旧 token，由 CLI 报告错误）
+     */
+    private async getOAuthToken(): Promise<StoredOAuthToken | undefined> {
+        const raw = await this.secrets.get(OAUTH_TOKEN_SECRET);
+        if (!raw) {
+            return undefined;
+        }
+
+        let stored: StoredOAuthToken;
+        try {
+            stored = JSON.parse(raw);
+        } catch {
+            return undefined;
+        }
+
+        if (stored.refreshToken && stored.expiresAt && stored.expiresAt - TOKEN_REFRESH_MARGIN_MS < Date.now()) {
+            try {
+                const refreshed = await this.requestToken({
+                    grant_type: "refresh_token",
+                    refresh_token: stored.refreshToken,
+                    client_id: OAUTH_CLIENT_ID
+                });
+                stored = { ...refreshed, refreshToken: refreshed.refreshToken ?? stored.refreshToken };
+                await this.secrets.store(OAUTH_TOKEN_SECRET, JSON.stringify(stored));
+            } catch (error) {
+                this.logService.warn(`[ClaudeAuthService] 刷新 OAuth token 失败: ${error}`);
+            }
+        }
+
+        return stored;
+    }
+
+    /**
+     * 在注入的 token 过期前刷新（CLI 只在启动时读取 CLAUDE_CODE_OAUTH_TOKEN）
+     */
+    private scheduleTokenRefresh(token: StoredOAuthToken): void {
+        this.clearTokenRefresh();
+        this.injectedToken = token.accessToken;
+        if (!token.refreshToken || !token.expiresAt) {
+            return;
+        }
+
+        this.refreshTimer = setTimeout(() => {
+            void this.refreshInjectedToken();
+        }, getTokenRefreshDelay(token.expiresAt));
+    }
+
+    private clearTokenRefresh(): void {
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = undefined;
+    }
+
+    private async refreshInjectedToken(): Promise<void> {
+        const previous = this.injectedToken;
+        const token = await this.getOAuthToken();
+        // 已退出登录或改用 API 密钥
+        if (!token) {
+            return;
+        }
+
+        this.scheduleTokenRefresh(token);
+        if (token.accessToken !== previous) {
+            this.logService.info('[ClaudeAuthService] OAuth token 已刷新');
+            this.refreshEmitter.fire();
+        }
+    }
+
+    private async requestToken(body: Record<string, string>): Promise<StoredOAuthToken> {
+        const response = await fetch(OAUTH_TOKEN_URL, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+            throw new Error(`Sign-in failed (${response.status}): ${await response.text()}`);
+        }
+
+        const data = await response.json() as { access_token: string; refresh_token?: string; expires_in?: number };
+        return {
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+            expiresAt: data.expires_in ? Date.now() + data.expires_in * 1000 : undefined
+        };
+    }
+
+    private async createApiKey(accessToken: string): Promise<string> {
+        const response = await fetch(CREATE_API_KEY_URL, {
+            method: "POST",
+            headers: { Authorization: `Bearer ${accessToken}` }
+        });
+        if (!response.ok) {
+            throw new Error(`Failed to create an API key (${response.status}): ${await response.text()}`);
+        }
+
+        const data = await response.json() as { raw_key?: string };
+        if (!data.raw_key) {
+            throw new Error("Failed to create an API key: the server did not return a key");
+        }
+        return data.raw_key;
+    }
+
+    /**
+     * Claude Code CLI 是否已登录（~/.claude.json 中保存了账号或密钥）
+     */
+    private async hasCliLogin(): Promise<boolean> {
+        const configDir = process.env.CLAUDE_CONFIG_DIR;
+        const configPath = configDir
+            ? path.join(configDir, ".claude.json")
+            : path.join(os.homedir(), ".claude.json");
+
+        try {
+            const config = JSON.parse(await fs.readFile(configPath, "utf8"));
+            return !!(config.oauthAccount || config.primaryApiKey);
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,322 @@
+/**
+ * ClaudeCheckpointService - 文件检查点
+ *
+ * 职责：
+ * 1. 在 Edit / Write / MultiEdit 执行前（PreToolUse Hook）保存文件快照
+ * 2. 按对话轮次（turn）和触发该轮的用户消息 uuid 记录快照
+ * 3. 回退到某条用户消息：把当前对话链上之后被修改过的文件恢复到该消息发送前的状态
+ *    （编辑重发、分叉或切换分支后，其它分支的检查点轮次相同但不参与回退）
+ * 4. 删除会话时清理其检查点
+ *
+ * 存储位置：<globalStorage>/checkpoints/<sessionId>/
+ * - index.json: 检查点索引
+ * - *.snap:     文件快照内容
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { createDecorator } from '../../di/instantiation';
+import { ILogService } from '../logService';
+import { isUserPrompt } from './ClaudeSessionService';
+import { TranscriptCursor, isTranscriptChanged, readAppendedEntries } from './transcriptReader';
+import type { RewindCheckpointResult } from '../../shared/messages';
+
+export const IClaudeCheckpointService = createDecorator<IClaudeCheckpointService>('claudeCheckpointService');
+
+/**
+ * 单个文件的快照
+ */
+interface FileSnapshot {
+    path: string;
+    existed: boolean;
+    blob?: string;
+}
+
+/**
+ * 一轮对话的检查点
+ */
+interface Checkpoint {
+    userMessageUuid: string;
+    turn: number;
+    createdAt: number;
+    files: FileSnapshot[];
+}
+
+/**
+ * 会话检查点索引
+ */
+interface CheckpointIndex {
+    transcriptPath?: string;
+    checkpoints: Checkpoint[];
+}
+
+/**
+ * 对话链中的用户输入
+ */
+interface PromptEntry {
+    uuid: string;
+    parentUuid?: string;
+}
+
+/**
+ * 已读取的对话记录（只保留构建对话链需要的字段）
+ */
+interface TranscriptChain extends TranscriptCursor {
+    entries: Map<string, { parentUuid?: string; prompt: boolean }>;
+    last?: string;
+}
+
+/**
+ * 检查点服务接口
+ */
+export interface IClaudeCheckpointService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 在文件被修改前保存快照（同一轮中每个文件只保存第一次）
+     *
+     * @param transcriptPath Hook 输入中的 transcript_path，用于确定当前轮次和用户消息
+     */
+    snapshot(sessionId: string, transcriptPath: string, filePath: string): Promise<void>;
+
+    /**
+     * 回退到某条用户消息发送前的文件状态
+     *
+     * @param fallbackTranscriptPath 该会话尚无检查点时用于定位消息的对话记录
+     */
+    rewind(sessionId: string, userMessageUuid: string, fallbackTranscriptPath: string): Promise<RewindCheckpointResult>;
+
+    /**
+     * 删除会话的所有检查点（索引与快照）
+     */
+    deleteCheckpoints(sessionId: string): Promise<void>;
+}
+
+/**
+ * 检查点服务实现
+ */
+export class ClaudeCheckpointService implements IClaudeCheckpointService {
+    readonly _serviceBrand: undefined;
+
+    private readonly storageDir: string;
+
+    // 按会话串行化读写，避免并行工具调用互相覆盖索引
+    private readonly queues = new Map<string, Promise<unknown>>();
+
+    // 对话记录路径 → 已读取的对话链（每次工具调用只读取新增的行）
+    private readonly chains = new Map<string, TranscriptChain>();
+
+    constructor(
+        context: Pick<vscode.ExtensionContext, "globalStorageUri">,
+        @ILogService private readonly logService: ILogService
+    ) {
+        this.storageDir = path.join(context.globalStorageUri.fsPath, "checkpoints");
+    }
+
+    snapshot(sessionId: string, transcriptPath: string, filePath: string): Promise<void> {
+        return this.enqueue(sessionId, async () => {
+            const prompts = await this.readPromptChain(transcriptPath);
+            const prompt = prompts[prompts.length - 1];
+            if (!prompt) {
+                this.logService.warn(`[ClaudeCheckpointService] 未找到用户消息，跳过快照: ${filePath}`);
+                return;
+            }
+
+            const index = await this.readIndex(sessionId);
+            index.transcriptPath = transcriptPath;
+
+            let checkpoint = index.checkpoints.find(item => item.userMessageUuid === prompt.uuid);
+            if (!checkpoint) {
+                checkpoint = { userMessageUuid: prompt.uuid, turn: prompts.length, createdAt: Date.now(), files: [] };
+                index.checkpoints.push(checkpoint);
+            }
+            if (checkpoint.files.some(file => file.path === filePath)) {
+                return;
+            }
+
+            const snapshot: FileSnapshot = { path: filePath, existed: false };
+            try {
+                const content = await fs.readFile(filePath);
+                snapshot.existed = true;
+                snapshot.blob = `${randomUUID()}.snap`;
+                await fs.mkdir(this.getSessionDir(sessionId), { recursive: true });
+                await fs.writeFile(path.join(this.getSessionDir(sessionId), snapshot.blob), content);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") {
+                    throw error;
+                }
+            }
+
+            checkpoint.files.push(snapshot);
+            await this.writeIndex(sessionId, index);
+
+            this.logService.info(`[ClaudeCheckpointService] 已保存快照 (turn ${checkpoint.turn}): ${filePath}`);
+        });
+    }
+
+    rewind(sessionId: string, userMessageUuid: string, fallbackTranscriptPath: string): Promise<RewindCheckpointResult> {
+        return this.enqueue(sessionId, async () => {
+            const index = await this.readIndex(sessionId);
+            const prompts = await this.readPromptChain(index.transcriptPath ?? fallbackTranscriptPath);
+            const position = prompts.findIndex(prompt => prompt.uuid === userMessageUuid);
+            const own = index.checkpoints.find(item => item.userMessageUuid === userMessageUuid);
+
+            if (position < 0 && !own) {
+                throw new Error("Message not found in this conversation");
+            }
+
+            // 只回退当前对话链上目标消息及之后的检查点，按对话链顺序排列
+            const chain = position >= 0 ? prompts.slice(position).map(prompt => prompt.uuid) : [userMessageUuid];
+            const turn = own?.turn ?? position + 1;
+            const affected = index.checkpoints
+                .filter(item => chain.includes(item.userMessageUuid))
+                .sort((a, b) =>
+                    chain.indexOf(a.userMessageUuid) - chain.indexOf(b.userMessageUuid) || a.createdAt - b.createdAt
+                );
+
+            // 每个文件恢复到最早的快照（即目标消息发送前的状态）
+            const restored = new Map<string, FileSnapshot>();
+            for (const checkpoint of affected) {
+                for (const file of checkpoint.files) {
+                    if (!restored.has(file.path)) {
+                        restored.set(file.path, file);
+                    }
+                }
+            }
+
+            const result: RewindCheckpointResult = {
+                restoredFiles: [],
+                deletedFiles: [],
+                resumeSessionAt: position >= 0 ? prompts[position].parentUuid : undefined
+            };
+
+            for (const file of restored.values()) {
+                if (file.existed && file.blob) {
+                    const content = await fs.readFile(path.join(this.getSessionDir(sessionId), file.blob));
+                    await fs.mkdir(path.dirname(file.path), { recursive: true });
+                    await fs.writeFile(file.path, content);
+                    result.restoredFiles.push(file.path);
+                } else {
+                    await fs.rm(file.path, { force: true });
+                    result.deletedFiles.push(file.path);
+                }
+            }
+
+            // 已回退的检查点不再有效
+            index.checkpoints = index.checkpoints.filter(item => !affected.includes(item));
+            for (const checkpoint of affected) {
+                for (const file of checkpoint.files) {
+                    if (file.blob) {
+                        await fs.rm(path.join(this.getSessionDir(sessionId), file.blob), { force: true });
+                    }
+                }
+            }
+            await this.writeIndex(sessionId, index);
+
+            this.logService.info(
+                `[ClaudeCheckpointService] 已回退到 turn ${turn}: 恢复 ${result.restoredFiles.length} 个文件，删除 ${result.deletedFiles.length} 个文件`
+            );
+            return result;
+        });
+    }
+
+    deleteCheckpoints(sessionId: string): Promise<void> {
+        return this.enqueue(sessionId, async () => {
+            const index = await this.readIndex(sessionId);
+            if (index.transcriptPath) {
+                this.chains.delete(index.transcriptPath);
+            }
+            await fs.rm(this.getSessionDir(sessionId), { recursive: true, force: true });
+            this.logService.info(`[ClaudeCheckpointService] 已删除会话 ${sessionId} 的检查点`);
+        });
+    }
+
+    private enqueue<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(sessionId) ?? Promise.resolve();
+        const next = previous.catch(() => undefined).then(task);
+        this.queues.set(sessionId, next);
+
+        // 队列中没有后续任务时移除，避免 Map 随会话数量无限增长
+        const release = () => {
+            if (this.queues.get(sessionId) === next) {
+                this.queues.delete(sessionId);
+            }
+        };
+        next.then(release, release);
+        return next;
+    }
+
+    /**
+     * 读取对话记录，返回当前对话链上的用户输入（按时间顺序）
+     */
+    private async readPromptChain(transcriptPath: string): Promise<PromptEntry[]> {
+        let stat: { size: number; mtimeMs: number };
+        try {
+            stat = await fs.stat(transcriptPath);
+        } catch {
+            this.chains.delete(transcriptPath);
+            return [];
+        }
+
+        let chain = this.chains.get(transcriptPath);
+        // 文件变小说明被重写，需要重新读取
+        if (!chain || stat.size < chain.offset) {
+            chain = { entries: new Map(), size: 0, mtimeMs: 0, offset: 0 };
+            this.chains.set(transcriptPath, chain);
+        }
+
+        if (isTranscriptChanged(chain, stat.size, stat.mtimeMs)) {
+            const { entries, consumed } = await readAppendedEntries(transcriptPath, chain.offset, stat.size);
+            for (const entry of entries) {
+                if (typeof entry.uuid === "string") {
+                    chain.entries.set(entry.uuid, {
+                        parentUuid: typeof entry.parentUuid === "string" ? entry.parentUuid : undefined,
+                        prompt: isUserPrompt(entry)
+                    });
+                    chain.last = entry.uuid;
+                }
+            }
+            chain.offset += consumed;
+            chain.size = stat.size;
+            chain.mtimeMs = stat.mtimeMs;
+        }
+
+        const prompts: PromptEntry[] = [];
+        let uuid = chain.last;
+        while (uuid) {
+            const entry = chain.entries.get(uuid);
+            if (!entry) {
+                break;
+            }
+            if (entry.prompt) {
+                prompts.unshift({ uuid, parentUuid: entry.parentUuid });
+            }
+            uuid = entry.parentUuid;
+        }
+        return prompts;
+    }
+
+    private getSessionDir(sessionId: string): string {
+        return path.join(this.storageDir, path.basename(sessionId));
+    }
+
+    private async readIndex(sessionId: string): Promise<CheckpointIndex> {
+        try {
+            const content = await fs.readFile(path.join(this.getSessionDir(sessionId), "index.json"), "utf8");
+            const parsed = JSON.parse(content);
+            return { transcriptPath: parsed.transcriptPath, checkpoints: Array.isArray(parsed.checkpoints) ? parsed.checkpoints : [] };
+        } catch {
+            return { checkpoints: [] };
+        }
+    }
+
+    private async writeIndex(sessionId: string, index: CheckpointIndex): Promise<void> {
+        await fs.mkdir(this.getSessionDir(sessionId), { recursive: true });
+        await fs.writeFile(path.join(this.getSessionDir(sessionId), "index.json"), JSON.stringify(index, null, 2), "utf8");
+    }
+}
@@ -0,0 +1,215 @@
+/**
+ * ClaudeDiffReviewService - 权限审批 Diff 视图管理
+ *
+ * 职责：
+ * 1. 跟踪 Edit / Write / MultiEdit 权限请求打开的 Diff 标签页
+ * 2. 维护 claudix.diffReviewActive 上下文，控制编辑器标题栏的 Accept / Reject 按钮
+ * 3. 用户在 Diff 视图中接受、拒绝或关闭标签页时发出 onDidResolve
+ * 4. 右侧可编辑，保存时发出 onDidSave，携带用户修改后的内容
+ * 5. 权限请求在 WebView 中处理完毕后关闭对应标签页
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ */
+
+import * as vscode from 'vscode';
+import { createDecorator } from '../../di/instantiation';
+import { Disposable } from '../../base/lifecycle';
+import { ILogService } from '../logService';
+
+export const IClaudeDiffReviewService = createDecorator<IClaudeDiffReviewService>('claudeDiffReviewService');
+
+/**
+ * 控制编辑器标题栏按钮显示的上下文键
+ */
+const CONTEXT_KEY = 'claudix.diffReviewActive';
+
+/**
+ * 一次 Diff 审阅
+ */
+export interface DiffReview {
+    id: string;
+    leftUri: vscode.Uri;
+    rightUri: vscode.Uri;
+}
+
+/**
+ * 审阅结果
+ */
+export interface DiffReviewResolution {
+    id: string;
+    accepted: boolean;
+    // 用户修改过右侧内容时为修改后的全文
+    content?: string;
+}
+
+/**
+ * 右侧文件被保存
+ */
+export interface DiffReviewEdit {
+    id: string;
+    content: string;
+}
+
+/**
+ * Diff 审阅服务接口
+ */
+export interface IClaudeDiffReviewService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 用户在 Diff 视图中做出决定（包括关闭标签页）
+     */
+    readonly onDidResolve: vscode.Event<DiffReviewResolution>;
+
+    /**
+     * 用户保存了 Diff 右侧的修改
+     */
+    readonly onDidSave: vscode.Event<DiffReviewEdit>;
+
+    /**
+     * 打开 Diff 视图并开始跟踪
+     */
+    open(review: DiffReview, title: string): Promise<void>;
+
+    /**
+     * 停止跟踪并关闭 Diff 标签页
+     */
+    close(id: string): Promise<void>;
+
+    /**
+     * 接受或拒绝审阅（接受前先保存右侧未保存的修改）
+     *
+     * @param uri Diff 任意一侧的 URI，不传时使用当前活动标签页
+     * @returns 是否找到对应的审阅
+     */
+    resolve(accepted: boolean, uri?: vscode.Uri): Promise<boolean>;
+}
+
+/**
+ * Diff 审阅服务实现
+ */
+export class ClaudeDiffReviewService extends Disposable implements IClaudeDiffReviewService {
+    readonly _serviceBrand: undefined;
+
+    private readonly resolveEmitter = this._register(new vscode.EventEmitter<DiffReviewResolution>());
+    readonly onDidResolve = this.resolveEmitter.event;
+
+    private readonly saveEmitter = this._register(new vscode.EventEmitter<DiffReviewEdit>());
+    readonly onDidSave = this.saveEmitter.event;
+
+    private readonly reviews = new Map<string, DiffReview>();
+
+    // 右侧已被用户保存过的审阅
+    private readonly edited = new Set<string>();
+
+    constructor(
+        @ILogService private readonly logService: ILogService
+    ) {
+        super();
+
+        this._register(vscode.window.tabGroups.onDidChangeTabs(event => {
+            // 用户手动关闭 Diff 标签页视为拒绝
+            for (const tab of event.closed) {
+                const review = this.findByTab(tab);
+                if (review) {
+                    this.logService.info(`[ClaudeDiffReviewService] Diff 标签页已关闭，视为拒绝: ${review.id}`);
+                    this.reviews.delete(review.id);
+                    this.edited.delete(review.id);
+                    this.resolveEmitter.fire({ id: review.id, accepted: false });
+                }
+            }
+            this.updateContext();
+        }));
+        this._register(vscode.window.tabGroups.onDidChangeTabGroups(() => this.updateContext()));
+        this._register(vscode.workspace.onDidSaveTextDocument(document => {
+            const review = this.findByUri(document.uri);
+            if (review && review.rightUri.toString() === document.uri.toString()) {
+                this.edited.add(review.id);
+                this.saveEmitter.fire({ id: review.id, content: document.getText() });
+            }
+        }));
+    }
+
+    async open(review: DiffReview, title: string): Promise<void> {
+        this.reviews.set(review.id, review);
+
+        await vscode.commands.executeCommand(
+            "vscode.diff",
+            review.leftUri,
+            review.rightUri,
+            title,
+            { preview: false, preserveFocus: true }
+        );
+
+        this.updateContext();
+    }
+
+    async close(id: string): Promise<void> {
+        const review = this.reviews.get(id);
+        if (!review) {
+            return;
+        }
+
+        // 先移除，避免 onDidChangeTabs 把主动关闭当成拒绝
+        this.reviews.delete(id);
+        this.edited.delete(id);
+
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff
+                && tab.input.modified.toString() === review.rightUri.toString());
+
+        try {
+            await vscode.window.tabGroups.close(tabs, true);
+        } catch (error) {
+            this.logService.warn(`[ClaudeDiffReviewService] 关闭 Diff 标签页失败: ${error}`);
+        }
+
+        this.updateContext();
+    }
+
+    async resolve(accepted: boolean, uri?: vscode.Uri): Promise<boolean> {
+        const review = uri ? this.findByUri(uri) : this.findByTab(vscode.window.tabGroups.activeTabGroup.activeTab);
+        if (!review) {
+            return false;
+        }
+
+        let content: string | undefined;
+        if (accepted) {
+            const document = vscode.workspace.textDocuments
+                .find(doc => doc.uri.toString() === review.rightUri.toString());
+            if (document?.isDirty) {
+                await document.save();
+            }
+            if (this.edited.has(review.id)) {
+                content = document?.getText();
+            }
+        }
+
+        this.resolveEmitter.fire({ id: review.id, accepted, content });
+        return true;
+    }
+
+    private findByUri(uri: vscode.Uri): DiffReview | undefined {
+        const key = uri.toString();
+        for (const review of this.reviews.values()) {
+            if (review.rightUri.toString() === key || review.leftUri.toString() === key) {
+                return review;
+            }
+        }
+        return undefined;
+    }
+
+    private findByTab(tab: vscode.Tab | undefined): DiffReview | undefined {
+        if (!(tab?.input instanceof vscode.TabInputTextDiff)) {
+            return undefined;
+        }
+        return this.findByUri(tab.input.modified);
+    }
+
+    private updateContext(): void {
+        const active = !!this.findByTab(vscode.window.tabGroups.activeTabGroup.activeTab);
+        void vscode.commands.executeCommand('setContext', CONTEXT_KEY, active);
+    }
+}
@@ -0,0 +1,126 @@
+/**
+ * ClaudeExportService - 会话导出
+ *
+ * 职责：
+ * 1. 选择要导出的会话（未指定时弹出会话列表）
+ * 2. 选择导出格式（Markdown / HTML / JSON）和内容选项（思考过程、工具结果）
+ * 3. 通过 ClaudeSessionService.getSession 读取会话并写入用户选择的文件
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ * - IClaudeSessionService: 会话历史
+ * - IWorkspaceService: 工作区（确定会话所在项目和默认保存位置）
+ * - IDialogService: 选择列表和保存对话框
+ * - IFileSystemService: 写入文件
+ * - INotificationService: 导出完成提示
+ */
+
+import * as vscode from 'vscode';
+import { createDecorator } from '../../di/instantiation';
+import { ILogService } from '../logService';
+import { IWorkspaceService } from '../workspaceService';
+import { IDialogService } from '../dialogService';
+import { IFileSystemService } from '../fileSystemService';
+import { INotificationService } from '../notificationService';
+import { IClaudeSessionService } from './ClaudeSessionService';
+import { EXPORT_EXTENSIONS, normalizeConversation, renderConversation } from './sessionExport';
+import type { ExportFormat, ExportOptions } from '../../shared/messages';
+
+export const IClaudeExportService = createDecorator<IClaudeExportService>('claudeExportService');
+
+const FORMAT_CHOICES: Record<string, ExportFormat> = {
+    "Markdown": "markdown",
+    "HTML": "html",
+    "JSON": "json"
+};
+
+const OPTION_CHOICES: Record<string, ExportOptions> = {
+    "Include thinking and tool results": { includeThinking: true, includeToolResults: true },
+    "Exclude thinking": { includeThinking: false, includeToolResults: true },
+    "Exclude tool results": { includeThinking: true, includeToolResults: false },
+    "Conversation and tool calls only": { includeThinking: false, includeToolResults: false }
+};
+
+/**
+ * 会话导出服务接口
+ */
+export interface IClaudeExportService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 交互式导出会话
+     *
+     * @param sessionId 为空时让用户从会话列表中选择
+     * @param leafUuid 导出指定分支，默认最新分支
+     * @param cwd 会话所在的工作目录，默认为第一个工作区文件夹
+     * @returns 写入的文件路径，用户取消时为 undefined
+     */
+    exportSession(sessionId?: string, leafUuid?: string, cwd?: string): Promise<string | undefined>;
+}
+
+/**
+ * 会话导出服务实现
+ */
+export class ClaudeExportService implements IClaudeExportService {
+    readonly _serviceBrand: undefined;
+
+    constructor(
+        @ILogService private readonly logService: ILogService,
+        @IClaudeSessionService private readonly sessionService: IClaudeSessionService,
+        @IWorkspaceService private readonly workspaceService: IWorkspaceService,
+        @IDialogService private readonly dialogService: IDialogService,
+        @IFileSystemService private readonly fileSystemService: IFileSystemService,
+        @INotificationService private readonly notificationService: INotificationService
+    ) {}
+
+    async exportSession(sessionId?: string, leafUuid?: string, sessionCwd?: string): Promise<string | undefined> {
+        const workspaceUri = this.workspaceService.getDefaultWorkspaceFolder()?.uri;
+        const cwd = sessionCwd || workspaceUri?.fsPath || process.cwd();
+
+        const sessions = await this.sessionService.listSessions(cwd);
+        if (!sessionId) {
+            const labels = sessions.map(session => `${session.summary} (${session.id.slice(0, 8)})`);
+            const picked = await this.dialogService.showQuickPick(labels, { placeHolder: "Select a conversation to export" });
+            if (!picked) {
+                return undefined;
+            }
+            sessionId = sessions[labels.indexOf(picked)].id;
+        }
+
+        const formatLabel = await this.dialogService.showQuickPick(Object.keys(FORMAT_CHOICES), { placeHolder: "Export format" });
+        if (!formatLabel) {
+            return undefined;
+        }
+        const optionLabel = await this.dialogService.showQuickPick(Object.keys(OPTION_CHOICES), { placeHolder: "Content to include" });
+        if (!optionLabel) {
+            return undefined;
+        }
+        const format = FORMAT_CHOICES[formatLabel];
+        const options = OPTION_CHOICES[optionLabel];
+
+        const title = sessions.find(session => session.id === sessionId)?.summary || "Claude conversation";
+        const fileName = `claude-${sessionId.slice(0, 8)}.${EXPORT_EXTENSIONS[format]}`;
+        const target = await this.dialogService.showSaveDialog({
+            defaultUri: workspaceUri ? vscode.Uri.joinPath(workspaceUri, fileName) : vscode.Uri.file(fileName),
+            filters: { [formatLabel]: [EXPORT_EXTENSIONS[format]] }
+        });
+        if (!target) {
+            return undefined;
+        }
+
+        const messages = await this.sessionService.getSession(sessionId, cwd, leafUuid);
+        const conversation = normalizeConversation(sessionId, title, messages, options);
+        const content = renderConversation(conversation, format);
+        await this.fileSystemService.writeFile(target, new TextEncoder().encode(content));
+
+        this.logService.info(`[ClaudeExportService] 已导出会话 ${sessionId} (${format}): ${target.fsPath}`);
+
+        void this.notificationService.showInformation(`Conversation exported to ${target.fsPath}`, "Open").then(choice => {
+            if (choice === "Open") {
+                void vscode.commands.executeCommand("vscode.open", target);
+            }
+        });
+
+        return target.fsPath;
+    }
+}
@@ -0,0 +1,510 @@
+/**
+ * ClaudeMcpService - MCP 服务器配置管理
+ *
+ * 职责：
+ * 1. 读写三个作用域的 MCP 服务器配置（user / project / local）
+ * 2. 维护禁用列表（projects[cwd].disabledMcpServers，与 CLI 的 /mcp 保持一致）
+ * 3. 直接连接 MCP 服务器，获取工具列表、连接错误和 stderr
+ *
+ * 配置位置（与 Claude Code CLI 保持一致）：
+ * - user:    ~/.claude.json → mcpServers
+ * - local:   ~/.claude.json → projects[cwd].mcpServers
+ * - project: <cwd>/.mcp.json → mcpServers
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { createDecorator } from '../../di/instantiation';
+import { ILogService } from '../logService';
+import type { McpServerStatus } from '@anthropic-ai/claude-agent-sdk';
+import type {
+    McpServerConfig,
+    McpServerEntry,
+    McpServerInspection,
+    McpServerScope,
+} from '../../shared/messages';
+
+export const IClaudeMcpService = createDecorator<IClaudeMcpService>('claudeMcpService');
+
+/**
+ * MCP 服务接口
+ */
+export interface IClaudeMcpService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 列出所有作用域中的 MCP 服务器
+     */
+    listServers(cwd: string): Promise<McpServerEntry[]>;
+
+    /**
+     * 新增或更新 MCP 服务器
+     *
+     * @param previous 编辑前的位置，改名或更换作用域时会先删除旧条目
+     */
+    saveServer(
+        cwd: string,
+        scope: McpServerScope,
+        name: string,
+        config: McpServerConfig,
+        previous?: { scope: McpServerScope; name: string }
+    ): Promise<void>;
+
+    /**
+     * 删除 MCP 服务器
+     */
+    removeServer(cwd: string, scope: McpServerScope, name: string): Promise<void>;
+
+    /**
+     * 启用 / 禁用 MCP 服务器（作用于当前项目）
+     */
+    setServerEnabled(cwd: string, name: string, enabled: boolean): Promise<void>;
+
+    /**
+     * 连接 MCP 服务器并列出工具，同时收集错误信息和 stderr
+     */
+    inspectServer(cwd: string, scope: McpServerScope, name: string, signal?: AbortSignal): Promise<McpServerInspection>;
+}
+
+// ============================================================================
+// 常量与路径
+// ============================================================================
+
+/**
+ * 服务器名称规则（与 CLI `claude mcp add` 一致）
+ */
+const SERVER_NAME_REGEX = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * 探测连接超时
+ */
+const INSPECT_TIMEOUT_MS = 30000;
+
+/**
+ * stderr 最多保留的字符数
+ */
+const MAX_STDERR_LENGTH = 16000;
+
+/**
+ * 获取全局配置文件路径（~/.claude.json）
+ */
+function getGlobalConfigPath(): string {
+    const configDir = process.env.CLAUDE_CONFIG_DIR;
+    return configDir
+        ? path.join(configDir, ".claude.json")
+        : path.join(os.homedir(), ".claude.json");
+}
+
+/**
+ * 获取项目级配置文件路径（<cwd>/.mcp.json）
+ */
+function getProjectConfigPath(cwd: string): string {
+    return path.join(cwd, ".mcp.json");
+}
+
+// ============================================================================
+// 辅助函数
+// ============================================================================
+
+/**
+ * 读取 JSON 文件，不存在时返回空对象
+ */
+async function readJsonFile(filePath: string): Promise<Record<string, unknown>> {
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+            return {};
+        }
+        throw error;
+    }
+
+    if (!content.trim()) {
+        return {};
+    }
+
+    return readObject(JSON.parse(content));
+}
+
+/**
+ * 写入 JSON 文件（保持 2 空格缩进，与 CLI 一致）
+ */
+async function writeJsonFile(filePath: string, data: Record<string, unknown>): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2) + "\n", "utf8");
+}
+
+/**
+ * 校验服务器名称和配置
+ */
+export function validateMcpServer(name: string, config: McpServerConfig): void {
+    if (!name || !SERVER_NAME_REGEX.test(name)) {
+        throw new Error(`Invalid server name "${name}": only letters, numbers, "-" and "_" are allowed`);
+    }
+
+    if (!config || typeof config !== "object") {
+        throw new Error("Invalid server config");
+    }
+
+    if (config.type === "sse" || config.type === "http") {
+        try {
+            new URL(config.url);
+        } catch {
+            throw new Error(`Invalid URL for server "${name}": ${config.url}`);
+        }
+        return;
+    }
+
+    if (config.type !== undefined && config.type !== "stdio") {
+        throw new Error(`Unsupported server type: ${(config as { type: string }).type}`);
+    }
+
+    if (!config.command || !config.command.trim()) {
+        throw new Error(`Command is required for stdio server "${name}"`);
+    }
+}
+
+/**
+ * 合并会话中的连接状态
+ *
+ * 同名服务器按 local → project → user 的优先级只有一个生效（listServers 按此顺序返回），
+ * mcpServerStatus() 只返回名称，因此状态只属于生效的那个条目
+ */
+export function mergeMcpServerStatus(servers: McpServerEntry[], statuses: McpServerStatus[]): McpServerEntry[] {
+    const effective = new Map<string, McpServerScope>();
+    for (const server of servers) {
+        if (!effective.has(server.name)) {
+            effective.set(server.name, server.scope);
+        }
+    }
+
+    const statusByName = new Map(statuses.map(status => [status.name, status]));
+    return servers.map(server => {
+        const status = effective.get(server.name) === server.scope ? statusByName.get(server.name) : undefined;
+        return { ...server, status: status?.status, serverInfo: status?.serverInfo };
+    });
+}
+
+/**
+ * 展开配置中的环境变量（支持 ${VAR} 与 ${VAR:-default}，与 .mcp.json 语义一致）
+ */
+export function expandEnvVars(value: string, env: NodeJS.ProcessEnv = process.env): string {
+    return value.replace(/\$\{([^}:]+)(?::-([^}]*))?\}/g, (match, name: string, fallback?: string) => {
+        const resolved = env[name];
+        if (resolved !== undefined) {
+            return resolved;
+        }
+        return fallback !== undefined ? fallback : match;
+    });
+}
+
+function expandRecord(record: Record<string, string> | undefined): Record<string, string> | undefined {
+    if (!record) {
+        return undefined;
+    }
+    return Object.fromEntries(
+        Object.entries(record).map(([key, value]) => [key, expandEnvVars(String(value))])
+    );
+}
+
+/**
+ * 规范化配置中的 mcpServers 对象
+ */
+function readServers(source: unknown): Record<string, McpServerConfig> {
+    return readObject(source) as Record<string, McpServerConfig>;
+}
+
+/**
+ * 取出 JSON 对象（不是对象时返回空对象）
+ */
+function readObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * 取出子对象，不存在（或不是对象）时创建并写回父对象
+ */
+function ensureObject(parent: Record<string, unknown>, key: string): Record<string, unknown> {
+    const value = parent[key];
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+        return value as Record<string, unknown>;
+    }
+    const created: Record<string, unknown> = {};
+    parent[key] = created;
+    return created;
+}
+
+/**
+ * 项目配置中的禁用列表
+ */
+function readDisabledServers(projectEntry: Record<string, unknown>): Set<string> {
+    const names = projectEntry.disabledMcpServers;
+    return new Set(Array.isArray(names) ? names.filter((name): name is string => typeof name === "string") : []);
+}
+
+// ============================================================================
+// ClaudeMcpService 实现
+// ============================================================================
+
+/**
+ * Claude MCP 服务实现
+ */
+export class ClaudeMcpService implements IClaudeMcpService {
+    readonly _serviceBrand: undefined;
+
+    constructor(
+        @ILogService private readonly logService: ILogService
+    ) {
+        this.logService.info('[ClaudeMcpService] 已初始化');
+    }
+
+    /**
+     * 列出所有作用域中的 MCP 服务器
+     */
+    async listServers(cwd: string): Promise<McpServerEntry[]> {
+        const globalConfig = await readJsonFile(getGlobalConfigPath());
+        const projectConfig = await this.readProjectConfig(cwd);
+        const projectEntry = readObject(readObject(globalConfig.projects)[cwd]);
+        const disabled = readDisabledServers(projectEntry);
+
+        const scopes: Array<[McpServerScope, Record<string, McpServerConfig>]> = [
+            ["local", readServers(projectEntry.mcpServers)],
+            ["project", readServers(projectConfig.mcpServers)],
+            ["user", readServers(globalConfig.mcpServers)],
+        ];
+
+        const entries: McpServerEntry[] = [];
+        for (const [scope, servers] of scopes) {
+            for (const [name, config] of Object.entries(servers)) {
+                entries.push({
+                    name,
+                    scope,
+                    config,
+                    enabled: !disabled.has(name)
+                });
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * 新增或更新 MCP 服务器
+     */
+    async saveServer(
+        cwd: string,
+        scope: McpServerScope,
+        name: string,
+        config: McpServerConfig,
+        previous?: { scope: McpServerScope; name: string }
+    ): Promise<void> {
+        validateMcpServer(name, config);
+
+        const isRename = previous && (previous.scope !== scope || previous.name !== name);
+        if (isRename || !previous) {
+            const existing = await this.listServers(cwd);
+            if (existing.some(entry => entry.scope === scope && entry.name === name)) {
+                throw new Error(`MCP server "${name}" already exists in ${scope} scope`);
+            }
+        }
+
+        if (isRename) {
+            await this.removeServer(cwd, previous.scope, previous.name);
+        }
+
+        await this.updateServers(cwd, scope, servers => {
+            servers[name] = config;
+        });
+
+        this.logService.info(`[ClaudeMcpService] 已保存 MCP 服务器: ${name} (${scope})`);
+    }
+
+    /**
+     * 删除 MCP 服务器
+     */
+    async removeServer(cwd: string, scope: McpServerScope, name: string): Promise<void> {
+        let found = false;
+        await this.updateServers(cwd, scope, servers => {
+            found = name in servers;
+            delete servers[name];
+        });
+
+        if (!found) {
+            throw new Error(`MCP server "${name}" not found in ${scope} scope`);
+        }
+
+        this.logService.info(`[ClaudeMcpService] 已删除 MCP 服务器: ${name} (${scope})`);
+    }
+
+    /**
+     * 启用 / 禁用 MCP 服务器
+     */
+    async setServerEnabled(cwd: string, name: string, enabled: boolean): Promise<void> {
+        const configPath = getGlobalConfigPath();
+        const globalConfig = await readJsonFile(configPath);
+        const projectEntry = ensureObject(ensureObject(globalConfig, "projects"), cwd);
+
+        const disabled = readDisabledServers(projectEntry);
+        if (enabled) {
+            disabled.delete(name);
+        } else {
+            disabled.add(name);
+        }
+        projectEntry.disabledMcpServers = [...disabled];
+
+        await writeJsonFile(configPath, globalConfig);
+        this.logService.info(`[ClaudeMcpService] ${enabled ? '启用' : '禁用'} MCP 服务器: ${name}`);
+    }
+
+    /**
+     * 连接 MCP 服务器并列出工具
+     */
+    async inspectServer(
+        cwd: string,
+        scope: McpServerScope,
+        name: string,
+        signal?: AbortSignal
+    ): Promise<McpServerInspection> {
+        const entry = (await this.listServers(cwd)).find(item => item.scope === scope && item.name === name);
+        if (!entry) {
+            throw new Error(`MCP server "${name}" not found in ${scope} scope`);
+        }
+
+        let stderr = "";
+        const appendStderr = (chunk: Buffer | string) => {
+            stderr = (stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+        };
+
+        const client = new Client({ name: "claudix", version: "1.0.0" });
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const onAbort = () => {
+            void client.close();
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        try {
+            const transport = this.createTransport(entry.config, cwd, appendStderr);
+            const timeout = new Promise<never>((_, reject) => {
+                timer = setTimeout(
+                    () => reject(new Error(`Connection timed out after ${INSPECT_TIMEOUT_MS / 1000}s`)),
+                    INSPECT_TIMEOUT_MS
+                );
+            });
+
+            await Promise.race([client.connect(transport), timeout]);
+            const { tools } = await Promise.race([client.listTools(), timeout]);
+
+            return {
+                name,
+                status: "connected",
+                serverInfo: client.getServerVersion(),
+                tools: tools.map(tool => ({ name: tool.name, description: tool.description })),
+                stderr
+            };
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            this.logService.warn(`[ClaudeMcpService] 连接 MCP 服务器失败: ${name} - ${errorMsg}`);
+            return {
+                name,
+                status: "failed",
+                tools: [],
+                error: errorMsg,
+                stderr
+            };
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            signal?.removeEventListener("abort", onAbort);
+            await client.close().catch(() => undefined);
+        }
+    }
+
+    // ========================================================================
+    // 私有方法
+    // ========================================================================
+
+    /**
+     * 读取项目 .mcp.json（格式错误时抛出，避免覆盖用户文件）
+     */
+    private async readProjectConfig(cwd: string): Promise<Record<string, unknown>> {
+        try {
+            return await readJsonFile(getProjectConfigPath(cwd));
+        } catch (error) {
+            this.logService.error(`[ClaudeMcpService] 读取 .mcp.json 失败:`, error);
+            throw new Error(`Failed to read ${getProjectConfigPath(cwd)}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 修改指定作用域的 mcpServers 并写回文件
+     */
+    private async updateServers(
+        cwd: string,
+        scope: McpServerScope,
+        mutate: (servers: Record<string, McpServerConfig>) => void
+    ): Promise<void> {
+        if (scope === "project") {
+            const configPath = getProjectConfigPath(cwd);
+            const projectConfig = await this.readProjectConfig(cwd);
+            const servers = readServers(projectConfig.mcpServers);
+            mutate(servers);
+            projectConfig.mcpServers = servers;
+            await writeJsonFile(configPath, projectConfig);
+            return;
+        }
+
+        const configPath = getGlobalConfigPath();
+        const globalConfig = await readJsonFile(configPath);
+
+        if (scope === "user") {
+            const servers = readServers(globalConfig.mcpServers);
+            mutate(servers);
+            globalConfig.mcpServers = servers;
+        } else {
+            const projectEntry = ensureObject(ensureObject(globalConfig, "projects"), cwd);
+            const servers = readServers(projectEntry.mcpServers);
+            mutate(servers);
+            projectEntry.mcpServers = servers;
+        }
+
+        await writeJsonFile(configPath, globalConfig);
+    }
+
+    /**
+     * 根据配置创建 MCP 客户端 Transport
+     */
+    private createTransport(
+        config: McpServerConfig,
+        cwd: string,
+        onStderr: (chunk: Buffer | string) => void
+    ): Transport {
+        if (config.type === "sse" || config.type === "http") {
+            const url = new URL(expandEnvVars(config.url));
+            const requestInit = { headers: expandRecord(config.headers) };
+            return config.type === "sse"
+                ? new SSEClientTransport(url, { requestInit })
+                : new StreamableHTTPClientTransport(url, { requestInit });
+        }
+
+        const transport = new StdioClientTransport({
+            command: expandEnvVars(config.command),
+            args: (config.args ?? []).map(arg => expandEnvVars(arg)),
+            env: { ...getDefaultEnvironment(), ...expandRecord(config.env) },
+            cwd,
+            stderr: "pipe"
+        });
+        transport.stderr?.on("data", onStderr);
+        return transport;
+    }
+}
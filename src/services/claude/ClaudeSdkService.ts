@@ -6,18 +6,25 @@
  * 2. 构建 SDK Options 对象
  * 3. 处理参数转换和环境配置
  * 4. 提供 interrupt() 方法中断查询
+ * 5. 在 PreToolUse Hook 中为即将修改的文件保存检查点快照
  *
  * 依赖：
  * - ILogService: 日志服务
  * - IConfigurationService: 配置服务
+ * - IClaudeCheckpointService: 文件检查点服务
+ * - IClaudeAuthService: 注入保存的凭证
  */
 
 import * as vscode from 'vscode';
 import * as fs from 'fs';
+import * as path from 'path';
 import { createDecorator } from '../../di/instantiation';
 import { ILogService } from '../logService';
 import { IConfigurationService } from '../configurationService';
 import { AsyncStream } from './transport';
+import { IClaudeCheckpointService } from './ClaudeCheckpointService';
+import { IClaudeAuthService } from './ClaudeAuthService';
+import { getCustomEnvironmentVariables } from './environmentVariables';
 
 // SDK 类型导入
 import type {
@@ -27,6 +34,7 @@ import type {
     PermissionMode,
     SDKUserMessage,
     HookCallbackMatcher,
+    PreToolUseHookInput,
 } from '@anthropic-ai/claude-agent-sdk';
 
 export const IClaudeSdkService = createDecorator<IClaudeSdkService>('claudeSdkService');
@@ -37,6 +45,8 @@ export const IClaudeSdkService = createDecorator<IClaudeSdkService>('claudeSdkSe
 export interface SdkQueryParams {
     inputStream: AsyncStream<SDKUserMessage>;
     resume: string | null;
+    resumeSessionAt?: string;  // 恢复到指定消息（之后的消息被丢弃）
+    forkSession?: boolean;     // 恢复时创建新会话
     canUseTool: CanUseTool;
     model: string | null;  // ← 接受 null，内部转换
     cwd: string;
@@ -59,6 +69,16 @@ export interface IClaudeSdkService {
      * 中断正在进行的查询
      */
     interrupt(query: Query): Promise<void>;
+
+    /**
+     * 在终端中运行 CLI 的命令（与 SDK 使用同一个可执行文件，cli.js 通过 node 运行）
+     */
+    getCliCommand(args: string[]): { executable: string; args: string[] };
+
+    /**
+     * 在终端中运行 CLI 时使用的环境变量（claudix.environmentVariables 和保存的凭证，null 表示移除）
+     */
+    getTerminalEnvironment(): Promise<Record<string, string | null>>;
 }
 
 const VS_CODE_APPEND_PROMPT = `
@@ -87,7 +107,9 @@ export class ClaudeSdkService implements IClaudeSdkService {
     constructor(
         private readonly context: vscode.ExtensionContext,
         @ILogService private readonly logService: ILogService,
-        @IConfigurationService private readonly configService: IConfigurationService
+        @IConfigurationService private readonly configService: IConfigurationService,
+        @IClaudeCheckpointService private readonly checkpointService: IClaudeCheckpointService,
+        @IClaudeAuthService private readonly authService: IClaudeAuthService
     ) {
         this.logService.info('[ClaudeSdkService] 已初始化');
     }
@@ -96,7 +118,7 @@ export class ClaudeSdkService implements IClaudeSdkService {
      * 调用 Claude SDK 进行查询
      */
     async query(params: SdkQueryParams): Promise<Query> {
-        const { inputStream, resume, canUseTool, model, cwd, permissionMode, maxThinkingTokens } = params;
+        const { inputStream, resume, resumeSessionAt, forkSession, canUseTool, model, cwd, permissionMode, maxThinkingTokens } = params;
 
         this.logService.info('========================================');
         this.logService.info('ClaudeSdkService.query() 开始调用');
@@ -106,6 +128,8 @@ export class ClaudeSdkService implements IClaudeSdkService {
         this.logService.info(`  - cwd: ${cwd}`);
         this.logService.info(`  - permissionMode: ${permissionMode}`);
         this.logService.info(`  - resume: ${resume}`);
+        this.logService.info(`  - resumeSessionAt: ${resumeSessionAt ?? 'undefined'}`);
+        this.logService.info(`  - forkSession: ${forkSession ?? false}`);
         this.logService.info(`  - maxThinkingTokens: ${maxThinkingTokens ?? 'undefined'}`);
 
         // 参数转换
@@ -123,6 +147,8 @@ export class ClaudeSdkService implements IClaudeSdkService {
             // 基本参数
             cwd: cwdParam,
             resume: resume || undefined,
+            resumeSessionAt: resume ? resumeSessionAt : undefined,
+            forkSession: resume ? forkSession : undefined,
             model: modelParam,
             permissionMode: permissionModeParam,
             maxThinkingTokens: maxThinkingTokens,
@@ -155,7 +181,7 @@ export class ClaudeSdkService implements IClaudeSdkService {
             },
 
             // 环境变量
-            env: this.getEnvironmentVariables(),
+            env: await this.getEnvironmentVariables(),
 
             // 系统提示追加
             systemPrompt: {
@@ -170,8 +196,9 @@ export class ClaudeSdkService implements IClaudeSdkService {
                 PreToolUse: [{
                     matcher: "Edit|Write|MultiEdit",
                     hooks: [async (input, toolUseID, options) => {
-                        if ('tool_name' in input) {
+                        if (input.hook_event_name === 'PreToolUse') {
                             this.logService.info(`[Hook] PreToolUse: ${input.tool_name}`);
+                            await this.snapshotBeforeEdit(input);
                         }
                         return { continue: true };
                     }]
@@ -274,17 +301,72 @@ export class ClaudeSdkService implements IClaudeSdkService {
         }
     }
 
+    /**
+     * 在文件被修改前保存检查点快照（失败只记录日志，不阻塞工具执行）
+     */
+    private async snapshotBeforeEdit(input: PreToolUseHookInput): Promise<void> {
+        const filePath = (input.tool_input as { file_path?: unknown } | undefined)?.file_path;
+        if (typeof filePath !== 'string' || !filePath) {
+            return;
+        }
+
+        try {
+            await this.checkpointService.snapshot(
+                input.session_id,
+                input.transcript_path,
+                path.resolve(input.cwd, filePath)
+            );
+        } catch (error) {
+            this.logService.warn(`[Hook] 保存检查点失败: ${error}`);
+        }
+    }
+
+    /**
+     * 在终端中运行 CLI 的命令
+     */
+    getCliCommand(args: string[]): { executable: string; args: string[] } {
+        const cliPath = this.getClaudeExecutablePath();
+        if (!fs.existsSync(cliPath)) {
+            throw new Error(`Claude CLI not found at: ${cliPath}`);
+        }
+
+        // 与 SDK 一致：打包的 cli.js 由 node 运行
+        return cliPath.endsWith(".js")
+            ? { executable: "node", args: [cliPath, ...args] }
+            : { executable: cliPath, args };
+    }
+
+    /**
+     * 在终端中运行 CLI 时使用的环境变量（终端会合并到自身的环境之上）
+     */
+    async getTerminalEnvironment(): Promise<Record<string, string | null>> {
+        return { ...getCustomEnvironmentVariables(this.configService), ...await this.getCredentialEnvironment() };
+    }
+
+    /**
+     * 保存的凭证（使用订阅登录时移除环境中的 API 密钥，避免 CLI 优先使用它）
+     */
+    private async getCredentialEnvironment(): Promise<Record<string, string | null>> {
+        const credentials: Record<string, string | null> = await this.authService.getCredentialEnvironment();
+        if (credentials.CLAUDE_CODE_OAUTH_TOKEN) {
+            credentials.ANTHROPIC_API_KEY = null;
+        }
+        return credentials;
+    }
+
     /**
      * 获取环境变量
      */
-    private getEnvironmentVariables(): Record<string, string> {
-        const config = vscode.workspace.getConfiguration("claudix");
-        const customVars = config.get<Array<{ name: string; value: string }>>("environmentVariables", []);
-
-        const env = { ...process.env };
-        for (const item of customVars) {
-            if (item.name) {
-                env[item.name] = item.value || "";
+    private async getEnvironmentVariables(): Promise<Record<string, string>> {
+        const env: Record<string, string | null | undefined> = {
+            ...process.env,
+            ...getCustomEnvironmentVariables(this.configService),
+            ...await this.getCredentialEnvironment()
+        };
+
+        for (const [name, value] of Object.entries(env)) {
+            if (value === null || value === undefined) {
+                delete env[name];
             }
         }
 
@@ -0,0 +1,276 @@
+/**
+ * ClaudeSearchService - 会话全文搜索
+ *
+ * 职责：
+ * 1. 为项目历史目录中的每个 .jsonl 对话记录建立内存索引
+ *    （用户输入、助手回复、工具输入及其中的文件路径）
+ * 2. 增量更新：按文件大小和修改时间判断变化，追加写入的文件只读取新增部分
+ * 3. 按关键词搜索并生成带高亮位置的片段，片段指向可在聊天页中定位的消息 uuid
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createDecorator } from '../../di/instantiation';
+import { ILogService } from '../logService';
+import { getProjectHistoryDir, isUserPrompt, validateSessionId } from './ClaudeSessionService';
+import { TranscriptCursor, isTranscriptChanged, readAppendedEntries } from './transcriptReader';
+import type { SessionSearchMatch, SessionSearchMatchKind, SessionSearchResult } from '../../shared/messages';
+
+export const IClaudeSearchService = createDecorator<IClaudeSearchService>('claudeSearchService');
+
+/**
+ * 每条索引文本的最大长度（避免 Write 等工具输入中的整文件内容占用过多内存）
+ */
+const MAX_ENTRY_LENGTH = 20_000;
+
+/**
+ * 每个会话返回的片段数量
+ */
+const MAX_MATCHES_PER_SESSION = 3;
+
+/**
+ * 片段中命中位置前后保留的字符数
+ */
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 80;
+
+/**
+ * 索引条目
+ */
+interface IndexedEntry {
+    uuid: string;
+    kind: SessionSearchMatchKind;
+    text: string;
+    lower: string;
+}
+
+/**
+ * 单个对话记录文件的索引
+ */
+interface FileIndex extends TranscriptCursor {
+    sessionId: string;
+    entries: IndexedEntry[];
+}
+
+/**
+ * 会话搜索服务接口
+ */
+export interface IClaudeSearchService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 搜索指定工作目录的所有会话记录
+     *
+     * 按空白分词，所有词都出现在同一条消息中才算命中（不区分大小写）；
+     * 结果按会话最后修改时间倒序
+     */
+    search(query: string, cwd: string, limit?: number): Promise<SessionSearchResult[]>;
+}
+
+/**
+ * 从对话记录条目中提取可搜索文本
+ */
+export function extractSearchEntries(entry: any): IndexedEntry[] {
+    if (typeof entry?.uuid !== "string" || entry.isMeta || entry.isSidechain || entry.isCompactSummary) {
+        return [];
+    }
+
+    const content = entry.message?.content;
+    const blocks: any[] = typeof content === "string" ? [{ type: "text", text: content }] : Array.isArray(content) ? content : [];
+    const result: IndexedEntry[] = [];
+    const push = (kind: SessionSearchMatchKind, text: string) => {
+        const trimmed = text.trim().slice(0, MAX_ENTRY_LENGTH);
+        if (trimmed) {
+            result.push({ uuid: entry.uuid, kind, text: trimmed, lower: trimmed.toLowerCase() });
+        }
+    };
+
+    if (entry.type === "user" && isUserPrompt(entry)) {
+        push("prompt", blocks.filter(block => block?.type === "text").map(block => block.text).join("\n"));
+    } else if (entry.type === "assistant") {
+        for (const block of blocks) {
+            if (block?.type === "text") {
+                push("assistant", block.text ?? "");
+            } else if (block?.type === "tool_use") {
+                push("tool", [block.name, ...collectStrings(block.input)].join(" "));
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * 收集工具输入中的所有字符串值（包含 file_path、command、pattern 等）
+ */
+function collectStrings(value: unknown): string[] {
+    if (typeof value === "string") {
+        return [value];
+    }
+    if (Array.isArray(value)) {
+        return value.flatMap(collectStrings);
+    }
+    if (value && typeof value === "object") {
+        return Object.values(value).flatMap(collectStrings);
+    }
+    return [];
+}
+
+/**
+ * 生成命中片段及高亮位置
+ */
+export function buildSnippet(entry: IndexedEntry, terms: string[]): SessionSearchMatch {
+    const position = entry.lower.indexOf(terms[0]);
+    const start = Math.max(0, position - SNIPPET_BEFORE);
+    const end = Math.min(entry.text.length, position + terms[0].length + SNIPPET_AFTER);
+
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < entry.text.length ? "…" : "";
+    const snippet = prefix + entry.text.slice(start, end).replace(/\s/g, " ") + suffix;
+    const lower = snippet.toLowerCase();
+
+    const ranges: Array<[number, number]> = [];
+    for (const term of terms) {
+        for (let index = lower.indexOf(term); index >= 0; index = lower.indexOf(term, index + term.length)) {
+            ranges.push([index, index + term.length]);
+        }
+    }
+    ranges.sort((a, b) => a[0] - b[0]);
+
+    // 合并重叠的高亮
+    const highlights: Array<[number, number]> = [];
+    for (const range of ranges) {
+        const last = highlights[highlights.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            highlights.push([range[0], range[1]]);
+        }
+    }
+
+    return { uuid: entry.uuid, kind: entry.kind, snippet, highlights };
+}
+
+/**
+ * 会话搜索服务实现
+ */
+export class ClaudeSearchService implements IClaudeSearchService {
+    readonly _serviceBrand: undefined;
+
+    // 文件路径 → 索引
+    private readonly files = new Map<string, FileIndex>();
+
+    // 同一目录的刷新串行执行，避免连续按键时重复读取
+    private readonly refreshing = new Map<string, Promise<FileIndex[]>>();
+
+    constructor(
+        @ILogService private readonly logService: ILogService
+    ) {}
+
+    async search(query: string, cwd: string, limit = 50): Promise<SessionSearchResult[]> {
+        const terms = [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+        if (terms.length === 0) {
+            return [];
+        }
+
+        const indexes = await this.refresh(getProjectHistoryDir(cwd));
+        const results: SessionSearchResult[] = [];
+
+        for (const index of indexes) {
+            let totalMatches = 0;
+            const matches: SessionSearchMatch[] = [];
+            for (const entry of index.entries) {
+                if (!terms.every(term => entry.lower.includes(term))) {
+                    continue;
+                }
+                totalMatches++;
+                if (matches.length < MAX_MATCHES_PER_SESSION) {
+                    matches.push(buildSnippet(entry, terms));
+                }
+            }
+
+            if (totalMatches > 0) {
+                results.push({ sessionId: index.sessionId, lastModified: index.mtimeMs, totalMatches, matches });
+                if (results.length >= limit) {
+                    break;
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * 刷新目录中所有对话记录的索引，返回按修改时间倒序的索引列表
+     */
+    private refresh(projectDir: string): Promise<FileIndex[]> {
+        const previous = this.refreshing.get(projectDir) ?? Promise.resolve([]);
+        const next = previous.catch(() => []).then(() => this.doRefresh(projectDir));
+        this.refreshing.set(projectDir, next);
+        return next;
+    }
+
+    private async doRefresh(projectDir: string): Promise<FileIndex[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(projectDir);
+        } catch {
+            return [];
+        }
+
+        const seen = new Set<string>();
+        const indexes: FileIndex[] = [];
+
+        for (const name of names) {
+            const sessionId = validateSessionId(path.basename(name, ".jsonl"));
+            if (!name.endsWith(".jsonl") || !sessionId) {
+                continue;
+            }
+
+            const filePath = path.join(projectDir, name);
+            seen.add(filePath);
+            try {
+                indexes.push(await this.updateFile(filePath, sessionId));
+            } catch (error) {
+                this.logService.warn(`[ClaudeSearchService] 索引失败: ${filePath} ${error}`);
+            }
+        }
+
+        // 移除已删除文件的索引
+        for (const filePath of this.files.keys()) {
+            if (path.dirname(filePath) === projectDir && !seen.has(filePath)) {
+                this.files.delete(filePath);
+            }
+        }
+
+        return indexes.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    }
+
+    private async updateFile(filePath: string, sessionId: string): Promise<FileIndex> {
+        const stat = await fs.stat(filePath);
+        let index = this.files.get(filePath);
+
+        if (index && !isTranscriptChanged(index, stat.size, stat.mtimeMs)) {
+            return index;
+        }
+
+        // 文件变小说明被重写，需要重建索引
+        if (!index || stat.size < index.offset) {
+            index = { sessionId, size: 0, mtimeMs: 0, offset: 0, entries: [] };
+            this.files.set(filePath, index);
+        }
+
+        const { entries, consumed } = await readAppendedEntries(filePath, index.offset, stat.size);
+        for (const entry of entries) {
+            index.entries.push(...extractSearchEntries(entry));
+        }
+
+        index.offset += consumed;
+        index.size = stat.size;
+        index.mtimeMs = stat.mtimeMs;
+        return index;
+    }
+}
@@ -6,16 +6,26 @@
  * 2. 解析 .jsonl 文件（每行一个 JSON 对象）
  * 3. 组织会话消息和生成摘要
  * 4. 支持会话列表查询和消息检索
+ * 5. 列出同一对话树中的分支，定位分叉点
+ * 6. 缓存解析结果：按文件大小和修改时间增量读取新增的行，
+ *    会话列表持久化到 <globalStorage>/session-index/，文件未变化时无需解析
+ * 7. 监听项目历史目录，对话记录变化时发出 onDidChangeSessions
+ * 8. 会话管理：重命名、置顶、标签、归档（元数据保存在对话记录旁的
+ *    <sessionId>.claudix.json）和删除
  *
  * 依赖：
  * - ILogService: 日志服务
  */
 
+import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import { createDecorator } from '../../di/instantiation';
 import { ILogService } from '../logService';
+import { TranscriptCursor, isTranscriptChanged, readAppendedEntries } from './transcriptReader';
+import { getAgentTranscriptPath, getSidechainTranscript, getTaskToolUses } from './subagentTranscripts';
+import type { ForkPosition, SessionBranch, SessionMetadata } from '../../shared/messages';
 
 export const IClaudeSessionService = createDecorator<IClaudeSessionService>('claudeSessionService');
 
@@ -35,6 +45,7 @@ interface SessionMessage {
     message?: any;
     isMeta?: boolean;
     isSidechain?: boolean;
+    isCompactSummary?: boolean;
     leafUuid?: string;
     summary?: string;
     toolUseResult?: any;
@@ -46,7 +57,7 @@ interface SessionMessage {
 /**
  * 会话信息
  */
-export interface SessionInfo {
+export interface SessionInfo extends SessionMetadata {
     id: string;
     lastModified: number;
     messageCount: number;
@@ -54,6 +65,7 @@ export interface SessionInfo {
     isSidechain?: boolean;
     worktree?: string;
     isCurrentWorkspace: boolean;
+    branchCount: number;
 }
 
 /**
@@ -62,6 +74,11 @@ export interface SessionInfo {
 export interface IClaudeSessionService {
     readonly _serviceBrand: undefined;
 
+    /**
+     * 已列出过的工作目录中有对话记录新增、变化或删除（已合并短时间内的连续写入）
+     */
+    readonly onDidChangeSessions: vscode.Event<void>;
+
     /**
      * 列出指定工作目录的所有会话
      */
@@ -70,7 +87,34 @@ export interface IClaudeSessionService {
     /**
      * 获取指定会话的所有消息
      */
-    getSession(sessionIdOrPath: string, cwd: string): Promise<any[]>;
+    getSession(sessionIdOrPath: string, cwd: string, leafUuid?: string): Promise<any[]>;
+
+    /**
+     * 列出与指定会话属于同一对话树的所有分支
+     */
+    listBranches(sessionId: string, cwd: string): Promise<SessionBranch[]>;
+
+    /**
+     * 获取从指定消息分叉时应恢复到的消息 uuid
+     *
+     * @returns 分叉点在对话开头时返回 undefined
+     */
+    getForkPoint(messageUuid: string, position: ForkPosition, cwd: string): Promise<string | undefined>;
+
+    /**
+     * 获取指定会话的对话记录文件路径
+     */
+    getTranscriptPath(sessionId: string, cwd: string): string;
+
+    /**
+     * 更新会话元数据（未传入的字段保持不变；空标题、空标签列表会被清除）
+     */
+    updateMetadata(sessionId: string, patch: SessionMetadata, cwd: string): Promise<SessionMetadata>;
+
+    /**
+     * 删除会话的对话记录及其元数据
+     */
+    deleteSession(sessionId: string, cwd: string): Promise<void>;
 }
 
 // ============================================================================
@@ -87,14 +131,14 @@ function getConfigDir(): string {
 /**
  * 获取项目历史目录
  */
-function getProjectsDir(): string {
+export function getProjectsDir(): string {
     return path.join(getConfigDir(), "projects");
 }
 
 /**
  * 获取特定项目的历史目录
  */
-function getProjectHistoryDir(cwd: string): string {
+export function getProjectHistoryDir(cwd: string): string {
     return path.join(getProjectsDir(), cwd.replace(/[^a-zA-Z0-9]/g, "-"));
 }
 
@@ -106,7 +150,7 @@ const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12
 /**
  * 验证 UUID
  */
-function validateSessionId(id: string): string | null {
+export function validateSessionId(id: string): string | null {
     return typeof id !== "string" ? null : UUID_REGEX.test(id) ? id : null;
 }
 
@@ -138,8 +182,10 @@ async function readJSONL(filePath: string): Promise<SessionMessage[]> {
 
 /**
  * 转换消息格式（用于返回给前端）
+ *
+ * @param parentToolUseId 子代理消息所属 Task 调用的 tool_use id，主对话中的消息为 null
  */
-function convertMessage(msg: SessionMessage): any | undefined {
+function convertMessage(msg: SessionMessage, parentToolUseId: string | null = null): any | undefined {
     if (msg.isMeta) {
         return undefined;
     }
@@ -149,7 +195,8 @@ function convertMessage(msg: SessionMessage): any | undefined {
             type: "user",
             message: msg.message,
             session_id: msg.uuid,
-            parent_tool_use_id: null,
+            parent_tool_use_id: parentToolUseId,
+            uuid: msg.uuid,
             toolUseResult: msg.toolUseResult
         };
     }
@@ -159,8 +206,8 @@ function convertMessage(msg: SessionMessage): any | undefined {
             type: "assistant",
             message: msg.message,
             session_id: msg.uuid,
-            parent_tool_use_id: null,
-            uuid: msg.message?.id
+            parent_tool_use_id: parentToolUseId,
+            uuid: msg.uuid
         };
     }
 
@@ -171,6 +218,17 @@ function convertMessage(msg: SessionMessage): any | undefined {
     return undefined;
 }
 
+/**
+ * 是否为用户输入（排除 tool_result、meta 和压缩摘要）
+ */
+export function isUserPrompt(entry: any): boolean {
+    if (entry?.type !== "user" || entry.isMeta || entry.isSidechain || entry.isCompactSummary) {
+        return false;
+    }
+    const content = entry.message?.content;
+    return !(Array.isArray(content) && content.length > 0 && content.every((block: any) => block?.type === "tool_result"));
+}
+
 /**
  * 生成会话摘要
  */
@@ -185,11 +243,30 @@ function generateSummary(messages: SessionMessage[]): string {
         }
     }
 
-    if (!firstUserMessage || firstUserMessage.type !== "user") {
+    return summarizePrompt(firstUserMessage);
+}
+
+/**
+ * 生成分支摘要（分支上最后一条用户输入）
+ */
+function generateBranchSummary(transcript: SessionMessage[]): string {
+    for (let i = transcript.length - 1; i >= 0; i--) {
+        if (isUserPrompt(transcript[i])) {
+            return summarizePrompt(transcript[i]);
+        }
+    }
+    return "No prompt";
+}
+
+/**
+ * 提取用户消息的文本摘要
+ */
+function summarizePrompt(message: SessionMessage | undefined): string {
+    if (!message || message.type !== "user") {
         return "No prompt";
     }
 
-    const content = firstUserMessage.message?.content;
+    const content = message.message?.content;
     let text = "";
 
     if (typeof content === "string") {
@@ -226,92 +303,84 @@ interface SessionData {
 }
 
 /**
- * 加载项目的会话历史
+ * 单个对话记录文件的解析缓存
  */
-async function loadProjectData(cwd: string): Promise<SessionData> {
-    const projectDir = getProjectHistoryDir(cwd);
-
-    let files: string[];
-    try {
-        files = await fs.readdir(projectDir);
-    } catch {
-        return {
-            sessionMessages: new Map(),
-            messages: new Map(),
-            summaries: new Map()
-        };
-    }
-
-    const fileStats = await Promise.all(
-        files.map(async file => {
-            const filePath = path.join(projectDir, file);
-            const stat = await fs.stat(filePath);
-            return { name: filePath, stat };
-        })
-    );
-
-    const jsonlFiles = fileStats
-        .filter(file => file.stat.isFile() && file.name.endsWith(".jsonl"))
-        .sort((a, b) => a.stat.mtime.getTime() - b.stat.mtime.getTime());
-
-    const loadedData = await Promise.all(
-        jsonlFiles.map(async file => {
-            const sessionId = validateSessionId(path.basename(file.name, ".jsonl"));
-
-            if (!sessionId) {
-                return {
-                    sessionId,
-                    sessionMessages: new Map<string, SessionMessage>(),
-                    summaries: new Map<string, string>()
-                };
-            }
+interface CachedTranscript extends TranscriptCursor {
+    sessionId: string;
+    messages: Map<string, SessionMessage>;
+    summaries: Map<string, string>;
+}
 
-            const messages = new Map<string, SessionMessage>();
-            const summaries = new Map<string, string>();
+/**
+ * 对话记录文件状态
+ */
+interface TranscriptFile {
+    filePath: string;
+    sessionId: string;
+    size: number;
+    mtimeMs: number;
+}
 
-            try {
-                for (const msg of await readJSONL(file.name)) {
-                    if (
-                        msg.type === "user" ||
-                        msg.type === "assistant" ||
-                        msg.type === "attachment" ||
-                        msg.type === "system"
-                    ) {
-                        messages.set(msg.uuid, msg);
-                    } else if (msg.type === "summary" && msg.leafUuid) {
-                        summaries.set(msg.leafUuid, msg.summary!);
-                    }
-                }
-            } catch {
-            }
+/**
+ * 持久化的会话列表（所有文件的大小和修改时间与记录一致时直接使用）
+ */
+interface SessionListIndex {
+    version: number;
+    files: Record<string, [number, number]>;  // 文件名 → [size, mtimeMs]
+    sessions: SessionInfo[];
+}
 
-            return { sessionId, sessionMessages: messages, summaries };
-        })
-    );
+const SESSION_INDEX_VERSION = 1;
 
-    const sessionMessages = new Map<string, Set<string>>();
-    const allMessages = new Map<string, SessionMessage>();
-    const allSummaries = new Map<string, string>();
+/**
+ * 会话元数据文件后缀
+ */
+const METADATA_SUFFIX = ".claudix.json";
 
-    for (const { sessionId, sessionMessages: messages, summaries } of loadedData) {
-        if (!sessionId) continue;
+/**
+ * 合并连续写入的等待时间
+ */
+const CHANGE_DEBOUNCE_MS = 500;
 
-        sessionMessages.set(sessionId, new Set(messages.keys()));
+/**
+ * 列出项目历史目录中的对话记录文件
+ */
+async function statTranscripts(projectDir: string): Promise<TranscriptFile[]> {
+    let names: string[];
+    try {
+        names = await fs.readdir(projectDir);
+    } catch {
+        return [];
+    }
 
-        for (const [uuid, msg] of messages.entries()) {
-            allMessages.set(uuid, msg);
+    const files = await Promise.all(names.map(async name => {
+        const sessionId = validateSessionId(path.basename(name, ".jsonl"));
+        if (!name.endsWith(".jsonl") || !sessionId) {
+            return undefined;
         }
-
-        for (const [uuid, summary] of summaries.entries()) {
-            allSummaries.set(uuid, summary);
+        const filePath = path.join(projectDir, name);
+        try {
+            const stat = await fs.stat(filePath);
+            return stat.isFile() ? { filePath, sessionId, size: stat.size, mtimeMs: stat.mtimeMs } : undefined;
+        } catch {
+            return undefined;
         }
-    }
+    }));
 
-    return {
-        sessionMessages,
-        messages: allMessages,
-        summaries: allSummaries
-    };
+    return files
+        .filter((file): file is TranscriptFile => !!file)
+        .sort((a, b) => a.mtimeMs - b.mtimeMs);
+}
+
+/**
+ * 文件指纹是否与持久化的会话列表一致
+ */
+function isIndexFresh(index: SessionListIndex, files: TranscriptFile[]): boolean {
+    const names = Object.keys(index.files);
+    return names.length === files.length && files.every(file => {
+        const recorded = index.files[path.basename(file.filePath)];
+        return !!recorded && recorded[0] === file.size && recorded[1] === file.mtimeMs;
+    });
 }
 
 /**
@@ -331,6 +400,32 @@ function getTranscripts(data: SessionData): SessionMessage[][] {
         .filter(transcript => transcript.length > 0);
 }
 
+/**
+ * 对话链的根消息 uuid（用于把分支归到同一棵对话树）
+ */
+function getRootUuid(transcript: SessionMessage[]): string {
+    return transcript[0].uuid;
+}
+
+/**
+ * 获取会话中最新的消息
+ */
+function getLatestMessage(sessionId: string, data: SessionData): SessionMessage | undefined {
+    const messageUuids = data.sessionMessages.get(sessionId);
+    if (!messageUuids) {
+        return undefined;
+    }
+
+    let latest: SessionMessage | undefined;
+    for (const uuid of messageUuids) {
+        const msg = data.messages.get(uuid);
+        if (msg && (!latest || new Date(msg.timestamp).getTime() > new Date(latest.timestamp).getTime())) {
+            latest = msg;
+        }
+    }
+    return latest;
+}
+
 /**
  * 重建完整的对话链
  */
@@ -357,9 +452,29 @@ function getTranscript(message: SessionMessage, data: SessionData): SessionMessa
 export class ClaudeSessionService implements IClaudeSessionService {
     readonly _serviceBrand: undefined;
 
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeSessions = this.changeEmitter.event;
+
+    private readonly indexDir: string;
+
+    // 文件路径 → 解析缓存
+    private readonly transcripts = new Map<string, CachedTranscript>();
+
+    // 项目历史目录 → 会话列表
+    private readonly listIndexes = new Map<string, SessionListIndex>();
+
+    // 元数据文件路径 → 元数据
+    private readonly metadata = new Map<string, SessionMetadata>();
+
+    // 已建立监听的项目历史目录
+    private readonly watchers = new Map<string, vscode.FileSystemWatcher>();
+    private changeTimer?: ReturnType<typeof setTimeout>;
+
     constructor(
+        context: Pick<vscode.ExtensionContext, "globalStorageUri">,
         @ILogService private readonly logService: ILogService
     ) {
+        this.indexDir = path.join(context.globalStorageUri.fsPath, "session-index");
         this.logService.info('[ClaudeSessionService] 已初始化');
     }
 
@@ -370,11 +485,38 @@ export class ClaudeSessionService implements IClaudeSessionService {
         try {
             this.logService.info(`[ClaudeSessionService] 加载会话列表: ${cwd}`);
 
-            const data = await loadProjectData(cwd);
+            const projectDir = getProjectHistoryDir(cwd);
+            this.ensureWatcher(projectDir);
+
+            const files = await statTranscripts(projectDir);
+            const cached = this.listIndexes.get(projectDir) ?? await this.readListIndex(projectDir);
+            if (cached && isIndexFresh(cached, files)) {
+                this.listIndexes.set(projectDir, cached);
+                return this.withMetadata(projectDir, cached.sessions);
+            }
+
+            const data = await this.loadProjectData(projectDir, files);
 
             const transcripts = getTranscripts(data);
 
-            const sessions = transcripts.map(transcript => {
+            // 同一对话树（根消息相同）的分支数量
+            const branchCounts = new Map<string, number>();
+            for (const transcript of transcripts) {
+                const root = getRootUuid(transcript);
+                branchCounts.set(root, (branchCounts.get(root) ?? 0) + 1);
+            }
+
+            // 每个会话只保留最新的分支
+            const latestTranscripts = new Map<string, SessionMessage[]>();
+            for (const transcript of transcripts) {
+                const lastMessage = transcript[transcript.length - 1];
+                const current = latestTranscripts.get(lastMessage.sessionId);
+                if (!current || new Date(lastMessage.timestamp).getTime() > new Date(current[current.length - 1].timestamp).getTime()) {
+                    latestTranscripts.set(lastMessage.sessionId, transcript);
+                }
+            }
+
+            const sessions = [...latestTranscripts.values()].map(transcript => {
                 const lastMessage = transcript[transcript.length - 1];
                 const firstMessage = transcript[0];
                 const summary = generateSummary(transcript);
@@ -385,12 +527,19 @@ export class ClaudeSessionService implements IClaudeSessionService {
                     isSidechain: firstMessage.isSidechain,
                     id: lastMessage.sessionId,
                     summary: data.summaries.get(lastMessage.uuid) || summary,
-                    isCurrentWorkspace: true
+                    isCurrentWorkspace: true,
+                    branchCount: branchCounts.get(getRootUuid(transcript)) ?? 1
                 };
             });
 
             this.logService.info(`[ClaudeSessionService] 找到 ${sessions.length} 个会话`);
-            return sessions;
+
+            await this.writeListIndex(projectDir, {
+                version: SESSION_INDEX_VERSION,
+                files: Object.fromEntries(files.map(file => [path.basename(file.filePath), [file.size, file.mtimeMs]])),
+                sessions
+            });
+            return this.withMetadata(projectDir, sessions);
         } catch (error) {
             this.logService.error(`[ClaudeSessionService] 加载会话列表失败:`, error);
             return [];
@@ -400,9 +549,9 @@ export class ClaudeSessionService implements IClaudeSessionService {
     /**
      * 获取指定会话的所有消息
      */
-    async getSession(sessionIdOrPath: string, cwd: string): Promise<any[]> {
+    async getSession(sessionIdOrPath: string, cwd: string, leafUuid?: string): Promise<any[]> {
         try {
-            this.logService.info(`[ClaudeSessionService] 获取会话消息: ${sessionIdOrPath}`);
+            this.logService.info(`[ClaudeSessionService] 获取会话消息: ${sessionIdOrPath}${leafUuid ? ` (分支 ${leafUuid})` : ''}`);
 
             if (sessionIdOrPath.endsWith(".jsonl")) {
                 const messages: any[] = [];
@@ -412,28 +561,32 @@ export class ClaudeSessionService implements IClaudeSessionService {
                 return messages;
             }
 
-            const data = await loadProjectData(cwd);
+            const projectDir = getProjectHistoryDir(cwd);
+            const data = await this.loadProjectData(projectDir);
 
-            const messageUuids = data.sessionMessages.get(sessionIdOrPath);
-            if (!messageUuids) {
-                return [];
-            }
-
-            const sessionMessageList = Array.from(data.messages.values())
-                .filter(msg => messageUuids.has(msg.uuid))
-                .sort((a, b) =>
-                    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-                );
-
-            const latestMessage = sessionMessageList[0];
+            const latestMessage = leafUuid
+                ? data.messages.get(leafUuid)
+                : getLatestMessage(sessionIdOrPath, data);
             if (!latestMessage) {
                 return [];
             }
 
-            const result = getTranscript(latestMessage, data)
-                .map(convertMessage)
+            const transcript = getTranscript(latestMessage, data);
+            const result = transcript
+                .map(msg => convertMessage(msg))
                 .filter(msg => !!msg);
 
+            // 子代理的消息带上所属 Task 的 tool_use id，由前端归入 Task 块的嵌套时间线
+            for (const task of getTaskToolUses(transcript)) {
+                const sidechain = await this.getSubagentTranscript(task, projectDir, data);
+                for (const msg of sidechain) {
+                    const converted = convertMessage(msg, task.toolUseId);
+                    if (converted) {
+                        result.push(converted);
+                    }
+                }
+            }
+
             this.logService.info(`[ClaudeSessionService] 获取到 ${result.length} 条消息`);
             return result;
         } catch (error) {
@@ -442,4 +595,329 @@ export class ClaudeSessionService implements IClaudeSessionService {
         }
     }
 
+    /**
+     * 列出与指定会话属于同一对话树的所有分支
+     */
+    async listBranches(sessionId: string, cwd: string): Promise<SessionBranch[]> {
+        const data = await this.loadProjectData(getProjectHistoryDir(cwd));
+
+        const latestMessage = getLatestMessage(sessionId, data);
+        if (!latestMessage) {
+            return [];
+        }
+        const root = getTranscript(latestMessage, data)[0].uuid;
+
+        return getTranscripts(data)
+            .filter(transcript => getRootUuid(transcript) === root && !transcript[0].isSidechain)
+            .map(transcript => {
+                const leaf = transcript[transcript.length - 1];
+                return {
+                    sessionId: leaf.sessionId,
+                    leafUuid: leaf.uuid,
+                    lastModified: new Date(leaf.timestamp).getTime(),
+                    messageCount: transcript.length,
+                    summary: generateBranchSummary(transcript),
+                    isLatest: leaf.uuid === latestMessage.uuid
+                };
+            })
+            .sort((a, b) => b.lastModified - a.lastModified);
+    }
+
+    /**
+     * 获取从指定消息分叉时应恢复到的消息 uuid
+     */
+    async getForkPoint(messageUuid: string, position: ForkPosition, cwd: string): Promise<string | undefined> {
+        const data = await this.loadProjectData(getProjectHistoryDir(cwd));
+
+        const message = data.messages.get(messageUuid);
+        if (!message) {
+            throw new Error("Message not found in session history");
+        }
+
+        if (position === "before") {
+            return message.parentUuid ?? undefined;
+        }
+
+        // 沿最新的子消息前进，直到下一条用户输入之前
+        const children = new Map<string, SessionMessage[]>();
+        for (const msg of data.messages.values()) {
+            if (msg.parentUuid && !msg.isSidechain) {
+                const list = children.get(msg.parentUuid) ?? [];
+                list.push(msg);
+                children.set(msg.parentUuid, list);
+            }
+        }
+
+        let current = message;
+        for (;;) {
+            const next = (children.get(current.uuid) ?? [])
+                .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+            if (!next || isUserPrompt(next)) {
+                return current.uuid;
+            }
+            current = next;
+        }
+    }
+
+    /**
+     * 获取指定会话的对话记录文件路径
+     */
+    getTranscriptPath(sessionId: string, cwd: string): string {
+        return path.join(getProjectHistoryDir(cwd), `${sessionId}.jsonl`);
+    }
+
+    async updateMetadata(sessionId: string, patch: SessionMetadata, cwd: string): Promise<SessionMetadata> {
+        const metadataPath = this.getMetadataPath(getProjectHistoryDir(cwd), sessionId);
+        if (!await this.exists(this.getTranscriptPath(sessionId, cwd))) {
+            throw new Error(`Session not found: ${sessionId}`);
+        }
+
+        const next: SessionMetadata = { ...await this.readMetadata(metadataPath) };
+        if (patch.title !== undefined) {
+            next.title = patch.title.trim() || undefined;
+        }
+        if (patch.pinned !== undefined) {
+            next.pinned = patch.pinned || undefined;
+        }
+        if (patch.archived !== undefined) {
+            next.archived = patch.archived || undefined;
+        }
+        if (patch.thinkingLevel !== undefined) {
+            next.thinkingLevel = patch.thinkingLevel || undefined;
+        }
+        if (patch.tags !== undefined) {
+            const tags = [...new Set(patch.tags.map(tag => tag.trim()).filter(Boolean))];
+            next.tags = tags.length > 0 ? tags : undefined;
+        }
+
+        // 去掉未设置的字段，全部为空时删除文件
+        const metadata = Object.fromEntries(
+            Object.entries(next).filter(([, value]) => value !== undefined)
+        ) as SessionMetadata;
+        if (Object.keys(metadata).length > 0) {
+            await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), "utf8");
+        } else {
+            await fs.rm(metadataPath, { force: true });
+        }
+        this.metadata.set(metadataPath, metadata);
+
+        this.logService.info(`[ClaudeSessionService] 已更新会话元数据: ${sessionId}`);
+        this.changeEmitter.fire();
+        return metadata;
+    }
+
+    async deleteSession(sessionId: string, cwd: string): Promise<void> {
+        const transcriptPath = this.getTranscriptPath(sessionId, cwd);
+        const metadataPath = this.getMetadataPath(getProjectHistoryDir(cwd), sessionId);
+
+        await fs.rm(transcriptPath);
+        await fs.rm(metadataPath, { force: true });
+        this.transcripts.delete(transcriptPath);
+        this.metadata.delete(metadataPath);
+
+        this.logService.info(`[ClaudeSessionService] 已删除会话: ${sessionId}`);
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * 合并会话元数据（重命名的标题覆盖摘要）
+     */
+    private async withMetadata(projectDir: string, sessions: SessionInfo[]): Promise<SessionInfo[]> {
+        return Promise.all(sessions.map(async session => {
+            const metadata = await this.readMetadata(this.getMetadataPath(projectDir, session.id));
+            return {
+                ...session,
+                ...metadata,
+                summary: metadata.title || session.summary
+            };
+        }));
+    }
+
+    /**
+     * 读取 Task 调用对应的子代理对话记录（agent-<agentId>.jsonl，或旧版会话文件中的 sidechain）
+     */
+    private async getSubagentTranscript(
+        task: { agentId?: string; prompt?: string },
+        projectDir: string,
+        data: SessionData
+    ): Promise<SessionMessage[]> {
+        const agentPath = task.agentId ? getAgentTranscriptPath(projectDir, task.agentId) : undefined;
+        if (agentPath) {
+            const entries = await readJSONL(agentPath);
+            if (entries.length > 0) {
+                return entries.filter(msg => msg.type === "user" || msg.type === "assistant");
+            }
+        }
+
+        return task.prompt ? getSidechainTranscript(task.prompt, data.messages.values()) as SessionMessage[] : [];
+    }
+
+    private getMetadataPath(projectDir: string, sessionId: string): string {
+        if (!validateSessionId(sessionId)) {
+            throw new Error(`Invalid session id: ${sessionId}`);
+        }
+        return path.join(projectDir, `${sessionId}${METADATA_SUFFIX}`);
+    }
+
+    private async readMetadata(metadataPath: string): Promise<SessionMetadata> {
+        const cached = this.metadata.get(metadataPath);
+        if (cached) {
+            return cached;
+        }
+
+        let metadata: SessionMetadata = {};
+        try {
+            const parsed = JSON.parse(await fs.readFile(metadataPath, "utf8"));
+            metadata = {
+                title: typeof parsed.title === "string" ? parsed.title : undefined,
+                pinned: parsed.pinned === true || undefined,
+                tags: Array.isArray(parsed.tags) ? parsed.tags.filter((tag: unknown) => typeof tag === "string") : undefined,
+                archived: parsed.archived === true || undefined,
+                thinkingLevel: typeof parsed.thinkingLevel === "string" ? parsed.thinkingLevel : undefined
+            };
+        } catch {
+            // 没有元数据文件
+        }
+        this.metadata.set(metadataPath, metadata);
+        return metadata;
+    }
+
+    private async exists(filePath: string): Promise<boolean> {
+        try {
+            await fs.access(filePath);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 加载项目的会话历史（只读取自上次加载后新增的行）
+     */
+    private async loadProjectData(projectDir: string, files?: TranscriptFile[]): Promise<SessionData> {
+        files ??= await statTranscripts(projectDir);
+
+        const present = new Set(files.map(file => file.filePath));
+        for (const filePath of this.transcripts.keys()) {
+            if (path.dirname(filePath) === projectDir && !present.has(filePath)) {
+                this.transcripts.delete(filePath);
+            }
+        }
+
+        const sessionMessages = new Map<string, Set<string>>();
+        const allMessages = new Map<string, SessionMessage>();
+        const allSummaries = new Map<string, string>();
+
+        // 按修改时间顺序合并，较新文件中的同一消息覆盖旧文件
+        for (const file of files) {
+            let cached: CachedTranscript;
+            try {
+                cached = await this.updateTranscript(file);
+            } catch (error) {
+                this.logService.warn(`[ClaudeSessionService] 读取对话记录失败: ${file.filePath} ${error}`);
+                continue;
+            }
+
+            sessionMessages.set(cached.sessionId, new Set(cached.messages.keys()));
+            for (const [uuid, msg] of cached.messages) {
+                allMessages.set(uuid, msg);
+            }
+            for (const [uuid, summary] of cached.summaries) {
+                allSummaries.set(uuid, summary);
+            }
+        }
+
+        return {
+            sessionMessages,
+            messages: allMessages,
+            summaries: allSummaries
+        };
+    }
+
+    private async updateTranscript(file: TranscriptFile): Promise<CachedTranscript> {
+        let cached = this.transcripts.get(file.filePath);
+        if (cached && !isTranscriptChanged(cached, file.size, file.mtimeMs)) {
+            return cached;
+        }
+
+        // 文件变小说明被重写，从头解析
+        if (!cached || file.size < cached.offset) {
+            cached = {
+                sessionId: file.sessionId,
+                size: 0,
+                mtimeMs: 0,
+                offset: 0,
+                messages: new Map(),
+                summaries: new Map()
+            };
+            this.transcripts.set(file.filePath, cached);
+        }
+
+        // 并发加载时可能重复读取同一段：消息按 uuid 去重，进度取最大值
+        const start = cached.offset;
+        const { entries, consumed } = await readAppendedEntries(file.filePath, start, file.size);
+        for (const entry of entries) {
+            if (
+                typeof entry.uuid === "string" && (
+                    entry.type === "user" ||
+                    entry.type === "assistant" ||
+                    entry.type === "attachment" ||
+                    entry.type === "system"
+                )
+            ) {
+                cached.messages.set(entry.uuid, entry as unknown as SessionMessage);
+            } else if (entry.type === "summary" && typeof entry.leafUuid === "string" && typeof entry.summary === "string") {
+                cached.summaries.set(entry.leafUuid, entry.summary);
+            }
+        }
+
+        cached.offset = Math.max(cached.offset, start + consumed);
+        cached.size = file.size;
+        cached.mtimeMs = file.mtimeMs;
+        return cached;
+    }
+
+    private getListIndexPath(projectDir: string): string {
+        return path.join(this.indexDir, `${path.basename(projectDir)}.json`);
+    }
+
+    private async readListIndex(projectDir: string): Promise<SessionListIndex | undefined> {
+        try {
+            const index = JSON.parse(await fs.readFile(this.getListIndexPath(projectDir), "utf8"));
+            return index?.version === SESSION_INDEX_VERSION && Array.isArray(index.sessions) ? index : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async writeListIndex(projectDir: string, index: SessionListIndex): Promise<void> {
+        this.listIndexes.set(projectDir, index);
+        try {
+            await fs.mkdir(this.indexDir, { recursive: true });
+            await fs.writeFile(this.getListIndexPath(projectDir), JSON.stringify(index), "utf8");
+        } catch (error) {
+            this.logService.warn(`[ClaudeSessionService] 保存会话索引失败: ${error}`);
+        }
+    }
+
+    /**
+     * 监听项目历史目录中的对话记录
+     */
+    private ensureWatcher(projectDir: string): void {
+        if (this.watchers.has(projectDir)) {
+            return;
+        }
+
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(projectDir), "*.jsonl")
+        );
+        const fire = () => {
+            clearTimeout(this.changeTimer);
+            this.changeTimer = setTimeout(() => this.changeEmitter.fire(), CHANGE_DEBOUNCE_MS);
+        };
+        watcher.onDidChange(fire);
+        watcher.onDidCreate(fire);
+        watcher.onDidDelete(fire);
+        this.watchers.set(projectDir, watcher);
+    }
 }
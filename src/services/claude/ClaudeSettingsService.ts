@@ -0,0 +1,235 @@
+/**
+ * ClaudeSettingsService - Claude settings.json 读写
+ *
+ * 职责：
+ * 1. 读取三个作用域 settings.json 中的 permissions.allow / permissions.deny
+ * 2. 校验后写回规则，保留文件中的其它字段；删除单条规则时基于文件的最新内容
+ * 3. 监听文件变化，通知设置页刷新（服务销毁时释放 watcher）
+ *
+ * 文件位置（与 Claude Code CLI 保持一致）：
+ * - user:    ~/.claude/settings.json
+ * - project: <cwd>/.claude/settings.json
+ * - local:   <cwd>/.claude/settings.local.json
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { createDecorator } from '../../di/instantiation';
+import { Disposable, DisposableMap } from '../../base/lifecycle';
+import { ILogService } from '../logService';
+import { validatePermissionRules } from '../../shared/settingsValidation';
+import type { ClaudeSettingsScope, PermissionRulesFile } from '../../shared/messages';
+
+export const IClaudeSettingsService = createDecorator<IClaudeSettingsService>('claudeSettingsService');
+
+/**
+ * Settings 服务接口
+ */
+export interface IClaudeSettingsService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * settings.json 在磁盘上发生变化
+     */
+    readonly onDidChange: vscode.Event<void>;
+
+    /**
+     * 读取所有作用域的权限规则
+     */
+    getPermissionRules(cwd: string): Promise<PermissionRulesFile[]>;
+
+    /**
+     * 写入某个作用域的 allow / deny 规则
+     */
+    setPermissionRules(cwd: string, scope: ClaudeSettingsScope, allow: string[], deny: string[]): Promise<void>;
+
+    /**
+     * 从某个作用域中删除一条规则（不存在时不修改文件）
+     */
+    removePermissionRule(cwd: string, scope: ClaudeSettingsScope, behavior: "allow" | "deny", rule: string): Promise<void>;
+}
+
+/**
+ * 作用域显示顺序
+ */
+const SCOPES: ClaudeSettingsScope[] = ["user", "project", "local"];
+
+/**
+ * 获取 settings.json 路径
+ */
+function getSettingsPath(scope: ClaudeSettingsScope, cwd: string): string {
+    switch (scope) {
+        case "user":
+            return path.join(process.env.CLAUDE_CONFIG_DIR ?? path.join(os.homedir(), ".claude"), "settings.json");
+        case "project":
+            return path.join(cwd, ".claude", "settings.json");
+        case "local":
+            return path.join(cwd, ".claude", "settings.local.json");
+    }
+}
+
+/**
+ * 读取 settings.json，返回内容与是否存在
+ */
+async function readSettingsFile(filePath: string): Promise<{ exists: boolean; data: Record<string, any> }> {
+    let content: string;
+    try {
+        content = await fs.readFile(filePath, "utf8");
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            return { exists: false, data: {} };
+        }
+        throw error;
+    }
+
+    if (!content.trim()) {
+        return { exists: true, data: {} };
+    }
+
+    const parsed = JSON.parse(content);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("Settings file must contain a JSON object");
+    }
+    return { exists: true, data: parsed };
+}
+
+function toStringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+/**
+ * Claude Settings 服务实现
+ */
+export class ClaudeSettingsService extends Disposable implements IClaudeSettingsService {
+    readonly _serviceBrand: undefined;
+
+    private readonly changeEmitter = this._register(new vscode.EventEmitter<void>());
+    readonly onDidChange = this.changeEmitter.event;
+
+    // 已建立监听的目录，避免重复创建 watcher
+    private readonly watchers = this._register(new DisposableMap<string, vscode.FileSystemWatcher>());
+
+    constructor(
+        @ILogService private readonly logService: ILogService
+    ) {
+        super();
+        this.logService.info('[ClaudeSettingsService] 已初始化');
+    }
+
+    /**
+     * 读取所有作用域的权限规则
+     */
+    async getPermissionRules(cwd: string): Promise<PermissionRulesFile[]> {
+        this.ensureWatchers(cwd);
+
+        return Promise.all(SCOPES.map(async scope => {
+            const filePath = getSettingsPath(scope, cwd);
+            try {
+                const { exists, data } = await readSettingsFile(filePath);
+                return {
+                    scope,
+                    path: filePath,
+                    exists,
+                    allow: toStringArray(data.permissions?.allow),
+                    deny: toStringArray(data.permissions?.deny)
+                };
+            } catch (error) {
+                const errorMsg = error instanceof Error ? error.message : String(error);
+                this.logService.warn(`[ClaudeSettingsService] 读取 ${filePath} 失败: ${errorMsg}`);
+                return {
+                    scope,
+                    path: filePath,
+                    exists: true,
+                    allow: [],
+                    deny: [],
+                    error: errorMsg
+                };
+            }
+        }));
+    }
+
+    /**
+     * 写入某个作用域的 allow / deny 规则
+     */
+    async setPermissionRules(
+        cwd: string,
+        scope: ClaudeSettingsScope,
+        allow: string[],
+        deny: string[]
+    ): Promise<void> {
+        const normalizedAllow = allow.map(rule => rule.trim());
+        const normalizedDeny = deny.map(rule => rule.trim());
+
+        const errors = validatePermissionRules(normalizedAllow, normalizedDeny);
+        if (errors.length > 0) {
+            throw new Error(errors.join("\n"));
+        }
+
+        const filePath = getSettingsPath(scope, cwd);
+        // 解析失败时直接抛出，避免覆盖用户手写的内容
+        const { data } = await readSettingsFile(filePath);
+
+        const permissions = data.permissions && typeof data.permissions === "object" ? data.permissions : {};
+        permissions.allow = normalizedAllow;
+        permissions.deny = normalizedDeny;
+        data.permissions = permissions;
+
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(data, null, 2) + "\n", "utf8");
+
+        this.logService.info(`[ClaudeSettingsService] 已更新权限规则: ${filePath}`);
+    }
+
+    /**
+     * 从某个作用域中删除一条规则
+     */
+    async removePermissionRule(
+        cwd: string,
+        scope: ClaudeSettingsScope,
+        behavior: "allow" | "deny",
+        rule: string
+    ): Promise<void> {
+        const filePath = getSettingsPath(scope, cwd);
+        // 重新读取文件，界面上的列表可能已过期
+        const { exists, data } = await readSettingsFile(filePath);
+        const rules: unknown = data.permissions?.[behavior];
+        if (!exists || !Array.isArray(rules) || !rules.includes(rule)) {
+            return;
+        }
+
+        data.permissions[behavior] = rules.filter(item => item !== rule);
+        await fs.writeFile(filePath, JSON.stringify(data, null, 2) + "\n", "utf8");
+
+        this.logService.info(`[ClaudeSettingsService] 已删除权限规则 ${rule}: ${filePath}`);
+    }
+
+    /**
+     * 为 settings.json 所在目录建立文件监听
+     */
+    private ensureWatchers(cwd: string): void {
+        const targets: Array<[string, string]> = [
+            [path.dirname(getSettingsPath("user", cwd)), "settings.json"],
+            [path.join(cwd, ".claude"), "settings{,.local}.json"],
+        ];
+
+        for (const [dir, pattern] of targets) {
+            if (this.watchers.has(dir)) {
+                continue;
+            }
+
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(vscode.Uri.file(dir), pattern)
+            );
+            const fire = () => this.changeEmitter.fire();
+            watcher.onDidChange(fire);
+            watcher.onDidCreate(fire);
+            watcher.onDidDelete(fire);
+            this.watchers.set(dir, watcher);
+        }
+    }
+}
@@ -0,0 +1,547 @@
+/**
+ * ClaudeUsageService - Token 用量与费用统计
+ *
+ * 职责：
+ * 1. 增量读取对话记录中 assistant 消息的 usage（按文件大小和修改时间判断变化），
+ *    子代理对话记录（agent-*.jsonl）计入其父会话
+ * 2. 按 message.id + requestId 去重（同一条回复按内容块拆成多行写入，恢复的会话会复制历史记录）
+ * 3. 按日期、会话、模型汇总，费用按价格表估算
+ * 4. 导出 CSV 明细（以 = + - @ 开头的单元格加 ' 前缀，避免被表格软件当作公式执行）
+ * 5. 提供单个会话已记录的用量（恢复会话时作为会话预算的起点，只读取该会话相关的对话记录）
+ *
+ * 依赖：
+ * - ILogService: 日志服务
+ * - IWorkspaceService: 工作区（确定当前工作区的会话目录）
+ * - IDialogService: 保存对话框
+ * - IFileSystemService: 写入文件
+ * - INotificationService: 导出完成提示
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createDecorator } from '../../di/instantiation';
+import { ILogService } from '../logService';
+import { IWorkspaceService } from '../workspaceService';
+import { IDialogService } from '../dialogService';
+import { IFileSystemService } from '../fileSystemService';
+import { INotificationService } from '../notificationService';
+import { getProjectHistoryDir, getProjectsDir, isUserPrompt, validateSessionId } from './ClaudeSessionService';
+import { getSessionRoots } from './sessionRoots';
+import { getAgentIdFromFileName, getAgentTranscriptPath, getTaskToolUses } from './subagentTranscripts';
+import { TranscriptCursor, TranscriptLine, isTranscriptChanged, readAppendedEntries } from './transcriptReader';
+import { TokenCounts, calculateCost } from './usagePricing';
+import type {
+    BudgetStatus,
+    DailyUsage,
+    ModelUsageSummary,
+    SessionUsage,
+    UsageReport,
+    UsageScope,
+    UsageTotals
+} from '../../shared/messages';
+
+export const IClaudeUsageService = createDecorator<IClaudeUsageService>('claudeUsageService');
+
+/**
+ * 会话摘要（第一条用户输入）的最大长度
+ */
+const MAX_SUMMARY_LENGTH = 100;
+
+/**
+ * 单次 API 调用的用量
+ */
+export interface UsageRecord extends TokenCounts {
+    key: string;          // message.id:requestId，用于去重
+    timestamp: number;
+    model: string;
+    costUSD?: number;     // 旧版对话记录中直接保存的费用
+    sidechain: boolean;   // 子代理的调用（不计入会话回合数）
+}
+
+/**
+ * 单个对话记录的用量
+ */
+export interface TranscriptUsage {
+    sessionId: string;    // 子代理对话记录为父会话 id
+    project: string;
+    summary: string;      // 子代理对话记录为空，使用父会话的摘要
+    records: UsageRecord[];
+}
+
+/**
+ * CSV 明细行（按日期、会话、模型汇总）
+ */
+export interface UsageCsvRow extends UsageTotals {
+    date: string;
+    project: string;
+    sessionId: string;
+    summary: string;
+    model: string;
+}
+
+interface FileUsage extends TranscriptCursor, TranscriptUsage {}
+
+/**
+ * 用量统计服务接口
+ */
+export interface IClaudeUsageService {
+    readonly _serviceBrand: undefined;
+
+    /**
+     * 按日期、会话、模型汇总用量
+     */
+    getReport(scope: UsageScope, since?: number): Promise<UsageReport>;
+
+    /**
+     * 导出 CSV 明细
+     *
+     * @returns 写入的文件路径，用户取消时为 undefined
+     */
+    exportCsv(scope: UsageScope, since?: number): Promise<string | undefined>;
+
+    /**
+     * 会话已记录的用量（恢复会话时作为会话预算的起点）
+     */
+    getSessionUsage(sessionId: string, cwd: string): Promise<BudgetStatus["usage"]>;
+}
+
+/**
+ * 从对话记录条目中提取用量（非 assistant 消息或没有 usage 时返回 undefined）
+ */
+export function extractUsageRecord(entry: TranscriptLine): UsageRecord | undefined {
+    const message = isRecord(entry.message) ? entry.message : undefined;
+    const usage = isRecord(message?.usage) ? message.usage : undefined;
+    if (entry.type !== "assistant" || !message || !usage || typeof message.model !== "string" || message.model === "<synthetic>") {
+        return undefined;
+    }
+
+    const timestamp = typeof entry.timestamp === "string" ? Date.parse(entry.timestamp) : NaN;
+    if (Number.isNaN(timestamp)) {
+        return undefined;
+    }
+
+    return {
+        key: `${message.id ?? entry.uuid}:${entry.requestId ?? ""}`,
+        timestamp,
+        model: message.model,
+        inputTokens: toTokenCount(usage.input_tokens),
+        outputTokens: toTokenCount(usage.output_tokens),
+        cacheCreationTokens: toTokenCount(usage.cache_creation_input_tokens),
+        cacheReadTokens: toTokenCount(usage.cache_read_input_tokens),
+        costUSD: typeof entry.costUSD === "number" ? entry.costUSD : undefined,
+        sidechain: entry.isSidechain === true
+    };
+}
+
+/**
+ * 汇总单个会话的用量（去重规则与 aggregateUsage 相同，回合数只统计主线程的调用）
+ */
+export function summarizeSessionUsage(files: TranscriptUsage[], sessionId: string): BudgetStatus["usage"] {
+    const seen = new Set<string>();
+    const usage = { costUsd: 0, outputTokens: 0, turns: 0 };
+
+    for (const file of files) {
+        for (const record of file.records) {
+            if (seen.has(record.key)) {
+                continue;
+            }
+            seen.add(record.key);
+
+            if (file.sessionId !== sessionId) {
+                continue;
+            }
+            usage.costUsd += record.costUSD ?? calculateCost(record.model, record) ?? 0;
+            usage.outputTokens += record.outputTokens;
+            if (!record.sidechain) {
+                usage.turns++;
+            }
+        }
+    }
+
+    return usage;
+}
+
+/**
+ * 读取单个会话已记录的用量：只读取会话文件、复制了历史记录的来源会话（复制的条目保留原会话 id）
+ * 和会话调用的子代理的对话记录
+ */
+export async function readSessionUsage(projectDir: string, sessionId: string): Promise<BudgetStatus["usage"]> {
+    const session = await readFileUsage(path.join(projectDir, `${sessionId}.jsonl`), sessionId);
+    // 来源会话排在前面：复制的记录计入来源会话
+    const files: TranscriptUsage[] = [];
+
+    const sources = new Set<string>();
+    for (const entry of session.entries) {
+        const source = typeof entry.sessionId === "string" ? validateSessionId(entry.sessionId) : null;
+        if (source && source !== sessionId) {
+            sources.add(source);
+        }
+    }
+    for (const source of sources) {
+        try {
+            files.push(await readFileUsage(path.join(projectDir, `${source}.jsonl`), source));
+        } catch {
+            // 来源会话已删除时，复制的记录计入当前会话
+        }
+    }
+
+    files.push(session);
+
+    for (const task of getTaskToolUses(session.entries)) {
+        const agentPath = task.agentId ? getAgentTranscriptPath(projectDir, task.agentId) : undefined;
+        if (agentPath) {
+            try {
+                files.push(await readFileUsage(agentPath, undefined));
+            } catch {
+                // 旧版 CLI 的子代理消息写在会话文件中
+            }
+        }
+    }
+
+    return summarizeSessionUsage(files, sessionId);
+}
+
+/**
+ * 汇总用量（files 应按修改时间升序，重复的调用只计入最早的会话）
+ */
+export function aggregateUsage(
+    files: TranscriptUsage[],
+    since?: number
+): { report: UsageReport; rows: UsageCsvRow[] } {
+    const seen = new Set<string>();
+    const unpriced = new Set<string>();
+    const summaries = new Map<string, string>();
+    for (const file of files) {
+        if (file.summary && !summaries.has(file.sessionId)) {
+            summaries.set(file.sessionId, file.summary);
+        }
+    }
+    const totals = emptyTotals();
+    const days = new Map<string, DailyUsage>();
+    const sessions = new Map<string, SessionUsage>();
+    const models = new Map<string, ModelUsageSummary>();
+    const rows = new Map<string, UsageCsvRow>();
+
+    for (const file of files) {
+        for (const record of file.records) {
+            if ((since !== undefined && record.timestamp < since) || seen.has(record.key)) {
+                continue;
+            }
+            seen.add(record.key);
+
+            const estimated = calculateCost(record.model, record);
+            if (estimated === undefined && record.costUSD === undefined) {
+                unpriced.add(record.model);
+            }
+            const cost = record.costUSD ?? estimated ?? 0;
+            const date = formatDate(record.timestamp);
+
+            let day = days.get(date);
+            if (!day) {
+                day = { date, ...emptyTotals() };
+                days.set(date, day);
+            }
+
+            let session = sessions.get(file.sessionId);
+            if (!session) {
+                session = {
+                    sessionId: file.sessionId,
+                    summary: summaries.get(file.sessionId) ?? "",
+                    project: file.project,
+                    lastActivity: 0,
+                    ...emptyTotals()
+                };
+                sessions.set(file.sessionId, session);
+            }
+            session.lastActivity = Math.max(session.lastActivity, record.timestamp);
+
+            let model = models.get(record.model);
+            if (!model) {
+                model = { model: record.model, ...emptyTotals() };
+                models.set(record.model, model);
+            }
+
+            const rowKey = `${date}\0${file.sessionId}\0${record.model}`;
+            let row = rows.get(rowKey);
+            if (!row) {
+                row = {
+                    date,
+                    project: file.project,
+                    sessionId: file.sessionId,
+                    summary: summaries.get(file.sessionId) ?? "",
+                    model: record.model,
+                    ...emptyTotals()
+                };
+                rows.set(rowKey, row);
+            }
+
+            for (const target of [totals, day, session, model, row]) {
+                addUsage(target, record, cost);
+            }
+        }
+    }
+
+    return {
+        report: {
+            totals,
+            days: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+            sessions: [...sessions.values()].sort((a, b) => b.lastActivity - a.lastActivity),
+            models: [...models.values()].sort((a, b) => b.costUSD - a.costUSD),
+            unpricedModels: [...unpriced].sort()
+        },
+        rows: [...rows.values()].sort((a, b) =>
+            a.date.localeCompare(b.date) || a.sessionId.localeCompare(b.sessionId) || a.model.localeCompare(b.model)
+        )
+    };
+}
+
+/**
+ * 生成 CSV（RFC 4180 转义）
+ */
+export function toCsv(rows: UsageCsvRow[]): string {
+    const header = [
+        "Date", "Project", "Session ID", "Session", "Model",
+        "Input Tokens", "Output Tokens", "Cache Write Tokens", "Cache Read Tokens", "Cost (USD)"
+    ];
+    const lines = rows.map(row => [
+        row.date, row.project, row.sessionId, row.summary, row.model,
+        row.inputTokens, row.outputTokens, row.cacheCreationTokens, row.cacheReadTokens, row.costUSD.toFixed(6)
+    ]);
+
+    return [header, ...lines]
+        .map(fields => fields.map(field => escapeCsv(String(field))).join(","))
+        .join("\r\n") + "\r\n";
+}
+
+function escapeCsv(value: string): string {
+    // 摘要来自用户输入，以公式字符开头时在表格软件中会被当作公式执行
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function emptyTotals(): UsageTotals {
+    return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUSD: 0 };
+}
+
+function addUsage(target: UsageTotals, tokens: TokenCounts, cost: number): void {
+    target.inputTokens += tokens.inputTokens;
+    target.outputTokens += tokens.outputTokens;
+    target.cacheCreationTokens += tokens.cacheCreationTokens;
+    target.cacheReadTokens += tokens.cacheReadTokens;
+    target.costUSD += cost;
+}
+
+function formatDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * 用量统计服务实现
+ */
+export class ClaudeUsageService implements IClaudeUsageService {
+    readonly _serviceBrand: undefined;
+
+    // 文件路径 → 用量
+    private readonly files = new Map<string, FileUsage>();
+
+    // 刷新串行执行，避免并发读取同一文件
+    private refreshing: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        @ILogService private readonly logService: ILogService,
+        @IWorkspaceService private readonly workspaceService: IWorkspaceService,
+        @IDialogService private readonly dialogService: IDialogService,
+        @IFileSystemService private readonly fileSystemService: IFileSystemService,
+        @INotificationService private readonly notificationService: INotificationService
+    ) {}
+
+    async getReport(scope: UsageScope, since?: number): Promise<UsageReport> {
+        const files = await this.refresh(scope);
+        return aggregateUsage(files, since).report;
+    }
+
+    async exportCsv(scope: UsageScope, since?: number): Promise<string | undefined> {
+        const files = await this.refresh(scope);
+        const { rows } = aggregateUsage(files, since);
+
+        const workspaceUri = this.workspaceService.getDefaultWorkspaceFolder()?.uri;
+        const fileName = `claude-usage-${formatDate(Date.now())}.csv`;
+        const target = await this.dialogService.showSaveDialog({
+            defaultUri: workspaceUri ? vscode.Uri.joinPath(workspaceUri, fileName) : vscode.Uri.file(fileName),
+            filters: { CSV: ["csv"] }
+        });
+        if (!target) {
+            return undefined;
+        }
+
+        await this.fileSystemService.writeFile(target, new TextEncoder().encode(toCsv(rows)));
+        this.logService.info(`[ClaudeUsageService] 已导出 ${rows.length} 行用量明细: ${target.fsPath}`);
+
+        void this.notificationService.showInformation(`Usage exported to ${target.fsPath}`, "Open").then(choice => {
+            if (choice === "Open") {
+                void vscode.commands.executeCommand("vscode.open", target);
+            }
+        });
+
+        return target.fsPath;
+    }
+
+    async getSessionUsage(sessionId: string, cwd: string): Promise<BudgetStatus["usage"]> {
+        // 不刷新整个项目目录（恢复会话时会阻塞启动）
+        return readSessionUsage(getProjectHistoryDir(cwd), sessionId);
+    }
+
+    /**
+     * 刷新范围内所有对话记录的用量，返回按修改时间升序的列表
+     */
+    private refresh(scope: UsageScope): Promise<FileUsage[]> {
+        const next = this.refreshing.catch(() => undefined).then(async () =>
+            this.doRefresh(await this.getProjectDirs(scope))
+        );
+        this.refreshing = next;
+        return next;
+    }
+
+    private async getProjectDirs(scope: UsageScope): Promise<string[]> {
+        if (scope === "all") {
+            try {
+                const entries = await fs.readdir(getProjectsDir(), { withFileTypes: true });
+                return entries.filter(entry => entry.isDirectory()).map(entry => path.join(getProjectsDir(), entry.name));
+            } catch {
+                return [];
+            }
+        }
+
+        const cwd = this.workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+        const roots = await getSessionRoots(this.workspaceService.getWorkspaceFolders() ?? [], cwd);
+        return roots.map(root => getProjectHistoryDir(root.cwd));
+    }
+
+    private async doRefresh(projectDirs: string[]): Promise<FileUsage[]> {
+        const result: FileUsage[] = [];
+
+        for (const projectDir of projectDirs) {
+            let names: string[];
+            try {
+                names = await fs.readdir(projectDir);
+            } catch {
+                continue;
+            }
+
+            const seen = new Set<string>();
+            for (const name of names) {
+                const sessionId = validateSessionId(path.basename(name, ".jsonl"));
+                if (!name.endsWith(".jsonl") || (!sessionId && !getAgentIdFromFileName(name))) {
+                    continue;
+                }
+
+                const filePath = path.join(projectDir, name);
+                seen.add(filePath);
+                try {
+                    const usage = await this.updateFile(filePath, sessionId ?? undefined);
+                    // 还没有读到父会话 id 的子代理对话记录暂不计入
+                    if (usage.sessionId) {
+                        result.push(usage);
+                    }
+                } catch (error) {
+                    this.logService.warn(`[ClaudeUsageService] 读取用量失败: ${filePath} ${error}`);
+                }
+            }
+
+            // 移除已删除文件的缓存
+            for (const filePath of this.files.keys()) {
+                if (path.dirname(filePath) === projectDir && !seen.has(filePath)) {
+                    this.files.delete(filePath);
+                }
+            }
+        }
+
+        return result.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    }
+
+    /**
+     * @param sessionId 会话文件的 id，子代理对话记录为 undefined（从条目的 sessionId 字段取父会话 id）
+     */
+    private async updateFile(filePath: string, sessionId: string | undefined): Promise<FileUsage> {
+        const stat = await fs.stat(filePath);
+        let usage = this.files.get(filePath);
+
+        if (usage && !isTranscriptChanged(usage, stat.size, stat.mtimeMs)) {
+            return usage;
+        }
+
+        // 文件变小说明被重写，需要重新读取
+        if (!usage || stat.size < usage.offset) {
+            usage = { sessionId: sessionId ?? "", project: "", summary: "", records: [], size: 0, mtimeMs: 0, offset: 0 };
+            this.files.set(filePath, usage);
+        }
+
+        await appendUsage(usage, filePath, stat.size, stat.mtimeMs, sessionId);
+        return usage;
+    }
+}
+
+/**
+ * 读取整个对话记录的用量（不使用缓存），同时返回解析到的条目
+ */
+async function readFileUsage(filePath: string, sessionId: string | undefined): Promise<FileUsage & { entries: TranscriptLine[] }> {
+    const stat = await fs.stat(filePath);
+    const usage: FileUsage = { sessionId: sessionId ?? "", project: "", summary: "", records: [], size: 0, mtimeMs: 0, offset: 0 };
+    const entries = await appendUsage(usage, filePath, stat.size, stat.mtimeMs, sessionId);
+    return { ...usage, entries };
+}
+
+/**
+ * 读取 usage.offset 之后新增的条目并累加到 usage，返回新增的条目
+ */
+async function appendUsage(
+    usage: FileUsage,
+    filePath: string,
+    size: number,
+    mtimeMs: number,
+    sessionId: string | undefined
+): Promise<TranscriptLine[]> {
+    const { entries, consumed } = await readAppendedEntries(filePath, usage.offset, size);
+    for (const entry of entries) {
+        if (!usage.project && typeof entry.cwd === "string") {
+            usage.project = path.basename(entry.cwd);
+        }
+        if (!usage.sessionId && typeof entry.sessionId === "string") {
+            usage.sessionId = validateSessionId(entry.sessionId) ?? "";
+        }
+        if (sessionId && !usage.summary && entry.type === "user" && isUserPrompt(entry)) {
+            usage.summary = getPromptText(entry).slice(0, MAX_SUMMARY_LENGTH);
+        }
+
+        const record = extractUsageRecord(entry);
+        if (record) {
+            usage.records.push(record);
+        }
+    }
+
+    usage.offset += consumed;
+    usage.size = size;
+    usage.mtimeMs = mtimeMs;
+    return entries;
+}
+
+function getPromptText(entry: TranscriptLine): string {
+    const content = isRecord(entry.message) ? entry.message.content : undefined;
+    const text = typeof content === "string"
+        ? content
+        : Array.isArray(content)
+            ? content.filter(isRecord).filter(block => block.type === "text").map(block => block.text).join(" ")
+            : "";
+    return text.replace(/\s+/g, " ").trim();
+}
+
+function toTokenCount(value: unknown): number {
+    return typeof value === "number" ? value : 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
@@ -0,0 +1,194 @@
+/**
+ * 会话预算
+ *
+ * 统计会话的费用、输出 token 和主线程回合数，达到限制时由 ClaudeAgentService 中断会话。
+ * 回合进行中按价格表估算，收到 result 消息后以 SDK 报告的累计值为准。
+ * SDK 只统计当前进程，恢复会话（包括 token 刷新、凭证变化后的重新启动）时以对话记录中已有的用量为起点。
+ */
+
+import type { SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import type { BudgetKind, BudgetStatus, SessionBudget } from '../../shared/messages';
+import { calculateCost } from './usagePricing';
+
+/**
+ * 默认警告阈值（达到限制的 80%）
+ */
+export const DEFAULT_BUDGET_WARNING_THRESHOLD = 0.8;
+
+/**
+ * 最小警告阈值（更小的配置值按此处理）
+ */
+export const MIN_BUDGET_WARNING_THRESHOLD = 0.1;
+
+/**
+ * 检查顺序（同时超出时报告第一个）
+ */
+const BUDGET_KINDS: BudgetKind[] = ["cost", "outputTokens", "turns"];
+
+/**
+ * 合并会话设置与工作区默认值（负数和非数字视为不限制）
+ */
+export function resolveBudget(defaults: SessionBudget, override: SessionBudget = {}): Required<SessionBudget> {
+    const pick = (value: number | undefined, fallback: number | undefined) => {
+        const resolved = value ?? fallback;
+        return typeof resolved === "number" && resolved > 0 ? resolved : 0;
+    };
+
+    return {
+        maxCostUsd: pick(override.maxCostUsd, defaults.maxCostUsd),
+        maxOutputTokens: pick(override.maxOutputTokens, defaults.maxOutputTokens),
+        maxTurns: pick(override.maxTurns, defaults.maxTurns)
+    };
+}
+
+/**
+ * 描述超出的限制（用于会话中的系统消息）
+ */
+export function describeBudgetExceeded(kind: BudgetKind, status: BudgetStatus): string {
+    const { budget, usage } = status;
+    switch (kind) {
+        case "cost":
+            return `Session budget reached: spent $${usage.costUsd.toFixed(2)} of the $${budget.maxCostUsd.toFixed(2)} limit. Claudix stopped the agent.`;
+        case "outputTokens":
+            return `Session budget reached: ${usage.outputTokens.toLocaleString()} of ${budget.maxOutputTokens.toLocaleString()} output tokens used. Claudix stopped the agent.`;
+        case "turns":
+            return `Session budget reached: all ${budget.maxTurns} turns used. Claudix stopped the agent.`;
+    }
+}
+
+/**
+ * 单个会话的预算统计
+ */
+export class BudgetTracker {
+    private override: SessionBudget;
+
+    // 启动前对话记录中已有的用量
+    private recorded: BudgetStatus["usage"];
+
+    // result 消息报告的累计值（SDK 按进程累计）
+    private settledCost = 0;
+    private settledOutputTokens = 0;
+
+    // 尚未被 result 覆盖的 assistant 消息（message.id → 估算值，同一条消息的多个内容块取最新）
+    private pending = new Map<string, { cost: number; outputTokens: number }>();
+
+    private turns = 0;
+    private lastTurnId?: string;
+
+    // 本轮已经因超出预算而中断（新的用户消息到达时重置）
+    private stopped = false;
+
+    constructor(
+        private defaults: SessionBudget,
+        override: SessionBudget = {},
+        private warningThreshold = DEFAULT_BUDGET_WARNING_THRESHOLD,
+        recorded: BudgetStatus["usage"] = { costUsd: 0, outputTokens: 0, turns: 0 }
+    ) {
+        this.override = override;
+        this.recorded = recorded;
+    }
+
+    setDefaults(defaults: SessionBudget, warningThreshold = DEFAULT_BUDGET_WARNING_THRESHOLD): void {
+        this.defaults = defaults;
+        this.warningThreshold = warningThreshold;
+    }
+
+    setOverride(override: SessionBudget): void {
+        this.override = override;
+    }
+
+    /**
+     * 记录 SDK 输出（返回用量是否变化）
+     */
+    record(message: SDKMessage): boolean {
+        if (message.type === "assistant") {
+            const apiMessage = message.message;
+            const usage = apiMessage?.usage;
+            const id: string | undefined = apiMessage?.id ?? message.uuid;
+            if (!id) {
+                return false;
+            }
+
+            // 子代理的调用不计入回合数
+            if (!message.parent_tool_use_id && id !== this.lastTurnId) {
+                this.lastTurnId = id;
+                this.turns++;
+            }
+
+            if (usage && typeof apiMessage.model === "string") {
+                this.pending.set(id, {
+                    cost: calculateCost(apiMessage.model, {
+                        inputTokens: usage.input_tokens ?? 0,
+                        outputTokens: usage.output_tokens ?? 0,
+                        cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+                        cacheReadTokens: usage.cache_read_input_tokens ?? 0
+                    }) ?? 0,
+                    outputTokens: usage.output_tokens ?? 0
+                });
+            }
+            return true;
+        }
+
+        if (message.type === "result") {
+            if (typeof message.total_cost_usd === "number") {
+                this.settledCost = message.total_cost_usd;
+            }
+            this.settledOutputTokens = Object.values(message.modelUsage ?? {})
+                .reduce((sum, usage) => sum + (usage.outputTokens ?? 0), 0);
+            this.pending.clear();
+            return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * 超出预算且本轮尚未中断时返回超出的限制（调用后本轮不再重复报告）
+     */
+    takeExceeded(): BudgetKind | undefined {
+        if (this.stopped) {
+            return undefined;
+        }
+
+        const exceeded = this.getStatus().exceeded;
+        if (exceeded) {
+            this.stopped = true;
+        }
+        return exceeded;
+    }
+
+    /**
+     * 新的用户消息开始新一轮（仍然超出时会再次中断）
+     */
+    resetStop(): void {
+        this.stopped = false;
+    }
+
+    getStatus(): BudgetStatus {
+        const budget = resolveBudget(this.defaults, this.override);
+        let costUsd = this.recorded.costUsd + this.settledCost;
+        let outputTokens = this.recorded.outputTokens + this.settledOutputTokens;
+        for (const item of this.pending.values()) {
+            costUsd += item.cost;
+            outputTokens += item.outputTokens;
+        }
+        const usage = { costUsd, outputTokens, turns: this.recorded.turns + this.turns };
+
+        const limits: Record<BudgetKind, [number, number]> = {
+            cost: [usage.costUsd, budget.maxCostUsd],
+            outputTokens: [usage.outputTokens, budget.maxOutputTokens],
+            turns: [usage.turns, budget.maxTurns]
+        };
+        const active = BUDGET_KINDS.filter(kind => limits[kind][1] > 0);
+
+        return {
+            budget,
+            usage,
+            warnings: active.filter(kind => limits[kind][0] >= limits[kind][1] * this.warningThreshold),
+            // 回合数在下一轮开始时才算超出，允许用满最后一轮
+            exceeded: active.find(kind =>
+                kind === "turns" ? limits[kind][0] > limits[kind][1] : limits[kind][0] >= limits[kind][1]
+            )
+        };
+    }
+}
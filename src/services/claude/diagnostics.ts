@@ -0,0 +1,146 @@
+/**
+ * IDE 诊断信息
+ *
+ * 将 VS Code 的诊断转换为 <ide_diagnostics> 标签使用的条目，
+ * 供 @problems、自动附带当前文件错误以及 "Fix with Claudix" 使用。
+ */
+
+import * as vscode from 'vscode';
+import type { DiagnosticsScope, IdeDiagnostic } from '../../shared/messages';
+
+/**
+ * 单次附带的诊断上限（避免大量警告占满上下文）
+ */
+export const MAX_DIAGNOSTICS = 100;
+
+/**
+ * Fix with Claudix 命令
+ */
+export const FIX_PROBLEMS_COMMAND = 'claudix.fixProblems';
+
+const SEVERITY_NAMES: Record<vscode.DiagnosticSeverity, IdeDiagnostic["severity"]> = {
+    [vscode.DiagnosticSeverity.Error]: "Error",
+    [vscode.DiagnosticSeverity.Warning]: "Warning",
+    [vscode.DiagnosticSeverity.Information]: "Information",
+    [vscode.DiagnosticSeverity.Hint]: "Hint"
+};
+
+/**
+ * Problems 视图的 MarkerSeverity（Hint = 1, Info = 2, Warning = 4, Error = 8）
+ */
+const MARKER_SEVERITY_NAMES: Record<number, IdeDiagnostic["severity"]> = {
+    1: "Hint",
+    2: "Information",
+    4: "Warning",
+    8: "Error"
+};
+
+const SEVERITY_ORDER: IdeDiagnostic["severity"][] = ["Error", "Warning", "Information", "Hint"];
+
+/**
+ * 转换单条诊断
+ */
+export function toIdeDiagnostic(uri: vscode.Uri, diagnostic: vscode.Diagnostic): IdeDiagnostic {
+    const code = typeof diagnostic.code === "object" ? diagnostic.code.value : diagnostic.code;
+    return {
+        filePath: uri.fsPath,
+        line: diagnostic.range.start.line + 1,
+        column: diagnostic.range.start.character + 1,
+        message: diagnostic.message,
+        code: code === undefined ? "" : String(code),
+        severity: SEVERITY_NAMES[diagnostic.severity] ?? "Error",
+        source: diagnostic.source
+    };
+}
+
+/**
+ * 转换 Problems 视图右键菜单传入的条目（MarkerItem 或 IMarker）
+ */
+export function markerToIdeDiagnostic(item: any): IdeDiagnostic | undefined {
+    const marker = item?.marker ?? item;
+    const resource = marker?.resource;
+    if (!resource || typeof marker.message !== "string") {
+        return undefined;
+    }
+
+    const code = typeof marker.code === "object" ? marker.code?.value : marker.code;
+    return {
+        filePath: resource.fsPath ?? vscode.Uri.from(resource).fsPath,
+        line: marker.startLineNumber ?? 1,
+        column: marker.startColumn ?? 1,
+        message: marker.message,
+        code: code === undefined ? "" : String(code),
+        severity: MARKER_SEVERITY_NAMES[marker.severity] ?? "Error",
+        source: marker.source
+    };
+}
+
+/**
+ * 按严重程度、文件和位置排序并截断
+ */
+export function sortDiagnostics(diagnostics: IdeDiagnostic[]): IdeDiagnostic[] {
+    return [...diagnostics]
+        .sort((a, b) =>
+            SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+            a.filePath.localeCompare(b.filePath) ||
+            a.line - b.line ||
+            a.column - b.column
+        )
+        .slice(0, MAX_DIAGNOSTICS);
+}
+
+/**
+ * 收集诊断信息
+ *
+ * @param scope workspace：所有文件；activeFile：当前编辑器中的文件
+ * @param errorsOnly 只返回错误
+ */
+export function collectDiagnostics(scope: DiagnosticsScope, errorsOnly = false): IdeDiagnostic[] {
+    let entries: Array<[vscode.Uri, readonly vscode.Diagnostic[]]>;
+    if (scope === "activeFile") {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        entries = uri ? [[uri, vscode.languages.getDiagnostics(uri)]] : [];
+    } else {
+        entries = vscode.languages.getDiagnostics();
+    }
+
+    const result: IdeDiagnostic[] = [];
+    for (const [uri, diagnostics] of entries) {
+        // 只附带磁盘上的文件（跳过 output、git 等虚拟文档）
+        if (uri.scheme !== "file") {
+            continue;
+        }
+        for (const diagnostic of diagnostics) {
+            if (!errorsOnly || diagnostic.severity === vscode.DiagnosticSeverity.Error) {
+                result.push(toIdeDiagnostic(uri, diagnostic));
+            }
+        }
+    }
+
+    return sortDiagnostics(result);
+}
+
+/**
+ * 在有诊断信息的位置提供 "Fix with Claudix" 快速修复
+ */
+export class FixWithClaudixCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        if (context.diagnostics.length === 0) {
+            return [];
+        }
+
+        const action = new vscode.CodeAction("Fix with Claudix", vscode.CodeActionKind.QuickFix);
+        action.command = {
+            command: FIX_PROBLEMS_COMMAND,
+            title: "Fix with Claudix",
+            arguments: [document.uri, [...context.diagnostics]]
+        };
+        return [action];
+    }
+}
@@ -0,0 +1,119 @@
+/**
+ * Diff 编辑还原
+ *
+ * 将用户在 Diff 右侧修改后的完整文件内容，转换回 Edit / Write / MultiEdit 的工具输入
+ */
+
+/**
+ * 一次文本替换
+ */
+export interface TextReplacement {
+    oldString: string;
+    newString: string;
+}
+
+/**
+ * 计算从 original 到 edited 的最小整行替换
+ *
+ * old_string 会按行向两侧扩展，直到在原文件中唯一出现，保证 Edit 工具能定位
+ *
+ * @returns 内容相同时返回 undefined
+ */
+export function computeReplacement(original: string, edited: string): TextReplacement | undefined {
+    if (original === edited) {
+        return undefined;
+    }
+
+    // 公共前缀 / 后缀（后缀不与前缀重叠）
+    const maxLength = Math.min(original.length, edited.length);
+    let prefix = 0;
+    while (prefix < maxLength && original[prefix] === edited[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < maxLength - prefix &&
+        original[original.length - 1 - suffix] === edited[edited.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    // 扩展到整行
+    let start = lineStart(original, prefix - 1);
+    let end = lineEnd(original, original.length - suffix);
+
+    // 扩展直到 old_string 在原文件中唯一
+    while (!isUnique(original, start, end) && (start > 0 || end < original.length)) {
+        if (start > 0) {
+            start = lineStart(original, start - 2);
+        }
+        if (end < original.length) {
+            end = lineEnd(original, end + 1);
+        }
+    }
+
+    // 两侧未改动的尾部长度一致
+    const tail = original.length - end;
+    return {
+        oldString: original.slice(start, end),
+        newString: edited.slice(start, edited.length - tail)
+    };
+}
+
+/**
+ * 根据修改后的内容生成新的工具输入
+ *
+ * @param original 原文件内容（不存在时为空字符串）
+ * @param edited 用户保存的内容
+ * @returns 无法表示（内容未变化或不支持的工具）时返回 undefined
+ */
+export function buildEditedToolInput(
+    toolName: string,
+    inputs: Record<string, unknown>,
+    original: string,
+    edited: string
+): Record<string, unknown> | undefined {
+    if (toolName === "Write") {
+        return { ...inputs, content: edited };
+    }
+
+    const replacement = computeReplacement(original, edited);
+    if (!replacement) {
+        return undefined;
+    }
+
+    switch (toolName) {
+        case "Edit":
+            return {
+                ...inputs,
+                old_string: replacement.oldString,
+                new_string: replacement.newString,
+                replace_all: false
+            };
+        case "MultiEdit":
+            return {
+                ...inputs,
+                edits: [{ old_string: replacement.oldString, new_string: replacement.newString }]
+            };
+        default:
+            return undefined;
+    }
+}
+
+function lineStart(text: string, from: number): number {
+    return from < 0 ? 0 : text.lastIndexOf("\n", from) + 1;
+}
+
+function lineEnd(text: string, from: number): number {
+    const index = text.indexOf("\n", from);
+    return index === -1 ? text.length : index;
+}
+
+function isUnique(text: string, start: number, end: number): boolean {
+    const needle = text.slice(start, end);
+    if (!needle) {
+        // 空 old_string 只能用于空文件
+        return text.length === 0;
+    }
+    return text.indexOf(needle) === start && text.indexOf(needle, start + 1) === -1;
+}
@@ -0,0 +1,23 @@
+/**
+ * 用户配置的环境变量（claudix.environmentVariables）
+ *
+ * ClaudeSdkService 启动 CLI 时注入，ClaudeAuthService 据此判断是否已通过环境变量配置凭证。
+ */
+
+import { IConfigurationService } from '../configurationService';
+
+/**
+ * 读取 claudix.environmentVariables（忽略没有名称的项）
+ */
+export function getCustomEnvironmentVariables(configService: IConfigurationService): Record<string, string> {
+    const customVars = configService.getValue<Array<{ name: string; value: string }>>("claudix.environmentVariables", []) ?? [];
+
+    const env: Record<string, string> = {};
+    for (const item of customVars) {
+        if (item.name) {
+            env[item.name] = item.value || "";
+        }
+    }
+
+    return env;
+}
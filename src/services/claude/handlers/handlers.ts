@@ -17,11 +17,35 @@ import type {
     GetClaudeStateResponse,
     GetMcpServersRequest,
     GetMcpServersResponse,
+    ListMcpServerConfigsRequest,
+    ListMcpServerConfigsResponse,
+    SaveMcpServerRequest,
+    SaveMcpServerResponse,
+    RemoveMcpServerRequest,
+    RemoveMcpServerResponse,
+    SetMcpServerEnabledRequest,
+    SetMcpServerEnabledResponse,
+    InspectMcpServerRequest,
+    InspectMcpServerResponse,
+    GetSettingsRequest,
+    GetSettingsResponse,
+    UpdateSettingsRequest,
+    UpdateSettingsResponse,
+    UpdatePermissionRulesRequest,
+    UpdatePermissionRulesResponse,
+    GetPermissionRulesRequest,
+    GetPermissionRulesResponse,
+    RemovePermissionRuleRequest,
+    RemovePermissionRuleResponse,
+    SettingsSnapshot,
+    EnvironmentVariable,
     GetAssetUrisRequest,
     GetAssetUrisResponse,
     OpenFileRequest,
     OpenFileResponse,
     GetCurrentSelectionResponse,
+    GetDiagnosticsRequest,
+    GetDiagnosticsResponse,
     ShowNotificationRequest,
     ShowNotificationResponse,
     NewConversationTabRequest,
@@ -34,6 +58,33 @@ import type {
     ListSessionsResponse,
     GetSessionRequest,
     GetSessionResponse,
+    ListSessionBranchesRequest,
+    ListSessionBranchesResponse,
+    RenameSessionRequest,
+    RenameSessionResponse,
+    UpdateSessionMetadataRequest,
+    UpdateSessionMetadataResponse,
+    DeleteSessionRequest,
+    DeleteSessionResponse,
+    GetForkPointRequest,
+    GetForkPointResponse,
+    RewindCheckpointRequest,
+    RewindCheckpointResponse,
+    ExportSessionRequest,
+    ExportSessionResponse,
+    SavePlanRequest,
+    SavePlanResponse,
+    GetUsageReportRequest,
+    GetUsageReportResponse,
+    ExportUsageCsvRequest,
+    ExportUsageCsvResponse,
+    OpenUsageDashboardRequest,
+    OpenUsageDashboardResponse,
+    EditSessionBudgetRequest,
+    EditSessionBudgetResponse,
+    SessionBudget,
+    SearchSessionsRequest,
+    SearchSessionsResponse,
     ExecRequest,
     ExecResponse,
     ListFilesRequest,
@@ -44,12 +95,14 @@ import type {
     OpenContentResponse,
     OpenURLRequest,
     OpenURLResponse,
-    // GetAuthStatusRequest,
-    // GetAuthStatusResponse,
-    // LoginRequest,
-    // LoginResponse,
-    // SubmitOAuthCodeRequest,
-    // SubmitOAuthCodeResponse,
+    GetAuthStatusRequest,
+    GetAuthStatusResponse,
+    LoginRequest,
+    LoginResponse,
+    SubmitOAuthCodeRequest,
+    SubmitOAuthCodeResponse,
+    LogoutRequest,
+    LogoutResponse,
     OpenConfigFileRequest,
     OpenConfigFileResponse,
     OpenClaudeInTerminalRequest,
@@ -58,6 +111,19 @@ import type {
 import type { HandlerContext } from './types';
 import type { PermissionMode, SDKUserMessage } from '@anthropic-ai/claude-agent-sdk';
 import { AsyncStream } from '../transport/AsyncStream';
+import { validateEnvironmentVariables } from '../../../shared/settingsValidation';
+import { THINKING_LEVELS, normalizeThinkingLevel } from '../../../shared/thinkingLevels';
+import { computeReplacement } from '../diffEdits';
+import { getSessionRoots } from '../sessionRoots';
+import { collectDiagnostics } from '../diagnostics';
+import { getPlanFileName } from '../planFiles';
+import { mergeMcpServerStatus } from '../ClaudeMcpService';
+
+/**
+ * 可作为默认值的权限模式
+ */
+const PERMISSION_MODES: PermissionMode[] = ['default', 'acceptEdits', 'plan', 'bypassPermissions'];
+
 /**
  * 初始化请求
  */
@@ -65,12 +131,12 @@ export async function handleInit(
     _request: InitRequest,
     context: HandlerContext
 ): Promise<InitResponse> {
-    const { configService, workspaceService, logService, agentService } = context;
+    const { configService, workspaceService, logService, agentService, authService } = context;
 
     logService.info('[handleInit] 处理初始化请求');
 
-    // TODO: 从 AuthManager 获取认证状态
-    // const authStatus = null;
+    // 获取认证状态（检测失败时交给 CLI 报告）
+    const authStatus = await authService.getStatus().catch(() => null);
 
     // 获取模型设置
     const modelSetting = configService.getValue<string>('claudix.selectedModel') || 'default';
@@ -78,21 +144,25 @@ export async function handleInit(
     // 获取默认工作目录
     const defaultCwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
 
-    // TODO: 从配置获取 openNewInTab
-    const openNewInTab = false;
+    // 新建对话时是否在编辑器标签中打开
+    const openNewInTab = configService.getValue<boolean>('claudix.openNewInTab', false) ?? false;
 
-    // 获取 thinking level (默认值)
-    const thinkingLevel = 'default_on';
+    // 获取 thinking level 与默认权限模式
+    const thinkingLevel = normalizeThinkingLevel(configService.getValue<string>('claudix.thinkingLevel'));
+    const defaultPermissionMode = configService.getValue<PermissionMode>('claudix.defaultPermissionMode') || 'default';
+    const attachActiveFileErrors = configService.getValue<boolean>('claudix.attachActiveFileErrors', false) ?? false;
 
     return {
         type: "init_response",
         state: {
             defaultCwd,
             openNewInTab,
-            // authStatus,
+            authStatus,
             modelSetting,
             platform: process.platform,
-            thinkingLevel
+            thinkingLevel,
+            defaultPermissionMode,
+            attachActiveFileErrors
         }
     };
 }
@@ -124,9 +194,211 @@ export async function handleGetMcpServers(
     context: HandlerContext,
     channelId?: string
 ): Promise<GetMcpServersResponse> {
+    if (!channelId) {
+        throw new Error('channelId is required for get_mcp_servers');
+    }
     return await getMcpServers(context, channelId);
 }
 
+/**
+ * 列出 MCP 服务器配置（指定 channel 且工作目录相同时合并该会话中的连接状态）
+ */
+export async function handleListMcpServerConfigs(
+    request: ListMcpServerConfigsRequest,
+    context: HandlerContext,
+    channelId?: string
+): Promise<ListMcpServerConfigsResponse> {
+    const { mcpService, workspaceService, agentService } = context;
+    const channel = channelId ? agentService.getChannel(channelId) : undefined;
+    const cwd = request.cwd || channel?.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    const servers = await mcpService.listServers(cwd);
+    const { mcpServers } = channelId && channel?.cwd === cwd
+        ? await getMcpServers(context, channelId)
+        : { mcpServers: [] };
+
+    return {
+        type: "list_mcp_server_configs_response",
+        servers: mergeMcpServerStatus(servers, mcpServers),
+        cwd,
+        folders: (workspaceService.getWorkspaceFolders() ?? []).map(folder => ({ name: folder.name, cwd: folder.uri.fsPath }))
+    };
+}
+
+/**
+ * 新增或更新 MCP 服务器
+ */
+export async function handleSaveMcpServer(
+    request: SaveMcpServerRequest,
+    context: HandlerContext
+): Promise<SaveMcpServerResponse> {
+    const { mcpService, workspaceService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    await mcpService.saveServer(cwd, request.scope, request.name, request.config, request.previous);
+
+    return { type: "save_mcp_server_response" };
+}
+
+/**
+ * 删除 MCP 服务器
+ */
+export async function handleRemoveMcpServer(
+    request: RemoveMcpServerRequest,
+    context: HandlerContext
+): Promise<RemoveMcpServerResponse> {
+    const { mcpService, workspaceService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    await mcpService.removeServer(cwd, request.scope, request.name);
+
+    return { type: "remove_mcp_server_response" };
+}
+
+/**
+ * 启用 / 禁用 MCP 服务器
+ */
+export async function handleSetMcpServerEnabled(
+    request: SetMcpServerEnabledRequest,
+    context: HandlerContext
+): Promise<SetMcpServerEnabledResponse> {
+    const { mcpService, workspaceService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    await mcpService.setServerEnabled(cwd, request.name, request.enabled);
+
+    return { type: "set_mcp_server_enabled_response" };
+}
+
+/**
+ * 连接 MCP 服务器，获取工具列表和 stderr
+ */
+export async function handleInspectMcpServer(
+    request: InspectMcpServerRequest,
+    context: HandlerContext,
+    signal: AbortSignal
+): Promise<InspectMcpServerResponse> {
+    const { mcpService, workspaceService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    return {
+        type: "inspect_mcp_server_response",
+        inspection: await mcpService.inspectServer(cwd, request.scope, request.name, signal)
+    };
+}
+
+/**
+ * 获取设置页快照
+ */
+export async function handleGetSettings(
+    _request: GetSettingsRequest,
+    context: HandlerContext
+): Promise<GetSettingsResponse> {
+    return {
+        type: "get_settings_response",
+        settings: await getSettingsSnapshot(context)
+    };
+}
+
+/**
+ * 更新 VS Code 配置项
+ */
+export async function handleUpdateSettings(
+    request: UpdateSettingsRequest,
+    context: HandlerContext
+): Promise<UpdateSettingsResponse> {
+    const { configService, logService } = context;
+    const { changes } = request;
+
+    // 设置中只保存命名等级，自定义 token 数仅用于单个会话
+    if (changes.thinkingLevel !== undefined && !(THINKING_LEVELS as readonly string[]).includes(changes.thinkingLevel)) {
+        throw new Error(`Invalid thinking level: ${changes.thinkingLevel}`);
+    }
+
+    if (changes.defaultPermissionMode !== undefined && !PERMISSION_MODES.includes(changes.defaultPermissionMode)) {
+        throw new Error(`Invalid permission mode: ${changes.defaultPermissionMode}`);
+    }
+
+    if (changes.environmentVariables !== undefined) {
+        const errors = validateEnvironmentVariables(changes.environmentVariables);
+        if (errors.length > 0) {
+            throw new Error(errors.join("\n"));
+        }
+    }
+
+    if (changes.selectedModel !== undefined) {
+        await configService.updateValue('claudix.selectedModel', changes.selectedModel.trim() || 'default');
+    }
+    if (changes.thinkingLevel !== undefined) {
+        await configService.updateValue('claudix.thinkingLevel', changes.thinkingLevel);
+    }
+    if (changes.defaultPermissionMode !== undefined) {
+        await configService.updateValue('claudix.defaultPermissionMode', changes.defaultPermissionMode);
+    }
+    if (changes.environmentVariables !== undefined) {
+        await configService.updateValue('claudix.environmentVariables', changes.environmentVariables);
+    }
+
+    logService.info(`[handleUpdateSettings] 已更新: ${Object.keys(changes).join(', ')}`);
+
+    return {
+        type: "update_settings_response",
+        settings: await getSettingsSnapshot(context)
+    };
+}
+
+/**
+ * 更新 settings.json 中的权限规则
+ */
+export async function handleUpdatePermissionRules(
+    request: UpdatePermissionRulesRequest,
+    context: HandlerContext
+): Promise<UpdatePermissionRulesResponse> {
+    const { settingsService, workspaceService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    await settingsService.setPermissionRules(cwd, request.scope, request.allow, request.deny);
+
+    return {
+        type: "update_permission_rules_response",
+        settings: await getSettingsSnapshot(context)
+    };
+}
+
+/**
+ * 读取某个工作目录下的权限规则
+ */
+export async function handleGetPermissionRules(
+    request: GetPermissionRulesRequest,
+    context: HandlerContext
+): Promise<GetPermissionRulesResponse> {
+    const { settingsService, workspaceService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    return {
+        type: "get_permission_rules_response",
+        permissionRules: await settingsService.getPermissionRules(cwd)
+    };
+}
+
+/**
+ * 删除 settings.json 中的一条权限规则
+ */
+export async function handleRemovePermissionRule(
+    request: RemovePermissionRuleRequest,
+    context: HandlerContext
+): Promise<RemovePermissionRuleResponse> {
+    const { settingsService, workspaceService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    await settingsService.removePermissionRule(cwd, request.scope, request.behavior, request.rule);
+
+    return {
+        type: "remove_permission_rule_response",
+        permissionRules: await settingsService.getPermissionRules(cwd)
+    };
+}
+
 /**
  * 获取资源 URI
  */
@@ -194,19 +466,28 @@ export async function handleOpenFile(
 export async function handleGetCurrentSelection(
     context: HandlerContext
 ): Promise<GetCurrentSelectionResponse> {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor || editor.selection.isEmpty || editor.document.uri.scheme !== "file") {
+    const editor = context.tabsAndEditorsService.getActiveTextEditor();
+    if (!editor || editor.document.uri.scheme !== "file") {
         return {
             type: "get_current_selection_response",
-            selection: null
+            selection: null,
+            activeFile: null
         };
     }
 
     const document = editor.document;
     const selection = editor.selection;
+    if (selection.isEmpty) {
+        return {
+            type: "get_current_selection_response",
+            selection: null,
+            activeFile: document.uri.fsPath
+        };
+    }
 
     return {
         type: "get_current_selection_response",
+        activeFile: document.uri.fsPath,
         selection: {
             filePath: document.uri.fsPath,
             startLine: selection.start.line + 1,
@@ -218,6 +499,19 @@ export async function handleGetCurrentSelection(
     };
 }
 
+/**
+ * 获取诊断信息
+ */
+export async function handleGetDiagnostics(
+    request: GetDiagnosticsRequest,
+    _context: HandlerContext
+): Promise<GetDiagnosticsResponse> {
+    return {
+        type: "get_diagnostics_response",
+        diagnostics: collectDiagnostics(request.scope, request.errorsOnly)
+    };
+}
+
 /**
  * 显示通知
  */
@@ -248,19 +542,19 @@ export async function handleShowNotification(
 }
 
 /**
- * 新建会话标签页（聚焦侧边栏）
+ * 在新的编辑器标签中打开对话
  */
 export async function handleNewConversationTab(
-    _request: NewConversationTabRequest,
+    request: NewConversationTabRequest,
     context: HandlerContext
 ): Promise<NewConversationTabResponse> {
-    const { logService } = context;
+    const { logService, webViewService } = context;
 
     try {
-        await vscode.commands.executeCommand("claudix.chatView.focus");
+        webViewService.openChatTab({ initialPrompt: request.initialPrompt });
     } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
-        logService.warn(`Failed to focus chat view: ${message}`);
+        logService.warn(`Failed to open conversation tab: ${message}`);
     }
     return {
         type: "new_conversation_tab_response"
@@ -268,12 +562,15 @@ export async function handleNewConversationTab(
 }
 
 /**
- * 重命名标签（目前仅占位）
+ * 重命名发起请求的编辑器标签
  */
 export async function handleRenameTab(
-    _request: RenameTabRequest,
+    request: RenameTabRequest,
     context: HandlerContext
 ): Promise<RenameTabResponse> {
+    if (request.instanceId) {
+        context.webViewService.renameEditorPage(request.instanceId, request.title);
+    }
     return {
         type: "rename_tab_response"
     };
@@ -288,7 +585,7 @@ export async function handleOpenDiff(
     signal: AbortSignal
 ): Promise<OpenDiffResponse> {
     const { logService, workspaceService, fileSystemService } = context;
-    const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
 
     logService.info(`Opening diff for: ${request.originalFilePath}`);
 
@@ -302,17 +599,13 @@ export async function handleOpenDiff(
         };
     }
 
-    const rightPath = await prepareDiffRightFile(originalPath, fallbackNewPath, request.edits, context);
-
-    const leftExists = await fileSystemService.pathExists(originalPath);
-    const leftPath = leftExists
-        ? originalPath
-        : await fileSystemService.createTempFile(path.basename(request.originalFilePath || request.newFilePath || "untitled"), "");
-
-    const leftUri = vscode.Uri.file(leftPath);
-    const rightUri = vscode.Uri.file(rightPath);
-
-    const diffTitle = `${path.basename(request.originalFilePath || request.newFilePath || rightPath)} (Claude)`;
+    const { leftUri, rightUri, title: diffTitle } = await prepareDiff(
+        originalPath,
+        fallbackNewPath,
+        request.edits,
+        request.originalFilePath || request.newFilePath,
+        context
+    );
 
     await vscode.commands.executeCommand(
         "vscode.diff",
@@ -322,12 +615,79 @@ export async function handleOpenDiff(
         { preview: true }
     );
 
+    // 右侧可编辑：等待用户保存或关闭，再把最终内容还原为编辑
+    const document = await vscode.workspace.openTextDocument(rightUri);
+    const proposed = document.getText();
+    const finalText = await waitForDocumentEdits(document, signal);
+
+    if (finalText === proposed) {
+        return {
+            type: "open_diff_response",
+            newEdits: request.edits
+        };
+    }
+
+    const original = await fs.promises.readFile(leftUri.fsPath, "utf8");
+    const replacement = computeReplacement(original, finalText);
+    logService.info(`[handleOpenDiff] 用户修改了 Diff 内容: ${request.originalFilePath}`);
+
     return {
         type: "open_diff_response",
-        newEdits: request.edits
+        newEdits: replacement ? [replacement] : []
     };
 }
 
+/**
+ * 为 Edit / Write / MultiEdit 权限请求准备 Diff 两侧文件
+ *
+ * @param cwd 发起请求的会话工作目录（相对路径据此解析）
+ * @returns 不是编辑类工具或缺少 file_path 时返回 undefined
+ */
+export async function preparePermissionDiff(
+    toolName: string,
+    inputs: Record<string, unknown>,
+    cwd: string,
+    context: HandlerContext
+): Promise<{ leftUri: vscode.Uri; rightUri: vscode.Uri; title: string; originalContent: string } | undefined> {
+    const { fileSystemService } = context;
+    const filePath = typeof inputs.file_path === "string" ? inputs.file_path : undefined;
+    if (!filePath) {
+        return undefined;
+    }
+
+    const originalPath = fileSystemService.resolveFilePath(filePath, cwd);
+    const originalContent = await fileSystemService.pathExists(originalPath)
+        ? await fs.promises.readFile(originalPath, "utf8")
+        : "";
+
+    let edits: OpenDiffRequest["edits"];
+    switch (toolName) {
+        case "Edit":
+            edits = [{
+                oldString: String(inputs.old_string ?? ""),
+                newString: String(inputs.new_string ?? ""),
+                replaceAll: inputs.replace_all === true
+            }];
+            break;
+        case "MultiEdit":
+            edits = (Array.isArray(inputs.edits) ? inputs.edits : []).map((edit: any) => ({
+                oldString: String(edit?.old_string ?? ""),
+                newString: String(edit?.new_string ?? ""),
+                replaceAll: edit?.replace_all === true
+            }));
+            break;
+        case "Write":
+            // Write 覆盖整个文件：以原内容为 oldString 整体替换
+            edits = [{ oldString: originalContent, newString: String(inputs.content ?? "") }];
+            break;
+        default:
+            return undefined;
+    }
+
+    const diff = await prepareDiff(originalPath, undefined, edits, filePath, context);
+    return { ...diff, originalContent };
+}
+
 /**
  * 列出历史会话
  */
@@ -339,18 +699,28 @@ export async function handleListSessions(
 
     try {
         const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
-        const sessions = await sessionService.listSessions(cwd);
-
-        // 添加 worktree 和 isCurrentWorkspace 字段
-        const sessionsWithMeta = sessions.map(session => ({
-            ...session,
-            worktree: undefined,
-            isCurrentWorkspace: true
+        const roots = await getSessionRoots(workspaceService.getWorkspaceFolders() ?? [], cwd);
+
+        // 列出每个工作区文件夹和兄弟 worktree 的会话，并标记所属目录
+        const sessionLists = await Promise.all(roots.map(async root => {
+            try {
+                const sessions = await sessionService.listSessions(root.cwd);
+                return sessions.map(session => ({
+                    ...session,
+                    cwd: root.cwd,
+                    folderName: root.folderName,
+                    worktree: root.worktree,
+                    isCurrentWorkspace: root.isCurrentWorkspace
+                }));
+            } catch (error) {
+                logService.warn(`Failed to list sessions in ${root.cwd}: ${error}`);
+                return [];
+            }
         }));
 
         return {
             type: "list_sessions_response",
-            sessions: sessionsWithMeta
+            sessions: sessionLists.flat().sort((a, b) => b.lastModified - a.lastModified)
         };
     } catch (error) {
         logService.error(`Failed to list sessions: ${error}`);
@@ -371,8 +741,8 @@ export async function handleGetSession(
     const { logService, sessionService, workspaceService } = context;
 
     try {
-        const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
-        const messages = await sessionService.getSession(request.sessionId, cwd);
+        const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+        const messages = await sessionService.getSession(request.sessionId, cwd, request.leafUuid);
 
         return {
             type: "get_session_response",
@@ -387,6 +757,268 @@ export async function handleGetSession(
     }
 }
 
+/**
+ * 重命名会话
+ */
+export async function handleRenameSession(
+    request: RenameSessionRequest,
+    context: HandlerContext
+): Promise<RenameSessionResponse> {
+    const { sessionService, workspaceService } = context;
+
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const metadata = await sessionService.updateMetadata(request.sessionId, { title: request.title }, cwd);
+    return {
+        type: "rename_session_response",
+        metadata
+    };
+}
+
+/**
+ * 置顶、标签、归档
+ */
+export async function handleUpdateSessionMetadata(
+    request: UpdateSessionMetadataRequest,
+    context: HandlerContext
+): Promise<UpdateSessionMetadataResponse> {
+    const { sessionService, workspaceService } = context;
+
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const { pinned, tags, archived } = request;
+    const metadata = await sessionService.updateMetadata(request.sessionId, { pinned, tags, archived }, cwd);
+    return {
+        type: "update_session_metadata_response",
+        metadata
+    };
+}
+
+/**
+ * 删除会话
+ */
+export async function handleDeleteSession(
+    request: DeleteSessionRequest,
+    context: HandlerContext
+): Promise<DeleteSessionResponse> {
+    const { logService, sessionService, workspaceService, checkpointService } = context;
+
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    await sessionService.deleteSession(request.sessionId, cwd);
+    // 会话删除后检查点已无法使用
+    await checkpointService.deleteCheckpoints(request.sessionId);
+
+    logService.info(`[handleDeleteSession] 已删除会话 ${request.sessionId}`);
+    return { type: "delete_session_response" };
+}
+
+/**
+ * 列出会话分支
+ */
+export async function handleListSessionBranches(
+    request: ListSessionBranchesRequest,
+    context: HandlerContext
+): Promise<ListSessionBranchesResponse> {
+    const { sessionService, workspaceService } = context;
+
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const branches = await sessionService.listBranches(request.sessionId, cwd);
+
+    return {
+        type: "list_session_branches_response",
+        branches
+    };
+}
+
+/**
+ * 获取分叉位置
+ */
+export async function handleGetForkPoint(
+    request: GetForkPointRequest,
+    context: HandlerContext
+): Promise<GetForkPointResponse> {
+    const { sessionService, workspaceService } = context;
+
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const resumeSessionAt = await sessionService.getForkPoint(request.messageUuid, request.position, cwd);
+
+    return {
+        type: "get_fork_point_response",
+        resumeSessionAt
+    };
+}
+
+/**
+ * 回退文件检查点
+ */
+export async function handleRewindCheckpoint(
+    request: RewindCheckpointRequest,
+    context: HandlerContext
+): Promise<RewindCheckpointResponse> {
+    const { logService, sessionService, workspaceService, checkpointService } = context;
+
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const result = await checkpointService.rewind(
+        request.sessionId,
+        request.userMessageUuid,
+        sessionService.getTranscriptPath(request.sessionId, cwd)
+    );
+
+    logService.info(`[handleRewindCheckpoint] 已回退 ${request.sessionId} 到 ${request.userMessageUuid}`);
+    return {
+        type: "rewind_checkpoint_response",
+        ...result
+    };
+}
+
+/**
+ * 全文搜索会话记录
+ */
+export async function handleSearchSessions(
+    request: SearchSessionsRequest,
+    context: HandlerContext
+): Promise<SearchSessionsResponse> {
+    const { workspaceService, searchService } = context;
+
+    const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const roots = await getSessionRoots(workspaceService.getWorkspaceFolders() ?? [], cwd);
+    const limit = request.limit ?? 50;
+
+    const resultLists = await Promise.all(roots.map(root => searchService.search(request.query, root.cwd, limit)));
+    const results = resultLists
+        .flat()
+        .sort((a, b) => b.lastModified - a.lastModified)
+        .slice(0, limit);
+    return {
+        type: "search_sessions_response",
+        results
+    };
+}
+
+/**
+ * 导出会话（格式、选项和保存位置由用户在 VS Code 对话框中选择）
+ */
+export async function handleExportSession(
+    request: ExportSessionRequest,
+    context: HandlerContext
+): Promise<ExportSessionResponse> {
+    const filePath = await context.exportService.exportSession(request.sessionId, request.leafUuid, request.cwd);
+    return {
+        type: "export_session_response",
+        filePath
+    };
+}
+
+/**
+ * 保存计划为 Markdown 文件（默认放在会话工作目录，保存位置由用户确认），保存后在编辑器中打开
+ */
+export async function handleSavePlan(
+    request: SavePlanRequest,
+    context: HandlerContext
+): Promise<SavePlanResponse> {
+    const { logService, workspaceService, fileSystemService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(cwd, getPlanFileName(request.plan))),
+        filters: { "Markdown": ["md"] }
+    });
+    if (!target) {
+        return { type: "save_plan_response" };
+    }
+
+    const content = request.plan.endsWith("\n") ? request.plan : `${request.plan}\n`;
+    await fileSystemService.writeFile(target, new TextEncoder().encode(content));
+    logService.info(`[handleSavePlan] 已保存计划: ${target.fsPath}`);
+
+    const document = await vscode.workspace.openTextDocument(target);
+    await vscode.window.showTextDocument(document, { preview: false, preserveFocus: true });
+
+    return {
+        type: "save_plan_response",
+        filePath: target.fsPath
+    };
+}
+
+/**
+ * 获取用量统计
+ */
+export async function handleGetUsageReport(
+    request: GetUsageReportRequest,
+    context: HandlerContext
+): Promise<GetUsageReportResponse> {
+    const report = await context.usageService.getReport(request.scope, request.since);
+    return {
+        type: "get_usage_report_response",
+        report
+    };
+}
+
+/**
+ * 导出用量明细（保存位置由用户在 VS Code 对话框中选择）
+ */
+export async function handleExportUsageCsv(
+    request: ExportUsageCsvRequest,
+    context: HandlerContext
+): Promise<ExportUsageCsvResponse> {
+    const filePath = await context.usageService.exportCsv(request.scope, request.since);
+    return {
+        type: "export_usage_csv_response",
+        filePath
+    };
+}
+
+/**
+ * 在编辑器中打开用量统计页
+ */
+export async function handleOpenUsageDashboard(
+    _request: OpenUsageDashboardRequest,
+    _context: HandlerContext
+): Promise<OpenUsageDashboardResponse> {
+    await vscode.commands.executeCommand("claudix.openUsage");
+    return { type: "open_usage_dashboard_response" };
+}
+
+/**
+ * 编辑会话预算（依次输入费用、输出 token 和回合数；留空使用工作区默认值，0 表示不限制）
+ */
+export async function handleEditSessionBudget(
+    request: EditSessionBudgetRequest,
+    context: HandlerContext
+): Promise<EditSessionBudgetResponse> {
+    const { configService } = context;
+    const fields: Array<{ key: keyof SessionBudget; label: string; setting: string }> = [
+        { key: "maxCostUsd", label: "Maximum cost (USD)", setting: "claudix.budget.maxCostUsd" },
+        { key: "maxOutputTokens", label: "Maximum output tokens", setting: "claudix.budget.maxOutputTokens" },
+        { key: "maxTurns", label: "Maximum turns", setting: "claudix.budget.maxTurns" }
+    ];
+
+    const budget: SessionBudget = {};
+    for (const [index, field] of fields.entries()) {
+        const fallback = configService.getValue<number>(field.setting, 0) || 0;
+        const current = request.budget[field.key];
+        const input = await vscode.window.showInputBox({
+            title: `Session Budget (${index + 1}/${fields.length})`,
+            prompt: `${field.label}. Leave empty to use the workspace default (${fallback || "unlimited"}), 0 for unlimited.`,
+            value: current === undefined ? "" : String(current),
+            validateInput: value => {
+                const trimmed = value.trim();
+                return trimmed === "" || (Number.isFinite(Number(trimmed)) && Number(trimmed) >= 0)
+                    ? undefined
+                    : "Enter a non-negative number";
+            }
+        });
+
+        // Esc 取消整个编辑
+        if (input === undefined) {
+            return { type: "edit_session_budget_response" };
+        }
+        if (input.trim() !== "") {
+            budget[field.key] = Number(input.trim());
+        }
+    }
+
+    return { type: "edit_session_budget_response", budget };
+}
+
 /**
  * 执行命令
  */
@@ -550,60 +1182,88 @@ export async function handleOpenURL(
 /**
  * 获取认证状态
  */
-// export async function handleGetAuthStatus(
-//     _request: GetAuthStatusRequest,
-//     context: HandlerContext
-// ): Promise<GetAuthStatusResponse> {
-//     // TODO: 实现认证状态获取
-//     // const status = authManager?.getAuthStatus();
-
-//     return {
-//         type: "get_auth_status_response",
-//         status: null
-//     };
-// }
+export async function handleGetAuthStatus(
+    _request: GetAuthStatusRequest,
+    context: HandlerContext
+): Promise<GetAuthStatusResponse> {
+    return {
+        type: "get_auth_status_response",
+        status: await context.authService.getStatus()
+    };
+}
 
 /**
  * 登录
+ *
+ * 凭证保存后由 ClaudeAgentService 关闭现有 channel（closeAllChannelsWithCredentialChange）
  */
-// export async function handleLogin(
-//     request: LoginRequest,
-//     context: HandlerContext
-// ): Promise<LoginResponse> {
-//     const { logService, agentService } = context;
-//     const { method } = request;
+export async function handleLogin(
+    request: LoginRequest,
+    context: HandlerContext
+): Promise<LoginResponse> {
+    const { logService, authService, agentService } = context;
+    const { method } = request;
+
+    logService.info(`[handleLogin] 登录方式: ${method}`);
+
+    if (method === "apiKey") {
+        // 在 VS Code 输入框中输入，密钥不经过 WebView
+        const apiKey = await vscode.window.showInputBox({
+            title: "Claudix: Anthropic API Key",
+            prompt: "The key is stored in VS Code secret storage and passed to Claude when it starts.",
+            placeHolder: "sk-ant-...",
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : "Enter an API key"
+        });
+        if (apiKey) {
+            await authService.setApiKey(apiKey);
+        }
+    } else {
+        const url = authService.startOAuthLogin(method);
+        agentService.notifyAuthUrl(url, method);
+        await vscode.env.openExternal(vscode.Uri.parse(url));
+    }
+
+    return {
+        type: "login_response",
+        auth: await authService.getStatus()
+    };
+}
 
-//     // TODO: 实现认证流程
-//     logService.info(`Login requested with method: ${method}`);
+/**
+ * 提交 OAuth 代码
+ */
+export async function handleSubmitOAuthCode(
+    request: SubmitOAuthCodeRequest,
+    context: HandlerContext
+): Promise<SubmitOAuthCodeResponse> {
+    const { authService } = context;
 
-//     // 关闭所有现有通道
-//     await agentService.closeAllChannelsWithCredentialChange();
+    await authService.submitOAuthCode(request.code);
 
-//     return {
-//         type: "login_response",
-//         auth: {
-//             authenticated: false
-//         }
-//     };
-// }
+    return {
+        type: "submit_oauth_code_response",
+        auth: await authService.getStatus()
+    };
+}
 
 /**
- * 提交 OAuth 代码
+ * 退出登录
  */
-// export async function handleSubmitOAuthCode(
-//     request: SubmitOAuthCodeRequest,
-//     context: HandlerContext
-// ): Promise<SubmitOAuthCodeResponse> {
-//     const { logService } = context;
-//     const { code } = request;
+export async function handleLogout(
+    _request: LogoutRequest,
+    context: HandlerContext
+): Promise<LogoutResponse> {
+    const { authService } = context;
 
-//     // TODO: 实现 OAuth 代码提交
-//     logService.info(`OAuth code submitted: ${code.substring(0, 10)}...`);
+    await authService.logout();
 
-//     return {
-//         type: "submit_oauth_code_response"
-//     };
-// }
+    return {
+        type: "logout_response",
+        auth: await authService.getStatus()
+    };
+}
 
 /**
  * 打开配置文件
@@ -637,20 +1297,26 @@ export async function handleOpenConfigFile(
  * 在终端打开 Claude
  */
 export async function handleOpenClaudeInTerminal(
-    _request: OpenClaudeInTerminalRequest,
+    request: OpenClaudeInTerminalRequest,
     context: HandlerContext
 ): Promise<OpenClaudeInTerminalResponse> {
-    const { workspaceService } = context;
-    const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+    const { logService, workspaceService, terminalService, sdkService } = context;
+    const cwd = request.cwd || workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
 
     try {
-        const terminal = vscode.window.createTerminal({
+        // 与 SDK 使用同一个 CLI 和环境变量，两边可以交替继续同一个对话
+        const command = sdkService.getCliCommand(request.sessionId ? ["--resume", request.sessionId] : []);
+        logService.info(`[Terminal] ${command.executable} ${command.args.join(" ")}`);
+
+        const terminal = terminalService.createTerminal({
             name: "Claude Code",
-            cwd
+            cwd,
+            shellPath: command.executable,
+            shellArgs: command.args,
+            env: await sdkService.getTerminalEnvironment()
         });
 
         terminal.show();
-        terminal.sendText("claude --help");
 
         return { type: "open_claude_in_terminal_response" };
     } catch (error) {
@@ -700,27 +1366,43 @@ async function loadConfig(context: HandlerContext): Promise<any> {
     return config;
 }
 
+/**
+ * 汇总设置页需要的所有配置
+ */
+async function getSettingsSnapshot(context: HandlerContext): Promise<SettingsSnapshot> {
+    const { configService, settingsService, workspaceService } = context;
+    const cwd = workspaceService.getDefaultWorkspaceFolder()?.uri.fsPath || process.cwd();
+
+    return {
+        selectedModel: configService.getValue<string>('claudix.selectedModel') || 'default',
+        thinkingLevel: normalizeThinkingLevel(configService.getValue<string>('claudix.thinkingLevel')),
+        defaultPermissionMode: configService.getValue<PermissionMode>('claudix.defaultPermissionMode') || 'default',
+        environmentVariables: configService.getValue<EnvironmentVariable[]>('claudix.environmentVariables') || [],
+        permissionRules: await settingsService.getPermissionRules(cwd)
+    };
+}
+
 /**
  * 获取 MCP 服务器状态
  */
 async function getMcpServers(
     context: HandlerContext,
-    channelId?: string
+    channelId: string
 ): Promise<GetMcpServersResponse> {
     const { logService, agentService } = context;
 
-    if (!channelId) {
-        throw new Error('Channel ID is required');
+    const channel = agentService.getChannel(channelId);
+    if (!channel) {
+        return {
+            type: "get_mcp_servers_response",
+            mcpServers: []
+        };
     }
 
-    // TODO: 通过 agentService 获取 channel
-    // const channel = agentService.getChannel(channelId);
-
     try {
         return {
             type: "get_mcp_servers_response",
-            // mcpServers: await channel.query.mcpServerStatus?.() || []
-            mcpServers: []
+            mcpServers: await channel.query.mcpServerStatus() || []
         };
     } catch (error) {
         logService.error(`Error fetching MCP servers: ${error}`);
@@ -776,6 +1458,32 @@ function getAssetUris(context: HandlerContext): Record<string, { light: string;
 // 辅助方法
 // ============================================================================
 
+/**
+ * 准备 Diff 两侧文件：左侧为原文件（不存在时为空临时文件），右侧为应用编辑后的临时文件
+ */
+async function prepareDiff(
+    originalPath: string,
+    fallbackNewPath: string | undefined,
+    edits: OpenDiffRequest["edits"],
+    displayPath: string | undefined,
+    context: HandlerContext
+): Promise<{ leftUri: vscode.Uri; rightUri: vscode.Uri; title: string }> {
+    const { fileSystemService } = context;
+
+    const rightPath = await prepareDiffRightFile(originalPath, fallbackNewPath, edits, context);
+
+    const leftExists = await fileSystemService.pathExists(originalPath);
+    const leftPath = leftExists
+        ? originalPath
+        : await fileSystemService.createTempFile(path.basename(displayPath || "untitled"), "");
+
+    return {
+        leftUri: vscode.Uri.file(leftPath),
+        rightUri: vscode.Uri.file(rightPath),
+        title: `${path.basename(displayPath || rightPath)} (Claude)`
+    };
+}
+
 async function prepareDiffRightFile(
     originalPath: string,
     fallbackPath: string | undefined,
@@ -12,7 +12,14 @@ import { INotificationService } from '../../notificationService';
 import { ITerminalService } from '../../terminalService';
 import { ITabsAndEditorsService } from '../../tabsAndEditorsService';
 import { IClaudeSessionService } from '../ClaudeSessionService';
+import { IClaudeSearchService } from '../ClaudeSearchService';
 import { IClaudeSdkService } from '../ClaudeSdkService';
+import { IClaudeAuthService } from '../ClaudeAuthService';
+import { IClaudeMcpService } from '../ClaudeMcpService';
+import { IClaudeSettingsService } from '../ClaudeSettingsService';
+import { IClaudeCheckpointService } from '../ClaudeCheckpointService';
+import { IClaudeExportService } from '../ClaudeExportService';
+import { IClaudeUsageService } from '../ClaudeUsageService';
 import { IClaudeAgentService } from '../ClaudeAgentService';
 import { IWebViewService } from '../../webViewService';
 
@@ -29,7 +36,14 @@ export interface HandlerContext {
     terminalService: ITerminalService;
     tabsAndEditorsService: ITabsAndEditorsService;
     sessionService: IClaudeSessionService;
+    searchService: IClaudeSearchService;
     sdkService: IClaudeSdkService;
+    authService: IClaudeAuthService;
+    mcpService: IClaudeMcpService;
+    settingsService: IClaudeSettingsService;
+    checkpointService: IClaudeCheckpointService;
+    exportService: IClaudeExportService;
+    usageService: IClaudeUsageService;
     agentService: IClaudeAgentService;
     webViewService: IWebViewService;
 }
@@ -0,0 +1,27 @@
+/**
+ * 计划文件（ExitPlanMode 的计划保存为 Markdown）
+ */
+
+const MAX_NAME_LENGTH = 60;
+
+/**
+ * 计划标题：第一个 Markdown 标题，没有标题时取第一行非空文本
+ */
+export function getPlanTitle(plan: string): string | undefined {
+    const lines = plan.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+    const heading = lines.find(line => /^#{1,6}\s/.test(line)) ?? lines[0];
+    return heading?.replace(/^#{1,6}\s+/, "").trim() || undefined;
+}
+
+/**
+ * 默认文件名，例如 `plan-add-dark-mode.md`，标题中只保留字母和数字
+ */
+export function getPlanFileName(plan: string): string {
+    const name = (getPlanTitle(plan) ?? "")
+        .toLowerCase()
+        .replace(/^plan\b[:\s-]*/, "")
+        .replace(/[^\p{L}\p{N}]+/gu, "-")
+        .slice(0, MAX_NAME_LENGTH)
+        .replace(/^-+|-+$/g, "");
+    return name ? `plan-${name}.md` : "plan.md";
+}
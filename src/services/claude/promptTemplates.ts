@@ -0,0 +1,59 @@
+/**
+ * 编辑器命令的提示词模板
+ *
+ * 模板可在 claudix.promptTemplates 中覆盖（设置默认为空，未覆盖的命令使用这里的默认模板），支持以下占位符：
+ * - {file}：相对工作区的文件路径
+ * - {lines}：选中的行（例如 "lines 3-10"）
+ * - {language}：编辑器的语言 ID
+ */
+
+export type PromptTemplateId = "explain" | "refactor" | "writeTests" | "fixProblems";
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, string> = {
+    explain: "Explain what the selected code in {file} ({lines}) does, step by step.",
+    refactor: "Refactor the selected code in {file} ({lines}) to improve readability and maintainability without changing its behavior.",
+    writeTests: "Write unit tests for the selected code in {file} ({lines}), following the testing conventions already used in this project.",
+    fixProblems: "Fix the problems listed in these diagnostics."
+};
+
+export interface PromptTemplateVariables {
+    file?: string;
+    lines?: string;
+    language?: string;
+}
+
+/**
+ * 读取模板（用户设置为空或不是字符串时使用默认模板）
+ */
+export function getPromptTemplate(id: PromptTemplateId, overrides: Record<string, unknown> | undefined): string {
+    const override = overrides?.[id];
+    return typeof override === "string" && override.trim() ? override : DEFAULT_PROMPT_TEMPLATES[id];
+}
+
+/**
+ * 替换模板中的占位符（未知占位符保持原样）
+ */
+export function renderPromptTemplate(template: string, variables: PromptTemplateVariables): string {
+    return template.replace(/\{(file|lines|language)\}/g, (match, name: keyof PromptTemplateVariables) =>
+        variables[name] ?? match
+    );
+}
+
+/**
+ * 行范围的描述
+ */
+export function describeLines(startLine: number, endLine: number): string {
+    return startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+}
+
+/**
+ * 带行号的 @ 提及（例如 @src/index.ts#L3-10）
+ */
+export function formatLineMention(relativePath: string, startLine?: number, endLine?: number): string {
+    if (!startLine) {
+        return `@${relativePath}`;
+    }
+    return !endLine || endLine === startLine
+        ? `@${relativePath}#L${startLine}`
+        : `@${relativePath}#L${startLine}-${endLine}`;
+}
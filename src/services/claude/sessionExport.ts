@@ -0,0 +1,353 @@
+/**
+ * 会话导出
+ *
+ * 将 ClaudeSessionService.getSession 返回的消息整理为统一结构，
+ * 并渲染为 Markdown（工具调用为可折叠 details）、独立 HTML 文件或 JSON
+ */
+
+import { Marked } from 'marked';
+import type { ExportFormat, ExportOptions } from '../../shared/messages';
+import { MARKDOWN_STYLES } from '../../shared/markdownStyles';
+
+/**
+ * 导出的内容块
+ */
+export type ExportedBlock =
+    | { type: "text"; text: string }
+    | { type: "thinking"; text: string }
+    | { type: "image"; mediaType: string }
+    | { type: "tool_use"; id: string; name: string; input: unknown }
+    | { type: "tool_result"; toolUseId: string; content: string; isError: boolean };
+
+/**
+ * 导出的消息（连续的 assistant 消息与其工具结果合并为一条）
+ */
+export interface ExportedMessage {
+    role: "user" | "assistant";
+    blocks: ExportedBlock[];
+}
+
+/**
+ * 导出的会话
+ */
+export interface ExportedConversation {
+    sessionId: string;
+    title: string;
+    exportedAt: string;
+    messages: ExportedMessage[];
+}
+
+/**
+ * 各格式的文件扩展名
+ */
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+    markdown: "md",
+    html: "html",
+    json: "json"
+};
+
+/**
+ * HTML 中链接允许的协议（没有协议的相对地址和锚点也允许）
+ */
+const SAFE_URL_SCHEMES = new Set(["http", "https", "mailto"]);
+
+/**
+ * HTML 导出使用的 Markdown 渲染器：原始 HTML 按文本输出，只保留安全协议的链接，
+ * 图片显示为链接（导出的文件不加载外部资源）
+ */
+const markdown = new Marked({
+    gfm: true,
+    breaks: true,
+    renderer: {
+        html(token) {
+            return escapeHtml(token.text);
+        },
+        link(token) {
+            const text = this.parser.parseInline(token.tokens);
+            if (!isSafeUrl(token.href)) {
+                return text;
+            }
+            // 地址中的 & 也要转义，避免用字符实体绕过协议检查
+            const title = token.title ? ` title="${escapeHtml(token.title)}"` : "";
+            return `<a href="${escapeHtml(token.href)}"${title}>${text}</a>`;
+        },
+        image(token) {
+            const label = escapeHtml(token.text || token.href);
+            return isSafeUrl(token.href) ? `<a href="${escapeHtml(token.href)}">${label}</a>` : label;
+        }
+    }
+});
+
+/**
+ * 整理会话消息
+ */
+export function normalizeConversation(
+    sessionId: string,
+    title: string,
+    rawMessages: any[],
+    options: ExportOptions
+): ExportedConversation {
+    const messages: ExportedMessage[] = [];
+
+    for (const raw of rawMessages) {
+        if (raw?.type !== "user" && raw?.type !== "assistant") {
+            continue;
+        }
+
+        const blocks = normalizeContent(raw.message?.content).filter(block =>
+            (options.includeThinking || block.type !== "thinking") &&
+            (options.includeToolResults || block.type !== "tool_result")
+        );
+        if (blocks.length === 0) {
+            continue;
+        }
+
+        // 只有工具结果的 user 消息归入上一条 assistant 消息
+        const role = raw.type === "user" && blocks.every(block => block.type === "tool_result")
+            ? "assistant"
+            : raw.type;
+
+        const last = messages[messages.length - 1];
+        if (last && last.role === role && role === "assistant") {
+            last.blocks.push(...blocks);
+        } else {
+            messages.push({ role, blocks });
+        }
+    }
+
+    return {
+        sessionId,
+        title,
+        exportedAt: new Date().toISOString(),
+        messages
+    };
+}
+
+/**
+ * 按格式渲染
+ */
+export function renderConversation(conversation: ExportedConversation, format: ExportFormat): string {
+    switch (format) {
+        case "markdown":
+            return renderMarkdown(conversation);
+        case "html":
+            return renderHtml(conversation);
+        case "json":
+            return JSON.stringify(conversation, null, 2);
+    }
+}
+
+/**
+ * 渲染为 Markdown
+ */
+export function renderMarkdown(conversation: ExportedConversation): string {
+    const lines: string[] = [
+        `# ${conversation.title}`,
+        "",
+        `_Session \`${conversation.sessionId}\` · exported ${conversation.exportedAt}_`,
+        ""
+    ];
+
+    for (const message of conversation.messages) {
+        lines.push(`## ${message.role === "user" ? "User" : "Assistant"}`, "");
+
+        for (const block of message.blocks) {
+            switch (block.type) {
+                case "text":
+                    lines.push(block.text, "");
+                    break;
+                case "thinking":
+                    lines.push("<details>", "<summary>Thinking</summary>", "", block.text, "", "</details>", "");
+                    break;
+                case "image":
+                    lines.push(`_[image: ${block.mediaType}]_`, "");
+                    break;
+                case "tool_use":
+                    lines.push(
+                        "<details>",
+                        `<summary>${escapeHtml(toolSummary(block.name, block.input))}</summary>`,
+                        "",
+                        fence(JSON.stringify(block.input, null, 2), "json"),
+                        "",
+                        "</details>",
+                        ""
+                    );
+                    break;
+                case "tool_result":
+                    lines.push(
+                        "<details>",
+                        `<summary>${block.isError ? "Tool error" : "Tool result"}</summary>`,
+                        "",
+                        fence(block.content),
+                        "",
+                        "</details>",
+                        ""
+                    );
+                    break;
+            }
+        }
+    }
+
+    return lines.join("\n").replace(/\n{3,}/g, "\n\n").trimEnd() + "\n";
+}
+
+/**
+ * 渲染为独立的 HTML 文件（样式与 WebView 一致，不依赖外部资源）
+ */
+export function renderHtml(conversation: ExportedConversation): string {
+    const body = conversation.messages.map(message => {
+        const blocks = message.blocks.map(block => {
+            switch (block.type) {
+                case "text":
+                    return message.role === "assistant"
+                        ? `<div class="markdown-content">${markdown.parse(block.text, { async: false })}</div>`
+                        : `<div class="text">${escapeHtml(block.text)}</div>`;
+                case "thinking":
+                    return `<details class="thinking"><summary>Thinking</summary><div class="text">${escapeHtml(block.text)}</div></details>`;
+                case "image":
+                    return `<div class="meta">[image: ${escapeHtml(block.mediaType)}]</div>`;
+                case "tool_use":
+                    return `<details class="tool"><summary>${escapeHtml(toolSummary(block.name, block.input))}</summary><pre>${escapeHtml(JSON.stringify(block.input, null, 2))}</pre></details>`;
+                case "tool_result":
+                    return `<details class="tool${block.isError ? " error" : ""}"><summary>${block.isError ? "Tool error" : "Tool result"}</summary><pre>${escapeHtml(block.content)}</pre></details>`;
+            }
+        }).join("\n");
+        return `<section class="message ${message.role}">\n${blocks}\n</section>`;
+    }).join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>
+:root {
+  color-scheme: light dark;
+  --vscode-editor-background: #1e1e1e; --vscode-editor-foreground: #cccccc; --vscode-foreground: #cccccc;
+  --vscode-descriptionForeground: #9d9d9d; --vscode-input-background: #313131; --vscode-panel-border: #3c3c3c;
+  --vscode-errorForeground: #f48771; --vscode-textLink-foreground: #3794ff; --vscode-textLink-activeForeground: #4daafc;
+  --vscode-textBlockQuote-border: #616161; --vscode-textBlockQuote-background: #2b2b2b;
+  --vscode-editor-font-family: Menlo, Consolas, "Courier New", monospace;
+}
+@media (prefers-color-scheme: light) {
+  :root {
+    --vscode-editor-background: #ffffff; --vscode-editor-foreground: #3b3b3b; --vscode-foreground: #3b3b3b;
+    --vscode-descriptionForeground: #717171; --vscode-input-background: #f3f3f3; --vscode-panel-border: #e5e5e5;
+    --vscode-errorForeground: #c72e0f; --vscode-textLink-foreground: #005fb8; --vscode-textLink-activeForeground: #005fb8;
+    --vscode-textBlockQuote-border: #e5e5e5; --vscode-textBlockQuote-background: #f8f8f8;
+  }
+}
+body { margin: 0 auto; max-width: 860px; padding: 16px; background: var(--vscode-editor-background); color: var(--vscode-foreground); font: 13px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+h1 { font-size: 16px; margin: 0 0 4px; }
+.meta { color: var(--vscode-descriptionForeground); font-size: 11px; margin-bottom: 12px; }
+.message { margin-bottom: 8px; }
+.message.user { padding: 6px 8px; border: 1px solid var(--vscode-panel-border); border-radius: 6px; background: var(--vscode-input-background); }
+.text { white-space: pre-wrap; overflow-wrap: break-word; margin: 4px 0; }
+details { margin: 4px 0; border-left: 2px solid var(--vscode-panel-border); padding-left: 8px; }
+summary { cursor: pointer; color: var(--vscode-descriptionForeground); }
+details.error summary { color: var(--vscode-errorForeground); }
+details > pre { margin: 4px 0; padding: 6px 8px; overflow-x: auto; background: var(--vscode-input-background); border-radius: 4px; font: 12px/1.4 var(--vscode-editor-font-family); white-space: pre-wrap; }
+${MARKDOWN_STYLES}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<div class="meta">Session ${escapeHtml(conversation.sessionId)} · exported ${escapeHtml(conversation.exportedAt)}</div>
+${body}
+</body>
+</html>
+`;
+}
+
+function normalizeContent(content: unknown): ExportedBlock[] {
+    if (typeof content === "string") {
+        return content.trim() ? [{ type: "text", text: content }] : [];
+    }
+    if (!Array.isArray(content)) {
+        return [];
+    }
+
+    const blocks: ExportedBlock[] = [];
+    for (const block of content) {
+        switch (block?.type) {
+            case "text":
+                if (block.text?.trim()) {
+                    blocks.push({ type: "text", text: block.text });
+                }
+                break;
+            case "thinking":
+                if (block.thinking?.trim()) {
+                    blocks.push({ type: "thinking", text: block.thinking });
+                }
+                break;
+            case "image":
+                blocks.push({ type: "image", mediaType: block.source?.media_type ?? "image" });
+                break;
+            case "tool_use":
+                blocks.push({ type: "tool_use", id: block.id, name: block.name, input: block.input ?? {} });
+                break;
+            case "tool_result":
+                blocks.push({
+                    type: "tool_result",
+                    toolUseId: block.tool_use_id,
+                    content: stringifyToolResult(block.content),
+                    isError: !!block.is_error
+                });
+                break;
+        }
+    }
+    return blocks;
+}
+
+function stringifyToolResult(content: unknown): string {
+    if (typeof content === "string") {
+        return content;
+    }
+    if (Array.isArray(content)) {
+        return content
+            .map(item => item?.type === "text" ? item.text : `[${item?.type ?? "content"}]`)
+            .join("\n");
+    }
+    return content === undefined ? "" : JSON.stringify(content, null, 2);
+}
+
+/**
+ * 工具调用摘要，如 "Bash: npm test"
+ */
+function toolSummary(name: string, input: unknown): string {
+    const args = (input ?? {}) as Record<string, unknown>;
+    const detail = ["file_path", "command", "pattern", "url", "description", "prompt"]
+        .map(key => args[key])
+        .find((value): value is string => typeof value === "string" && value.length > 0);
+    if (!detail) {
+        return name;
+    }
+    const firstLine = detail.split("\n")[0];
+    return `${name}: ${firstLine.length > 80 ? firstLine.slice(0, 80) + "…" : firstLine}`;
+}
+
+/**
+ * 使用比内容中最长反引号序列更长的围栏
+ */
+function fence(content: string, language = ""): string {
+    const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+    const marker = "`".repeat(longest + 1);
+    return `${marker}${language}\n${content}\n${marker}`;
+}
+
+/**
+ * 链接是否可以保留（浏览器解析协议前会忽略空白和控制字符）
+ */
+function isSafeUrl(url: string): boolean {
+    const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\u0000-\u0020\u007f]/g, ""));
+    return !scheme || SAFE_URL_SCHEMES.has(scheme[1].toLowerCase());
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,107 @@
+/**
+ * 会话来源目录
+ *
+ * Claude 按工作目录保存对话记录，因此除了当前工作区的各个文件夹，
+ * 同一仓库的其他 git worktree 中的会话也保存在各自的目录下。
+ * 这里汇总所有需要列出会话的工作目录。
+ */
+
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+/**
+ * git 命令超时（毫秒）
+ */
+const GIT_TIMEOUT_MS = 5_000;
+
+/**
+ * 会话来源目录
+ */
+export interface SessionRoot {
+    cwd: string;
+    folderName: string;                          // 分组标题
+    worktree?: { name: string; path: string };   // 工作区之外的 git worktree
+    isCurrentWorkspace: boolean;                 // 是否为当前工作区的文件夹
+}
+
+/**
+ * git worktree 条目
+ */
+export interface GitWorktree {
+    path: string;
+    branch?: string;
+}
+
+/**
+ * 解析 `git worktree list --porcelain` 的输出（bare 仓库不包含工作目录，跳过）
+ */
+export function parseWorktreeList(output: string): GitWorktree[] {
+    const worktrees: GitWorktree[] = [];
+
+    for (const block of output.split(/\r?\n\r?\n/)) {
+        const lines = block.split(/\r?\n/);
+        const worktreePath = lines.find(line => line.startsWith("worktree "))?.slice("worktree ".length);
+        if (!worktreePath || lines.includes("bare")) {
+            continue;
+        }
+
+        const branch = lines.find(line => line.startsWith("branch "))?.slice("branch ".length);
+        worktrees.push({
+            path: worktreePath,
+            branch: branch?.replace(/^refs\/heads\//, "")
+        });
+    }
+
+    return worktrees;
+}
+
+/**
+ * 列出目录所在仓库的所有 worktree（不是 git 仓库或没有安装 git 时返回空）
+ */
+export function listGitWorktrees(cwd: string): Promise<GitWorktree[]> {
+    return new Promise(resolve => {
+        execFile("git", ["worktree", "list", "--porcelain"], { cwd, timeout: GIT_TIMEOUT_MS }, (error, stdout) => {
+            resolve(error ? [] : parseWorktreeList(stdout));
+        });
+    });
+}
+
+/**
+ * 汇总工作区文件夹及其兄弟 worktree（按工作区顺序，worktree 在后）
+ */
+export async function getSessionRoots(
+    folders: ReadonlyArray<{ name: string; uri: { fsPath: string } }>,
+    fallbackCwd: string
+): Promise<SessionRoot[]> {
+    const roots: SessionRoot[] = folders.length > 0
+        ? folders.map(folder => ({ cwd: folder.uri.fsPath, folderName: folder.name, isCurrentWorkspace: true }))
+        : [{ cwd: fallbackCwd, folderName: path.basename(fallbackCwd), isCurrentWorkspace: true }];
+
+    const folderPaths = roots.map(root => path.resolve(root.cwd));
+    const seen = new Set<string>();
+    const worktreeLists = await Promise.all(roots.map(root => listGitWorktrees(root.cwd)));
+
+    for (const worktree of worktreeLists.flat()) {
+        const resolved = path.resolve(worktree.path);
+        // 跳过重复项以及包含工作区文件夹的 worktree（即文件夹自身所在的 worktree）
+        if (seen.has(resolved) || folderPaths.some(folderPath => isInside(folderPath, resolved))) {
+            continue;
+        }
+        seen.add(resolved);
+
+        const name = worktree.branch ?? path.basename(worktree.path);
+        roots.push({
+            cwd: worktree.path,
+            folderName: name,
+            worktree: { name, path: worktree.path },
+            isCurrentWorkspace: false
+        });
+    }
+
+    return roots;
+}
+
+function isInside(child: string, parent: string): boolean {
+    const relative = path.relative(parent, child);
+    return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
@@ -0,0 +1,141 @@
+/**
+ * 子代理（Task）对话记录
+ *
+ * 新版 CLI 把子代理的消息写在项目目录的 agent-<agentId>.jsonl 中，Task 的 toolUseResult 带有 agentId；
+ * 旧版 CLI 把它们作为 sidechain 写在会话文件中，只能通过子代理收到的 prompt 与 Task 调用对应。
+ */
+
+import * as path from 'path';
+
+/**
+ * 对话记录中的一条消息（只用到这里关心的字段）
+ */
+export interface TranscriptEntry {
+    uuid: string;
+    parentUuid?: string;
+    timestamp: string;
+    type: string;
+    message?: unknown;
+    isSidechain?: boolean;
+    toolUseResult?: unknown;
+}
+
+/**
+ * 对话链中的一次 Task 调用
+ */
+export interface TaskToolUse {
+    toolUseId: string;
+    prompt?: string;
+    agentId?: string;
+}
+
+const AGENT_ID_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * 找出对话链中的 Task 调用（按出现顺序），并从对应的 tool_result 中取出子代理 id
+ *
+ * 只用到 type、message 和 toolUseResult，也可以直接传入未检查类型的对话记录行
+ */
+export function getTaskToolUses(
+    transcript: Iterable<{ type?: unknown; message?: unknown; toolUseResult?: unknown }>
+): TaskToolUse[] {
+    const tasks = new Map<string, TaskToolUse>();
+
+    for (const entry of transcript) {
+        for (const block of getContentBlocks(entry.message)) {
+            if (entry.type === "assistant" && block.type === "tool_use" && block.name === "Task" && typeof block.id === "string") {
+                const input = isRecord(block.input) ? block.input : {};
+                tasks.set(block.id, {
+                    toolUseId: block.id,
+                    prompt: typeof input.prompt === "string" ? input.prompt : undefined
+                });
+            } else if (entry.type === "user" && block.type === "tool_result" && typeof block.tool_use_id === "string") {
+                const task = tasks.get(block.tool_use_id);
+                const agentId = isRecord(entry.toolUseResult) ? entry.toolUseResult.agentId : undefined;
+                if (task && typeof agentId === "string" && AGENT_ID_REGEX.test(agentId)) {
+                    task.agentId = agentId;
+                }
+            }
+        }
+    }
+
+    return [...tasks.values()];
+}
+
+/**
+ * 子代理对话记录文件路径（agentId 不合法时返回 undefined）
+ */
+export function getAgentTranscriptPath(projectDir: string, agentId: string): string | undefined {
+    return AGENT_ID_REGEX.test(agentId) ? path.join(projectDir, `agent-${agentId}.jsonl`) : undefined;
+}
+
+/**
+ * 从子代理对话记录文件名（agent-<agentId>.jsonl）中取出 agentId，不是子代理对话记录时返回 undefined
+ */
+export function getAgentIdFromFileName(name: string): string | undefined {
+    const match = /^agent-(.+)\.jsonl$/.exec(name);
+    return match && AGENT_ID_REGEX.test(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * 按 prompt 找到会话文件中的 sidechain，沿最新的子消息返回其对话链
+ */
+export function getSidechainTranscript(prompt: string, entries: Iterable<TranscriptEntry>): TranscriptEntry[] {
+    const children = new Map<string, TranscriptEntry[]>();
+    let root: TranscriptEntry | undefined;
+
+    for (const entry of entries) {
+        if (!entry.isSidechain) {
+            continue;
+        }
+        if (entry.parentUuid) {
+            const list = children.get(entry.parentUuid) ?? [];
+            list.push(entry);
+            children.set(entry.parentUuid, list);
+        } else if (entry.type === "user" && getPromptText(entry) === prompt) {
+            // 同一 prompt 多次调用时取最近的一次
+            if (!root || getTime(entry) > getTime(root)) {
+                root = entry;
+            }
+        }
+    }
+
+    const result: TranscriptEntry[] = [];
+    let current = root;
+    while (current) {
+        result.push(current);
+        current = (children.get(current.uuid) ?? [])
+            .sort((a, b) => getTime(b) - getTime(a))[0];
+    }
+    return result;
+}
+
+function getPromptText(entry: TranscriptEntry): string | undefined {
+    const content = isRecord(entry.message) ? entry.message.content : undefined;
+    if (typeof content === "string") {
+        return content;
+    }
+    if (Array.isArray(content)) {
+        return getContentBlocks(entry.message)
+            .filter(block => block.type === "text")
+            .map(block => block.text)
+            .join("\n");
+    }
+    return undefined;
+}
+
+/**
+ * 消息中的内容块（content 不是数组时为空，忽略非对象的块）
+ */
+function getContentBlocks(message: unknown): Record<string, unknown>[] {
+    const content = isRecord(message) ? message.content : undefined;
+    return Array.isArray(content) ? content.filter(isRecord) : [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
+
+function getTime(entry: TranscriptEntry): number {
+    return new Date(entry.timestamp).getTime();
+}
@@ -0,0 +1,82 @@
+/**
+ * 对话记录增量读取
+ *
+ * 对话记录（.jsonl）只追加写入：记录已解析到的字节位置，下次只读取新增的完整行。
+ * 文件变小时说明被重写，调用方需要从头重建。
+ */
+
+import * as fs from 'fs/promises';
+
+/**
+ * 文件读取进度
+ */
+export interface TranscriptCursor {
+    size: number;
+    mtimeMs: number;
+    offset: number;  // 已解析到的字节位置（最后一个完整行之后）
+}
+
+/**
+ * 对话记录中的一行（字段由调用方检查类型后使用）
+ */
+export type TranscriptLine = Record<string, unknown>;
+
+/**
+ * 文件是否自上次读取后有变化
+ */
+export function isTranscriptChanged(cursor: TranscriptCursor, size: number, mtimeMs: number): boolean {
+    return cursor.size !== size || cursor.mtimeMs !== mtimeMs;
+}
+
+/**
+ * 读取 offset 之后的完整行并解析为 JSON 对象（忽略损坏的行和非对象的行）
+ *
+ * 末尾未写完的行不计入 consumed，留到下次读取；
+ * 末尾没有换行但已是完整 JSON 的行会被读取
+ */
+export async function readAppendedEntries(
+    filePath: string,
+    offset: number,
+    size: number
+): Promise<{ entries: TranscriptLine[]; consumed: number }> {
+    if (size <= offset) {
+        return { entries: [], consumed: 0 };
+    }
+
+    const handle = await fs.open(filePath, "r");
+    let text: string;
+    let bytesRead: number;
+    try {
+        const buffer = Buffer.alloc(size - offset);
+        ({ bytesRead } = await handle.read(buffer, 0, buffer.length, offset));
+        text = buffer.subarray(0, bytesRead).toString("utf8");
+    } finally {
+        await handle.close();
+    }
+
+    const lines = text.split("\n");
+    const tail = lines.pop() ?? "";
+    let consumed = bytesRead - Buffer.byteLength(tail, "utf8");
+    if (tail.trim() && tryParse(tail) !== undefined) {
+        lines.push(tail);
+        consumed = bytesRead;
+    }
+
+    const entries: TranscriptLine[] = [];
+    for (const line of lines) {
+        const entry = line.trim() ? tryParse(line) : undefined;
+        if (typeof entry === "object" && entry !== null && !Array.isArray(entry)) {
+            entries.push(entry as TranscriptLine);
+        }
+    }
+
+    return { entries, consumed };
+}
+
+function tryParse(line: string): unknown {
+    try {
+        return JSON.parse(line);
+    } catch {
+        return undefined;
+    }
+}
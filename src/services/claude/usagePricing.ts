@@ -0,0 +1,63 @@
+/**
+ * 模型价格表
+ *
+ * 对话记录只保存 token 数量，历史用量的费用按官方公布的价格（美元 / 百万 token）估算。
+ * 实时会话的费用以 SDK result 消息中的 total_cost_usd 为准。
+ */
+
+/**
+ * 单个模型的价格（美元 / 百万 token）
+ */
+export interface ModelPricing {
+    input: number;
+    output: number;
+    cacheWrite: number;   // 5 分钟缓存写入
+    cacheRead: number;
+}
+
+/**
+ * 计费所需的 token 数量
+ */
+export interface TokenCounts {
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+}
+
+/**
+ * 按模型 ID 匹配的价格（从上到下匹配，更具体的版本在前）
+ */
+const MODEL_PRICING: Array<{ pattern: RegExp; pricing: ModelPricing }> = [
+    { pattern: /opus-4-[5-9]/, pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 } },
+    { pattern: /opus/, pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 } },
+    { pattern: /sonnet/, pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } },
+    { pattern: /haiku-4/, pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 } },
+    { pattern: /3-5-haiku|haiku-3-5/, pricing: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 } },
+    { pattern: /haiku/, pricing: { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 } }
+];
+
+/**
+ * 查找模型价格（未知模型返回 undefined）
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+    const id = model.toLowerCase();
+    return MODEL_PRICING.find(item => item.pattern.test(id))?.pricing;
+}
+
+/**
+ * 估算费用（未知模型返回 undefined）
+ */
+export function calculateCost(model: string, tokens: TokenCounts): number | undefined {
+    const pricing = getModelPricing(model);
+    if (!pricing) {
+        return undefined;
+    }
+
+    return (
+        tokens.inputTokens * pricing.input +
+        tokens.outputTokens * pricing.output +
+        tokens.cacheCreationTokens * pricing.cacheWrite +
+        tokens.cacheReadTokens * pricing.cacheRead
+    ) / 1_000_000;
+}
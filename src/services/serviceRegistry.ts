@@ -20,8 +20,16 @@ import { IDialogService, DialogService } from './dialogService';
 import { IWebViewService, WebViewService } from './webViewService';
 
 // Claude services
+import { IClaudeCheckpointService, ClaudeCheckpointService } from './claude/ClaudeCheckpointService';
+import { IClaudeAuthService, ClaudeAuthService } from './claude/ClaudeAuthService';
 import { IClaudeSdkService, ClaudeSdkService } from './claude/ClaudeSdkService';
 import { IClaudeSessionService, ClaudeSessionService } from './claude/ClaudeSessionService';
+import { IClaudeSearchService, ClaudeSearchService } from './claude/ClaudeSearchService';
+import { IClaudeMcpService, ClaudeMcpService } from './claude/ClaudeMcpService';
+import { IClaudeSettingsService, ClaudeSettingsService } from './claude/ClaudeSettingsService';
+import { IClaudeDiffReviewService, ClaudeDiffReviewService } from './claude/ClaudeDiffReviewService';
+import { IClaudeExportService, ClaudeExportService } from './claude/ClaudeExportService';
+import { IClaudeUsageService, ClaudeUsageService } from './claude/ClaudeUsageService';
 import { IClaudeAgentService, ClaudeAgentService } from './claude/ClaudeAgentService';
 
 /**
@@ -59,8 +67,16 @@ export function registerServices(
 	builder.define(IWebViewService, new SyncDescriptor(WebViewService, [context]));
 
 	// Claude services
+	builder.define(IClaudeCheckpointService, new SyncDescriptor(ClaudeCheckpointService, [context]));
+	builder.define(IClaudeAuthService, new SyncDescriptor(ClaudeAuthService, [context]));
 	builder.define(IClaudeSdkService, new SyncDescriptor(ClaudeSdkService, [context]));
-	builder.define(IClaudeSessionService, new SyncDescriptor(ClaudeSessionService));
+	builder.define(IClaudeSessionService, new SyncDescriptor(ClaudeSessionService, [context]));
+	builder.define(IClaudeSearchService, new SyncDescriptor(ClaudeSearchService));
+	builder.define(IClaudeMcpService, new SyncDescriptor(ClaudeMcpService));
+	builder.define(IClaudeSettingsService, new SyncDescriptor(ClaudeSettingsService));
+	builder.define(IClaudeDiffReviewService, new SyncDescriptor(ClaudeDiffReviewService));
+	builder.define(IClaudeExportService, new SyncDescriptor(ClaudeExportService));
+	builder.define(IClaudeUsageService, new SyncDescriptor(ClaudeUsageService));
 	builder.define(IClaudeAgentService, new SyncDescriptor(ClaudeAgentService));
 }
 
@@ -76,7 +92,15 @@ export {
 	INotificationService,
 	IDialogService,
 	IWebViewService,
+	IClaudeCheckpointService,
+	IClaudeAuthService,
 	IClaudeSdkService,
 	IClaudeSessionService,
+	IClaudeSearchService,
+	IClaudeMcpService,
+	IClaudeSettingsService,
+	IClaudeDiffReviewService,
+	IClaudeExportService,
+	IClaudeUsageService,
 	IClaudeAgentService
 };
@@ -12,6 +12,7 @@ export interface ITabsAndEditorsService {
 	getActiveTextEditor(): vscode.TextEditor | undefined;
 	getVisibleTextEditors(): readonly vscode.TextEditor[];
 	onDidChangeActiveTextEditor: vscode.Event<vscode.TextEditor | undefined>;
+	onDidChangeTextEditorSelection: vscode.Event<vscode.TextEditorSelectionChangeEvent>;
 }
 
 export class TabsAndEditorsService implements ITabsAndEditorsService {
@@ -28,4 +29,8 @@ export class TabsAndEditorsService implements ITabsAndEditorsService {
 	get onDidChangeActiveTextEditor(): vscode.Event<vscode.TextEditor | undefined> {
 		return vscode.window.onDidChangeActiveTextEditor;
 	}
+
+	get onDidChangeTextEditorSelection(): vscode.Event<vscode.TextEditorSelectionChangeEvent> {
+		return vscode.window.onDidChangeTextEditorSelection;
+	}
 }
@@ -2,7 +2,7 @@
  * WebView 服务 / WebView Service
  *
  * 职责：
- * 1. 实现 vscode.WebviewViewProvider 接口
+ * 1. 实现 vscode.WebviewViewProvider / WebviewPanelSerializer 接口
  * 2. 管理 WebView 实例和生命周期
  * 3. 生成 WebView HTML 内容
  * 4. 提供消息收发接口
@@ -21,9 +21,23 @@ export interface WebviewBootstrapConfig {
 	host: WebviewHost;
 	page?: string;
 	id?: string;
+	// 聊天标签页：要打开的会话 / 打开后立即发送的提示词
+	sessionId?: string;
+	initialPrompt?: string;
 }
 
-export interface IWebViewService extends vscode.WebviewViewProvider {
+/**
+ * 编辑器面板持久化的状态（由 WebView 通过 setState 保存，窗口重载后交给序列化器恢复）
+ */
+export interface WebviewPanelState {
+	page?: string;
+	id?: string;
+	sessionId?: string;
+}
+
+export const EDITOR_PANEL_VIEW_TYPE = 'claudix.pageView';
+
+export interface IWebViewService extends vscode.WebviewViewProvider, vscode.WebviewPanelSerializer<WebviewPanelState> {
 	readonly _serviceBrand: undefined;
 
 	/**
@@ -32,7 +46,9 @@ export interface IWebViewService extends vscode.WebviewViewProvider {
 	getWebView(): vscode.Webview | undefined;
 
 	/**
-	 * 向所有已注册 WebView 实例广播消息
+	 * 向 WebView 发送消息
+	 *
+	 * 响应与会话消息路由到发起方 WebView，其余消息广播给聊天视图
 	 */
 	postMessage(message: any): void;
 
@@ -49,6 +65,19 @@ export interface IWebViewService extends vscode.WebviewViewProvider {
 	 * @param instanceId 页面实例 ID，用于区分多标签（不传则默认为 page，实现单例）
 	 */
 	openEditorPage(page: string, title: string, instanceId?: string): void;
+
+	/**
+	 * 在编辑器标签中打开一个独立的聊天页面（每个标签拥有自己的会话）
+	 *
+	 * @param options.sessionId 要恢复的会话 ID（不传则新建会话）
+	 * @param options.initialPrompt 打开后立即发送的提示词
+	 */
+	openChatTab(options?: { sessionId?: string; initialPrompt?: string }): void;
+
+	/**
+	 * 修改编辑器面板的标签标题
+	 */
+	renameEditorPage(instanceId: string, title: string): void;
 }
 
 /**
@@ -61,6 +90,10 @@ export class WebViewService implements IWebViewService {
 	private readonly webviewConfigs = new Map<vscode.Webview, WebviewBootstrapConfig>();
 	private messageHandler?: (message: any) => void;
 	private readonly editorPanels = new Map<string, vscode.WebviewPanel>();
+	// 请求 ID → 发起请求的 WebView（用于把响应送回原页面）
+	private readonly requestOrigins = new Map<string, vscode.Webview>();
+	// Channel ID → 启动该会话的 WebView
+	private readonly channelOwners = new Map<string, vscode.Webview>();
 
 	constructor(
 		private readonly context: vscode.ExtensionContext,
@@ -106,11 +139,9 @@ export class WebViewService implements IWebViewService {
 	}
 
 	/**
-	 * 广播消息到所有已注册的 WebView
+	 * 发送消息到 WebView
 	 */
 	postMessage(message: any): void {
-		// 目前 ClaudeAgentService 只需要与侧边栏聊天视图通信
-		// 因此这里只向 host === 'sidebar' 且 page === 'chat' 的 WebView 发送消息
 		if (this.webviews.size === 0) {
 			this.logService.warn('[WebViewService] 当前没有可用的 WebView 实例，消息将被丢弃');
 			return;
@@ -121,14 +152,13 @@ export class WebViewService implements IWebViewService {
 			message
 		};
 
-		const toRemove: vscode.Webview[] = [];
+		// 响应 / 会话消息只发给发起方；其余消息（状态更新、设置变化等）广播给所有视图
+		const target = this.resolveTarget(message);
+		const targets = target ? [target] : [...this.webviews];
 
-		for (const webview of this.webviews) {
-			const config = this.webviewConfigs.get(webview);
-			if (!config || config.host !== 'sidebar' || (config.page && config.page !== 'chat')) {
-				continue;
-			}
+		const toRemove: vscode.Webview[] = [];
 
+		for (const webview of targets) {
 			try {
 				webview.postMessage(payload);
 			} catch (error) {
@@ -138,8 +168,61 @@ export class WebViewService implements IWebViewService {
 		}
 
 		for (const webview of toRemove) {
-			this.webviews.delete(webview);
-			this.webviewConfigs.delete(webview);
+			this.forgetWebview(webview);
+		}
+	}
+
+	/**
+	 * 根据消息内容找到目标 WebView（找不到时返回 undefined，按广播处理）
+	 */
+	private resolveTarget(message: any): vscode.Webview | undefined {
+		if (message?.type === 'response') {
+			const origin = this.requestOrigins.get(message.requestId);
+			this.requestOrigins.delete(message.requestId);
+			return origin;
+		}
+
+		if (message?.channelId) {
+			const owner = this.channelOwners.get(message.channelId);
+			if (message.type === 'close_channel') {
+				this.channelOwners.delete(message.channelId);
+			}
+			return owner;
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * 记录来自 WebView 的请求和会话归属
+	 */
+	private trackOrigin(webview: vscode.Webview, message: any): void {
+		switch (message?.type) {
+			case 'request':
+				this.requestOrigins.set(message.requestId, webview);
+				break;
+			case 'launch_claude':
+				this.channelOwners.set(message.channelId, webview);
+				break;
+			case 'close_channel':
+				this.channelOwners.delete(message.channelId);
+				break;
+		}
+	}
+
+	/**
+	 * 移除 WebView 及其路由记录
+	 */
+	private forgetWebview(webview: vscode.Webview): void {
+		this.webviews.delete(webview);
+		this.webviewConfigs.delete(webview);
+
+		for (const routes of [this.requestOrigins, this.channelOwners]) {
+			for (const [key, value] of routes) {
+				if (value === webview) {
+					routes.delete(key);
+				}
+			}
 		}
 	}
 
@@ -171,10 +254,63 @@ export class WebViewService implements IWebViewService {
 			}
 		}
 
-		this.logService.info(`[WebViewService] 创建主编辑器 WebView 面板: page=${page}, id=${key}`);
+		this.createEditorPanel(title, { host: 'editor', page, id: key });
+	}
+
+	/**
+	 * 在编辑器标签中打开一个独立的聊天页面
+	 */
+	openChatTab(options: { sessionId?: string; initialPrompt?: string } = {}): void {
+		const id = `chat-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+		this.createEditorPanel('Claude Code', {
+			host: 'editor',
+			page: 'chat',
+			id,
+			sessionId: options.sessionId,
+			initialPrompt: options.initialPrompt
+		});
+	}
+
+	/**
+	 * 修改编辑器面板的标签标题
+	 */
+	renameEditorPage(instanceId: string, title: string): void {
+		const panel = this.editorPanels.get(instanceId);
+		if (panel) {
+			panel.title = title;
+		}
+	}
+
+	/**
+	 * 实现 WebviewPanelSerializer：窗口重载后恢复编辑器面板
+	 */
+	async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: WebviewPanelState | undefined): Promise<void> {
+		// 没有保存状态的旧面板按聊天页恢复
+		const page = state?.page || 'chat';
+		const id = state?.id || (page === 'chat' ? `chat-${Date.now().toString(36)}` : page);
+
+		if (this.editorPanels.has(id)) {
+			panel.dispose();
+			return;
+		}
+
+		this.logService.info(`[WebViewService] 恢复主编辑器 WebView 面板: page=${page}, id=${id}`);
+		this.attachEditorPanel(panel, {
+			host: 'editor',
+			page,
+			id,
+			sessionId: state?.sessionId
+		});
+	}
+
+	/**
+	 * 创建主编辑器面板
+	 */
+	private createEditorPanel(title: string, bootstrap: WebviewBootstrapConfig): void {
+		this.logService.info(`[WebViewService] 创建主编辑器 WebView 面板: page=${bootstrap.page}, id=${bootstrap.id}`);
 
 		const panel = vscode.window.createWebviewPanel(
-			'claudix.pageView',
+			EDITOR_PANEL_VIEW_TYPE,
 			title,
 			vscode.ViewColumn.Active,
 			{
@@ -187,18 +323,26 @@ export class WebViewService implements IWebViewService {
 			}
 		);
 
-		this.registerWebview(panel.webview, {
-			host: 'editor',
-			page,
-			id: key
-		});
+		this.attachEditorPanel(panel, bootstrap);
+	}
+
+	/**
+	 * 为编辑器面板注册 WebView 并跟踪其生命周期
+	 */
+	private attachEditorPanel(panel: vscode.WebviewPanel, bootstrap: WebviewBootstrapConfig): void {
+		const key = bootstrap.id || bootstrap.page || 'chat';
+
+		if (bootstrap.page === 'chat') {
+			panel.iconPath = vscode.Uri.file(path.join(this.context.extensionPath, 'resources', 'claude-logo.svg'));
+		}
+
+		this.registerWebview(panel.webview, bootstrap);
 
 		panel.onDidDispose(
 			() => {
-				this.webviews.delete(panel.webview);
-				this.webviewConfigs.delete(panel.webview);
+				this.forgetWebview(panel.webview);
 				this.editorPanels.delete(key);
-				this.logService.info(`[WebViewService] 主编辑器 WebView 面板已销毁: page=${page}, id=${key}`);
+				this.logService.info(`[WebViewService] 主编辑器 WebView 面板已销毁: page=${bootstrap.page}, id=${key}`);
 			},
 			undefined,
 			this.context.subscriptions
@@ -228,6 +372,7 @@ export class WebViewService implements IWebViewService {
 		webview.onDidReceiveMessage(
 			message => {
 				this.logService.info(`[WebView → Extension] 收到消息: ${message.type}`);
+				this.trackOrigin(webview, message);
 				if (this.messageHandler) {
 					this.messageHandler(message);
 				}
@@ -0,0 +1,121 @@
+/**
+ * Markdown 内容样式（WebView 的消息和导出的 HTML 共用）
+ *
+ * 作用于 .markdown-content 容器，颜色和字体取 VS Code 主题变量，
+ * 导出的 HTML 在 :root 中提供这些变量的默认值。
+ */
+
+export const MARKDOWN_STYLES = `
+.markdown-content {
+  font-size: 13px;
+  line-height: 1.6;
+  color: var(--vscode-editor-foreground);
+  word-wrap: break-word;
+  user-select: text;
+}
+
+.markdown-content p {
+  margin: 8px 0;
+  line-height: 1.6;
+}
+
+.markdown-content code {
+  font-family: var(--vscode-editor-font-family, 'Hack Nerd Font Mono', 'SF Mono', Consolas, 'Courier New', monospace);
+  word-break: break-all;
+  cursor: default;
+}
+
+.markdown-content pre {
+  background-color: color-mix(in srgb, var(--vscode-editor-background) 50%, transparent);
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 4px;
+  padding: 12px;
+  margin: 8px 0;
+  overflow-x: auto;
+}
+
+.markdown-content pre code {
+  background: none;
+  border: none;
+  padding: 0;
+}
+
+.markdown-content :not(pre) > code {
+  background-color: color-mix(in srgb, var(--vscode-editor-background) 50%, transparent);
+  border: 1px solid var(--vscode-panel-border);
+  border-radius: 3px;
+  padding: 2px 4px;
+  font-size: 0.9em;
+}
+
+.markdown-content a {
+  color: var(--vscode-textLink-foreground);
+  text-decoration: none;
+}
+
+.markdown-content a:hover {
+  color: var(--vscode-textLink-activeForeground);
+  text-decoration: underline;
+}
+
+.markdown-content ul,
+.markdown-content ol {
+  margin: 0px 0px 0px 16px;
+  padding: 0px;
+}
+
+.markdown-content li {
+  padding-top: 2px;
+  padding-bottom: 2px;
+  list-style-type: disc;
+}
+
+.markdown-content blockquote {
+  border-left: 4px solid var(--vscode-textBlockQuote-border);
+  background-color: var(--vscode-textBlockQuote-background);
+  margin: 8px 0;
+  padding: 8px 16px;
+}
+
+.markdown-content h1,
+.markdown-content h2,
+.markdown-content h3,
+.markdown-content h4,
+.markdown-content h5,
+.markdown-content h6 {
+  color: var(--vscode-foreground);
+  font-weight: 600;
+  margin: 16px 0 8px 0;
+  line-height: 1.3;
+}
+
+.markdown-content h1 {
+  font-size: 18px;
+}
+
+.markdown-content h2 {
+  font-size: 16px;
+}
+
+.markdown-content h3 {
+  font-size: 14px;
+}
+
+.markdown-content table {
+  border-collapse: collapse;
+  margin: 16px 0;
+  width: 100%;
+}
+
+.markdown-content th,
+.markdown-content td {
+  border: 1px solid var(--vscode-panel-border);
+  padding: 8px 12px;
+  text-align: left;
+}
+
+.markdown-content th {
+  background-color: color-mix(in srgb, var(--vscode-editor-background) 30%, transparent);
+  font-weight: 600;
+}
+`;
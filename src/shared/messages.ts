@@ -10,7 +10,11 @@ import type {
     SDKUserMessage,
     PermissionResult,
     PermissionUpdate,
-    PermissionMode
+    PermissionMode,
+    McpServerStatus,
+    McpStdioServerConfig,
+    McpSSEServerConfig,
+    McpHttpServerConfig
 } from '@anthropic-ai/claude-agent-sdk';
 
 // ============================================================================
@@ -35,10 +39,13 @@ export interface LaunchClaudeMessage extends BaseMessage {
     type: "launch_claude";
     channelId: string;
     resume?: string | null;        // 恢复会话 ID
+    resumeSessionAt?: string;      // 恢复到指定消息（之后的消息被丢弃）
+    forkSession?: boolean;         // 恢复时创建新会话
     cwd?: string;                  // 工作目录
     model?: string | null;         // 模型名称
     permissionMode?: PermissionMode; // 权限模式
-    thinkingLevel?: string | null; // Thinking 等级（off | default_on）
+    thinkingLevel?: string | null; // Thinking 等级（off | low | medium | high | max | custom:<tokens>）
+    budget?: SessionBudget;        // 会话级预算（未设置的项使用工作区默认值）
 }
 
 /**
@@ -47,10 +54,20 @@ export interface LaunchClaudeMessage extends BaseMessage {
 export interface IOMessage extends BaseMessage {
     type: "io_message";
     channelId: string;
-    message: SDKMessage | SDKUserMessage;  // SDK 消息类型
+    message: SDKMessage | SDKUserMessage | ClaudixSystemMessage;  // SDK 消息类型
     done: boolean;                         // 是否为流的最后一条
 }
 
+/**
+ * 扩展插入到会话中的系统消息（不来自 SDK，例如超出预算的中断说明）
+ */
+export interface ClaudixSystemMessage {
+    type: "system";
+    subtype: "budget_exceeded";
+    session_id: string;
+    content: string;
+}
+
 /**
  * 中断 Claude
  */
@@ -123,10 +140,12 @@ export interface InitResponse {
     state: {
         defaultCwd: string;
         openNewInTab: boolean;
-        // authStatus: null | { authenticated: boolean };
+        authStatus: AuthStatus | null;
         modelSetting: string;
         platform: string;
-        thinkingLevel?: string;        // Thinking 等级（off | default_on）
+        thinkingLevel?: string;        // 新会话的默认 Thinking 等级
+        defaultPermissionMode?: PermissionMode; // 新会话的默认权限模式
+        attachActiveFileErrors?: boolean;       // 发送消息时自动附带当前文件的错误
     };
 }
 
@@ -161,6 +180,7 @@ export interface OpenDiffRequest {
         replaceAll?: boolean;
     }>;
     supportMultiEdits: boolean;
+    cwd?: string;       // 发起请求的会话工作目录，相对路径据此解析，默认为第一个工作区文件夹
 }
 
 export interface OpenDiffResponse {
@@ -214,7 +234,7 @@ export interface SetModelResponse {
 export interface SetThinkingLevelRequest {
     type: "set_thinking_level";
     channelId: string;
-    thinkingLevel: string;  // "off" | "default_on"
+    thinkingLevel: string;  // 见 shared/thinkingLevels.ts
 }
 
 export interface SetThinkingLevelResponse {
@@ -242,7 +262,238 @@ export interface GetMcpServersRequest {
 
 export interface GetMcpServersResponse {
     type: "get_mcp_servers_response";
-    mcpServers: Array<{ name: string; status: string }>;
+    mcpServers: McpServerStatus[];
+}
+
+/**
+ * MCP 服务器配置作用域
+ * - user: ~/.claude.json 的 mcpServers
+ * - project: 工作区根目录的 .mcp.json
+ * - local: ~/.claude.json 中 projects[cwd].mcpServers
+ */
+export type McpServerScope = "user" | "project" | "local";
+
+/**
+ * 可编辑的 MCP 服务器配置（stdio / sse / http）
+ */
+export type McpServerConfig = McpStdioServerConfig | McpSSEServerConfig | McpHttpServerConfig;
+
+/**
+ * MCP 服务器条目（配置 + 当前会话中的连接状态）
+ */
+export interface McpServerEntry {
+    name: string;
+    scope: McpServerScope;
+    config: McpServerConfig;
+    enabled: boolean;
+    // 请求指定的 Channel 中的 mcpServerStatus()（只属于同名服务器中生效的条目），未指定会话时为空
+    status?: McpServerStatus["status"];
+    serverInfo?: McpServerStatus["serverInfo"];
+}
+
+/**
+ * MCP 工具信息
+ */
+export interface McpToolInfo {
+    name: string;
+    description?: string;
+}
+
+/**
+ * MCP 服务器探测结果
+ */
+export interface McpServerInspection {
+    name: string;
+    status: "connected" | "failed";
+    serverInfo?: { name: string; version: string };
+    tools: McpToolInfo[];
+    error?: string;
+    stderr: string;
+}
+
+/**
+ * 列出所有作用域的 MCP 服务器配置
+ */
+export interface ListMcpServerConfigsRequest {
+    type: "list_mcp_server_configs";
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface ListMcpServerConfigsResponse {
+    type: "list_mcp_server_configs_response";
+    servers: McpServerEntry[];
+    cwd: string;                                    // 实际使用的工作目录
+    folders: Array<{ name: string; cwd: string }>;  // 可选的工作区文件夹
+}
+
+/**
+ * 新增或更新 MCP 服务器
+ */
+export interface SaveMcpServerRequest {
+    type: "save_mcp_server";
+    scope: McpServerScope;
+    name: string;
+    config: McpServerConfig;
+    // 编辑时的原始位置（改名或移动作用域时需要删除旧条目）
+    previous?: { scope: McpServerScope; name: string };
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface SaveMcpServerResponse {
+    type: "save_mcp_server_response";
+}
+
+/**
+ * 删除 MCP 服务器
+ */
+export interface RemoveMcpServerRequest {
+    type: "remove_mcp_server";
+    scope: McpServerScope;
+    name: string;
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface RemoveMcpServerResponse {
+    type: "remove_mcp_server_response";
+}
+
+/**
+ * 启用 / 禁用 MCP 服务器
+ */
+export interface SetMcpServerEnabledRequest {
+    type: "set_mcp_server_enabled";
+    name: string;
+    enabled: boolean;
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface SetMcpServerEnabledResponse {
+    type: "set_mcp_server_enabled_response";
+}
+
+/**
+ * 连接 MCP 服务器，获取工具列表、错误信息和 stderr
+ */
+export interface InspectMcpServerRequest {
+    type: "inspect_mcp_server";
+    scope: McpServerScope;
+    name: string;
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface InspectMcpServerResponse {
+    type: "inspect_mcp_server_response";
+    inspection: McpServerInspection;
+}
+
+/**
+ * Claude settings.json 作用域
+ * - user: ~/.claude/settings.json
+ * - project: <cwd>/.claude/settings.json
+ * - local: <cwd>/.claude/settings.local.json
+ */
+export type ClaudeSettingsScope = "user" | "project" | "local";
+
+/**
+ * 某个 settings.json 中的权限规则
+ */
+export interface PermissionRulesFile {
+    scope: ClaudeSettingsScope;
+    path: string;
+    exists: boolean;
+    allow: string[];
+    deny: string[];
+    // 文件无法解析时的错误信息（此时不允许写入）
+    error?: string;
+}
+
+/**
+ * 环境变量条目（claudix.environmentVariables）
+ */
+export interface EnvironmentVariable {
+    name: string;
+    value: string;
+}
+
+/**
+ * 设置页快照：VS Code 配置 + 磁盘上的权限规则
+ */
+export interface SettingsSnapshot {
+    selectedModel: string;
+    thinkingLevel: string;
+    defaultPermissionMode: PermissionMode;
+    environmentVariables: EnvironmentVariable[];
+    permissionRules: PermissionRulesFile[];
+}
+
+/**
+ * 获取设置
+ */
+export interface GetSettingsRequest {
+    type: "get_settings";
+}
+
+export interface GetSettingsResponse {
+    type: "get_settings_response";
+    settings: SettingsSnapshot;
+}
+
+/**
+ * 更新 VS Code 配置项
+ */
+export interface UpdateSettingsRequest {
+    type: "update_settings";
+    changes: Partial<Pick<SettingsSnapshot, "selectedModel" | "thinkingLevel" | "defaultPermissionMode" | "environmentVariables">>;
+}
+
+export interface UpdateSettingsResponse {
+    type: "update_settings_response";
+    settings: SettingsSnapshot;
+}
+
+/**
+ * 更新某个作用域的权限规则
+ */
+export interface UpdatePermissionRulesRequest {
+    type: "update_permission_rules";
+    scope: ClaudeSettingsScope;
+    allow: string[];
+    deny: string[];
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface UpdatePermissionRulesResponse {
+    type: "update_permission_rules_response";
+    settings: SettingsSnapshot;
+}
+
+/**
+ * 读取某个工作目录下所有作用域的权限规则（权限请求中的规则列表使用会话的工作目录）
+ */
+export interface GetPermissionRulesRequest {
+    type: "get_permission_rules";
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface GetPermissionRulesResponse {
+    type: "get_permission_rules_response";
+    permissionRules: PermissionRulesFile[];
+}
+
+/**
+ * 删除某个作用域中的一条权限规则（基于文件的最新内容，不覆盖其它规则）
+ */
+export interface RemovePermissionRuleRequest {
+    type: "remove_permission_rule";
+    scope: ClaudeSettingsScope;
+    behavior: "allow" | "deny";
+    rule: string;
+    cwd?: string;       // 发起请求的会话工作目录，默认为第一个工作区文件夹
+}
+
+export interface RemovePermissionRuleResponse {
+    type: "remove_permission_rule_response";
+    permissionRules: PermissionRulesFile[];     // 删除后该工作目录下的规则
 }
 
 /**
@@ -271,9 +522,68 @@ export interface ListSessionsResponse {
         lastModified: number;
         messageCount: number;
         summary: string;
-        worktree?: string;
+        cwd: string;               // 会话所在的工作目录
+        folderName: string;        // 所属工作区文件夹或 worktree 的名称（用于分组）
+        worktree?: { name: string; path: string };  // 来自工作区之外的 git worktree
         isCurrentWorkspace: boolean;
-    }>;
+        branchCount?: number;      // 同一对话树中的分支数量
+    } & SessionMetadata>;
+}
+
+/**
+ * 会话的用户元数据（保存在对话记录旁的 <sessionId>.claudix.json）
+ */
+export interface SessionMetadata {
+    title?: string;       // 重命名后的标题，覆盖自动生成的摘要
+    pinned?: boolean;
+    tags?: string[];
+    archived?: boolean;
+    thinkingLevel?: string; // 会话使用的 Thinking 等级，恢复会话时沿用
+}
+
+/**
+ * 重命名会话（空标题恢复自动生成的摘要）
+ */
+export interface RenameSessionRequest {
+    type: "rename_session";
+    sessionId: string;
+    title: string;
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+}
+
+export interface RenameSessionResponse {
+    type: "rename_session_response";
+    metadata: SessionMetadata;
+}
+
+/**
+ * 置顶、标签、归档
+ */
+export interface UpdateSessionMetadataRequest {
+    type: "update_session_metadata";
+    sessionId: string;
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+    pinned?: boolean;
+    tags?: string[];
+    archived?: boolean;
+}
+
+export interface UpdateSessionMetadataResponse {
+    type: "update_session_metadata_response";
+    metadata: SessionMetadata;
+}
+
+/**
+ * 删除会话的对话记录及其元数据
+ */
+export interface DeleteSessionRequest {
+    type: "delete_session";
+    sessionId: string;
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+}
+
+export interface DeleteSessionResponse {
+    type: "delete_session_response";
 }
 
 /**
@@ -282,6 +592,8 @@ export interface ListSessionsResponse {
 export interface GetSessionRequest {
     type: "get_session_request";
     sessionId: string;
+    leafUuid?: string;  // 加载指定分支，默认为最新分支
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
 }
 
 export interface GetSessionResponse {
@@ -289,6 +601,214 @@ export interface GetSessionResponse {
     messages: any[];
 }
 
+/**
+ * 列出会话所在对话树的所有分支
+ */
+export interface ListSessionBranchesRequest {
+    type: "list_session_branches";
+    sessionId: string;
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+}
+
+export interface SessionBranch {
+    sessionId: string;
+    leafUuid: string;
+    lastModified: number;
+    messageCount: number;
+    summary: string;      // 分支上最后一条用户输入
+    isLatest: boolean;    // 是否为该会话最新的分支
+}
+
+export interface ListSessionBranchesResponse {
+    type: "list_session_branches_response";
+    branches: SessionBranch[];
+}
+
+/**
+ * 获取从某条消息分叉时的恢复位置
+ * - before：该消息之前（编辑后重新发送）
+ * - after：该消息所在轮次结束处（从这里分叉）
+ */
+export type ForkPosition = "before" | "after";
+
+export interface GetForkPointRequest {
+    type: "get_fork_point";
+    messageUuid: string;
+    position: ForkPosition;
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+}
+
+export interface GetForkPointResponse {
+    type: "get_fork_point_response";
+    resumeSessionAt?: string;  // 分叉点在对话开头时为空
+}
+
+/**
+ * 回退文件检查点到某条用户消息之前
+ */
+export interface RewindCheckpointRequest {
+    type: "rewind_checkpoint";
+    sessionId: string;
+    userMessageUuid: string;
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+}
+
+export interface RewindCheckpointResult {
+    restoredFiles: string[];
+    deletedFiles: string[];
+    resumeSessionAt?: string;  // 目标消息的上一条消息 uuid，用于截断或分叉对话
+}
+
+export interface RewindCheckpointResponse extends RewindCheckpointResult {
+    type: "rewind_checkpoint_response";
+}
+
+/**
+ * 全文搜索所有会话记录（用户输入、助手回复、工具输入和文件路径）
+ */
+export interface SearchSessionsRequest {
+    type: "search_sessions";
+    query: string;
+    limit?: number;       // 最多返回的会话数
+}
+
+export type SessionSearchMatchKind = "prompt" | "assistant" | "tool";
+
+export interface SessionSearchMatch {
+    uuid: string;         // 跳转目标消息的 uuid
+    kind: SessionSearchMatchKind;
+    snippet: string;
+    highlights: Array<[number, number]>;  // snippet 中命中部分的 [start, end)
+}
+
+export interface SessionSearchResult {
+    sessionId: string;
+    lastModified: number;
+    totalMatches: number;
+    matches: SessionSearchMatch[];  // 仅包含前几条命中
+}
+
+export interface SearchSessionsResponse {
+    type: "search_sessions_response";
+    results: SessionSearchResult[];
+}
+
+/**
+ * 导出会话（格式与选项由扩展端通过对话框选择）
+ */
+export type ExportFormat = "markdown" | "html" | "json";
+
+export interface ExportOptions {
+    includeThinking: boolean;
+    includeToolResults: boolean;
+}
+
+export interface ExportSessionRequest {
+    type: "export_session";
+    sessionId: string;
+    leafUuid?: string;  // 导出指定分支，默认最新分支
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+}
+
+export interface ExportSessionResponse {
+    type: "export_session_response";
+    filePath?: string;  // 用户取消时为空
+}
+
+/**
+ * 将 ExitPlanMode 的计划保存为工作区中的 Markdown 文件（保存位置由用户在对话框中确认）
+ */
+export interface SavePlanRequest {
+    type: "save_plan";
+    plan: string;
+    cwd?: string;       // 会话所在的工作目录，默认为第一个工作区文件夹
+}
+
+export interface SavePlanResponse {
+    type: "save_plan_response";
+    filePath?: string;  // 用户取消时为空
+}
+
+/**
+ * 用量统计范围
+ * - workspace：当前工作区文件夹及其 worktree
+ * - all：所有项目
+ */
+export type UsageScope = "workspace" | "all";
+
+/**
+ * Token 用量与费用（费用为按价格表估算的美元金额）
+ */
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    costUSD: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+    date: string;           // YYYY-MM-DD（本地时区）
+}
+
+export interface SessionUsage extends UsageTotals {
+    sessionId: string;
+    summary: string;        // 第一条用户输入
+    project: string;        // 会话所在目录的名称
+    lastActivity: number;
+}
+
+export interface ModelUsageSummary extends UsageTotals {
+    model: string;
+}
+
+export interface UsageReport {
+    totals: UsageTotals;
+    days: DailyUsage[];               // 按日期升序
+    sessions: SessionUsage[];         // 按最后活动时间倒序
+    models: ModelUsageSummary[];      // 按费用倒序
+    unpricedModels: string[];         // 价格表中没有的模型（费用按 0 计算）
+}
+
+/**
+ * 获取用量统计
+ */
+export interface GetUsageReportRequest {
+    type: "get_usage_report";
+    scope: UsageScope;
+    since?: number;         // 起始时间戳，默认全部
+}
+
+export interface GetUsageReportResponse {
+    type: "get_usage_report_response";
+    report: UsageReport;
+}
+
+/**
+ * 导出用量明细为 CSV（按日期、会话、模型分行）
+ */
+export interface ExportUsageCsvRequest {
+    type: "export_usage_csv";
+    scope: UsageScope;
+    since?: number;
+}
+
+export interface ExportUsageCsvResponse {
+    type: "export_usage_csv_response";
+    filePath?: string;      // 用户取消时为空
+}
+
+/**
+ * 打开用量统计页
+ */
+export interface OpenUsageDashboardRequest {
+    type: "open_usage_dashboard";
+}
+
+export interface OpenUsageDashboardResponse {
+    type: "open_usage_dashboard_response";
+}
+
 /**
  * 执行命令
  */
@@ -378,6 +898,46 @@ export interface GetCurrentSelectionRequest {
 export interface GetCurrentSelectionResponse {
     type: "get_current_selection_response";
     selection: SelectionRange | null;
+    activeFile: string | null;     // 当前编辑器中的文件（没有打开文件时为空）
+}
+
+/**
+ * IDE 诊断信息（对应 <ide_diagnostics> 标签中的 JSON 条目，行列从 1 开始）
+ */
+export interface IdeDiagnostic {
+    filePath: string;
+    line: number;
+    column: number;
+    message: string;
+    code: string;
+    severity: "Error" | "Warning" | "Information" | "Hint";
+    source?: string;
+}
+
+export type DiagnosticsScope = "workspace" | "activeFile";
+
+/**
+ * 获取诊断信息（@problems 与自动附带当前文件错误）
+ */
+export interface GetDiagnosticsRequest {
+    type: "get_diagnostics";
+    scope: DiagnosticsScope;
+    errorsOnly?: boolean;
+}
+
+export interface GetDiagnosticsResponse {
+    type: "get_diagnostics_response";
+    diagnostics: IdeDiagnostic[];
+}
+
+/**
+ * 在聊天视图中发起提示词（Extension → WebView，来自 "Fix with Claudix"、Explain 等编辑器命令）
+ */
+export interface StartPromptRequest {
+    type: "start_prompt";
+    prompt: string;
+    selection?: SelectionRange;
+    diagnostics?: IdeDiagnostic[];
 }
 
 /**
@@ -426,51 +986,87 @@ export interface NewConversationTabResponse {
 export interface RenameTabRequest {
     type: "rename_tab";
     title: string;
+    // 发起请求的编辑器面板实例 ID（侧边栏没有标签，不传）
+    instanceId?: string;
 }
 
 export interface RenameTabResponse {
     type: "rename_tab_response";
 }
 
+/**
+ * 凭证来源
+ * - apiKey: 保存在 SecretStorage 中的 API 密钥（手动输入或通过 Anthropic Console 登录创建）
+ * - claudeAi: 通过 Claude.ai 订阅登录获得的 OAuth token
+ * - environment: ANTHROPIC_API_KEY 等环境变量（包括 claudix.environmentVariables）
+ * - claudeCli: Claude Code CLI 自身的登录
+ */
+export type AuthMethod = "apiKey" | "claudeAi" | "environment" | "claudeCli";
+
+/**
+ * 登录方式
+ */
+export type LoginMethod = "claude.ai" | "console.anthropic.com" | "apiKey";
+
+/**
+ * 认证状态
+ */
+export interface AuthStatus {
+    authenticated: boolean;
+    method?: AuthMethod;
+    // 等待提交 OAuth 代码的登录方式
+    pendingLogin?: Exclude<LoginMethod, "apiKey">;
+}
+
 /**
  * 获取认证状态
  */
-// export interface GetAuthStatusRequest {
-//     type: "get_auth_status";
-// }
+export interface GetAuthStatusRequest {
+    type: "get_auth_status";
+}
 
-// export interface GetAuthStatusResponse {
-//     type: "get_auth_status_response";
-//     status: null | { authenticated: boolean };
-// }
+export interface GetAuthStatusResponse {
+    type: "get_auth_status_response";
+    status: AuthStatus;
+}
 
 /**
- * 登录请求
+ * 登录请求（apiKey 在 VS Code 输入框中输入；OAuth 方式在浏览器中打开授权页面，随后提交代码）
  */
-// export interface LoginRequest {
-//     type: "login";
-//     method: "claude.ai" | "console.anthropic.com";
-// }
+export interface LoginRequest {
+    type: "login";
+    method: LoginMethod;
+}
 
-// export interface LoginResponse {
-//     type: "login_response";
-//     auth: {
-//         authenticated: boolean;
-//         apiKey?: string;
-//     };
-// }
+export interface LoginResponse {
+    type: "login_response";
+    auth: AuthStatus;
+}
 
 /**
  * 提交 OAuth 代码
  */
-// export interface SubmitOAuthCodeRequest {
-//     type: "submit_oauth_code";
-//     code: string;
-// }
+export interface SubmitOAuthCodeRequest {
+    type: "submit_oauth_code";
+    code: string;
+}
+
+export interface SubmitOAuthCodeResponse {
+    type: "submit_oauth_code_response";
+    auth: AuthStatus;
+}
+
+/**
+ * 退出登录（清除 SecretStorage 中保存的凭证）
+ */
+export interface LogoutRequest {
+    type: "logout";
+}
 
-// export interface SubmitOAuthCodeResponse {
-//     type: "submit_oauth_code_response";
-// }
+export interface LogoutResponse {
+    type: "logout_response";
+    auth: AuthStatus;
+}
 
 /**
  * 打开配置文件
@@ -485,10 +1081,12 @@ export interface OpenConfigFileResponse {
 }
 
 /**
- * 在终端打开 Claude
+ * 在终端打开 Claude（传入 sessionId 时以 --resume 继续该会话）
  */
 export interface OpenClaudeInTerminalRequest {
     type: "open_claude_in_terminal";
+    sessionId?: string;
+    cwd?: string;
 }
 
 export interface OpenClaudeInTerminalResponse {
@@ -496,13 +1094,13 @@ export interface OpenClaudeInTerminalResponse {
 }
 
 /**
- * 认证 URL 通知（Extension → WebView）
+ * 认证 URL 通知（Extension → WebView，浏览器未能打开时可手动复制）
  */
-// export interface AuthURLRequest {
-//     type: "auth_url";
-//     url: string;
-//     method: string;
-// }
+export interface AuthURLRequest {
+    type: "auth_url";
+    url: string;
+    method: Exclude<LoginMethod, "apiKey">;
+}
 
 // ============================================================================
 // Extension → WebView 请求类型
@@ -523,6 +1121,29 @@ export interface ToolPermissionResponse {
     result: PermissionResult;
 }
 
+/**
+ * 在 Diff 视图中处理了权限请求（Extension → WebView 通知：Accept / Reject / 关闭标签页）
+ *
+ * WebView 据此解析对应的 PermissionRequest，与弹窗保持一致
+ */
+export interface ResolveToolPermissionRequest {
+    type: "resolve_tool_permission";
+    // 原 tool_permission_request 的 requestId
+    permissionRequestId: string;
+    behavior: "allow" | "deny";
+    // 用户在 Diff 右侧修改过内容时，按修改后的版本执行
+    updatedInput?: Record<string, unknown>;
+}
+
+/**
+ * 用户保存了 Diff 右侧的修改（Extension → WebView 通知），更新待审批请求的输入
+ */
+export interface UpdateToolPermissionInputRequest {
+    type: "update_tool_permission_input";
+    permissionRequestId: string;
+    updatedInput: Record<string, unknown>;
+}
+
 /**
  * @ 提及插入
  */
@@ -536,10 +1157,8 @@ export interface InsertAtMentionRequest {
  */
 export interface SelectionChangedRequest {
     type: "selection_changed";
-    selection: {
-        start: { line: number; character: number };
-        end: { line: number; character: number };
-    };
+    selection: SelectionRange | null;   // 没有选中文本时为空
+    activeFile: string | null;          // 发送消息时作为 <ide_opened_file> 附带
 }
 
 /**
@@ -549,8 +1168,87 @@ export interface UpdateStateRequest {
     type: "update_state";
     // 与 init_response.state 对齐，保证双方一致
     state: InitResponse['state'];
-    // 后端下发的 Claude 配置对象
-    config: GetClaudeStateResponse['config'];
+    // 后端下发的 Claude 配置对象（仅配置项变化时可省略）
+    config?: GetClaudeStateResponse['config'];
+}
+
+/**
+ * 设置变化通知（VS Code 配置或 settings.json 被修改）
+ */
+export interface SettingsChangedRequest {
+    type: "settings_changed";
+    settings: SettingsSnapshot;
+}
+
+/**
+ * 会话预算
+ *
+ * 未设置的项使用工作区默认值（claudix.budget.*），0 表示不限制
+ */
+export interface SessionBudget {
+    maxCostUsd?: number;
+    maxOutputTokens?: number;
+    maxTurns?: number;      // 主线程的模型调用次数（包括工具循环中的每一轮）
+}
+
+export type BudgetKind = "cost" | "outputTokens" | "turns";
+
+/**
+ * 预算状态（按会话统计，恢复的会话包含对话记录中已有的用量）
+ */
+export interface BudgetStatus {
+    budget: Required<SessionBudget>;   // 生效的限制（会话设置覆盖工作区默认值）
+    usage: {
+        costUsd: number;                // 回合进行中按价格表估算，回合结束后以 SDK 报告的费用为准
+        outputTokens: number;
+        turns: number;
+    };
+    warnings: BudgetKind[];             // 达到警告阈值的限制
+    exceeded?: BudgetKind;              // 已触发停止的限制
+}
+
+/**
+ * 修改会话预算（channel 运行中立即生效）
+ */
+export interface SetSessionBudgetRequest {
+    type: "set_session_budget";
+    channelId?: string;
+    budget: SessionBudget;
+}
+
+export interface SetSessionBudgetResponse {
+    type: "set_session_budget_response";
+    status?: BudgetStatus;              // 没有运行中的 channel 时为空
+}
+
+/**
+ * 在 VS Code 输入框中编辑会话预算
+ */
+export interface EditSessionBudgetRequest {
+    type: "edit_session_budget";
+    budget: SessionBudget;              // 当前的会话设置
+}
+
+export interface EditSessionBudgetResponse {
+    type: "edit_session_budget_response";
+    budget?: SessionBudget;             // 用户取消时为空
+}
+
+/**
+ * 预算状态变化（Extension → WebView）
+ */
+export interface BudgetStatusRequest {
+    type: "budget_status";
+    channelId: string;
+    status: BudgetStatus;
+}
+
+/**
+ * 会话列表变化（Extension → WebView，对话记录被写入或删除时推送）
+ */
+export interface SessionsChangedRequest {
+    type: "sessions_changed";
+    sessions: ListSessionsResponse["sessions"];
 }
 
 // ============================================================================
@@ -602,21 +1300,47 @@ export type WebViewRequest =
     | SetModelRequest
     | SetThinkingLevelRequest
     | GetCurrentSelectionRequest
+    | GetDiagnosticsRequest
     | ShowNotificationRequest
     | NewConversationTabRequest
     | RenameTabRequest
     | GetClaudeStateRequest
     | GetMcpServersRequest
+    | ListMcpServerConfigsRequest
+    | SaveMcpServerRequest
+    | RemoveMcpServerRequest
+    | SetMcpServerEnabledRequest
+    | InspectMcpServerRequest
+    | GetSettingsRequest
+    | UpdateSettingsRequest
+    | UpdatePermissionRulesRequest
+    | GetPermissionRulesRequest
+    | RemovePermissionRuleRequest
     | GetAssetUrisRequest
     | ListSessionsRequest
     | GetSessionRequest
+    | ListSessionBranchesRequest
+    | RenameSessionRequest
+    | UpdateSessionMetadataRequest
+    | DeleteSessionRequest
+    | GetForkPointRequest
+    | RewindCheckpointRequest
+    | ExportSessionRequest
+    | SavePlanRequest
+    | GetUsageReportRequest
+    | ExportUsageCsvRequest
+    | OpenUsageDashboardRequest
+    | SetSessionBudgetRequest
+    | EditSessionBudgetRequest
+    | SearchSessionsRequest
     | ExecRequest
     | ListFilesRequest
     | OpenURLRequest
     | StatPathRequest
-    // | GetAuthStatusRequest
-    // | LoginRequest
-    // | SubmitOAuthCodeRequest
+    | GetAuthStatusRequest
+    | LoginRequest
+    | SubmitOAuthCodeRequest
+    | LogoutRequest
     | OpenConfigFileRequest
     | OpenClaudeInTerminalRequest;
 
@@ -632,21 +1356,47 @@ export type WebViewRequestResponse =
     | SetModelResponse
     | SetThinkingLevelResponse
     | GetCurrentSelectionResponse
+    | GetDiagnosticsResponse
     | ShowNotificationResponse
     | NewConversationTabResponse
     | RenameTabResponse
     | GetClaudeStateResponse
     | GetMcpServersResponse
+    | ListMcpServerConfigsResponse
+    | SaveMcpServerResponse
+    | RemoveMcpServerResponse
+    | SetMcpServerEnabledResponse
+    | InspectMcpServerResponse
+    | GetSettingsResponse
+    | UpdateSettingsResponse
+    | UpdatePermissionRulesResponse
+    | GetPermissionRulesResponse
+    | RemovePermissionRuleResponse
     | GetAssetUrisResponse
     | ListSessionsResponse
     | GetSessionResponse
+    | ListSessionBranchesResponse
+    | RenameSessionResponse
+    | UpdateSessionMetadataResponse
+    | DeleteSessionResponse
+    | GetForkPointResponse
+    | RewindCheckpointResponse
+    | ExportSessionResponse
+    | SavePlanResponse
+    | GetUsageReportResponse
+    | ExportUsageCsvResponse
+    | OpenUsageDashboardResponse
+    | SetSessionBudgetResponse
+    | EditSessionBudgetResponse
+    | SearchSessionsResponse
     | ExecResponse
     | ListFilesResponse
     | OpenURLResponse
     | StatPathResponse
-    // | GetAuthStatusResponse
-    // | LoginResponse
-    // | SubmitOAuthCodeResponse
+    | GetAuthStatusResponse
+    | LoginResponse
+    | SubmitOAuthCodeResponse
+    | LogoutResponse
     | OpenConfigFileResponse
     | OpenClaudeInTerminalResponse;
 
@@ -655,11 +1405,17 @@ export type WebViewRequestResponse =
  */
 export type ExtensionRequest =
     | ToolPermissionRequest
+    | ResolveToolPermissionRequest
+    | UpdateToolPermissionInputRequest
     | InsertAtMentionRequest
     | SelectionChangedRequest
     | UpdateStateRequest
-    | VisibilityChangedRequest;
-    // | AuthURLRequest;
+    | SettingsChangedRequest
+    | SessionsChangedRequest
+    | BudgetStatusRequest
+    | StartPromptRequest
+    | VisibilityChangedRequest
+    | AuthURLRequest;
 
 /**
  * 可见性变化（Extension → WebView）
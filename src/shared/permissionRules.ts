@@ -0,0 +1,240 @@
+/**
+ * 权限规则（Extension 与 WebView 共用）
+ *
+ * 把一次工具调用转换为可复用的 allow 规则，例如 `Bash(npm test:*)`、`Edit(src/**)`、`mcp__github`，
+ * 并转换为 SDK 的 PermissionUpdate，由 CLI 写入会话或对应的 settings.json
+ */
+
+import type { PermissionUpdate } from '@anthropic-ai/claude-agent-sdk';
+import { validatePermissionRule } from './settingsValidation';
+
+/**
+ * 规则的生效范围
+ * - session：仅当前会话
+ * - project：<cwd>/.claude/settings.json
+ * - user：~/.claude/settings.json
+ */
+export type PermissionRuleScope = "session" | "project" | "user";
+
+export const PERMISSION_RULE_SCOPES: readonly PermissionRuleScope[] = ["session", "project", "user"];
+
+export const PERMISSION_RULE_SCOPE_LABELS: Record<PermissionRuleScope, string> = {
+    session: "This session",
+    project: "Project (.claude/settings.json)",
+    user: "User (~/.claude/settings.json)"
+};
+
+type PermissionRuleDestination = Extract<PermissionUpdate, { type: "addRules" }>["destination"];
+
+const SCOPE_DESTINATIONS: Record<PermissionRuleScope, PermissionRuleDestination> = {
+    session: "session",
+    project: "projectSettings",
+    user: "userSettings"
+};
+
+/**
+ * 规则候选项
+ */
+export interface PermissionRuleSuggestion {
+    rule: string;
+    description: string;
+}
+
+/**
+ * 共用 Edit 规则的文件编辑工具
+ */
+const EDIT_TOOLS = ["Edit", "MultiEdit", "Write", "NotebookEdit"];
+
+/**
+ * 命令中包含这些符号时不生成前缀规则（前缀无法覆盖组合命令）
+ */
+const COMPOUND_COMMAND_REGEX = /[;&|<>`\n]|\$\(/;
+
+/**
+ * 不生成前缀规则的命令：解释器、shell 和包装命令的前缀等于允许任意命令，破坏性命令的前缀范围过宽
+ */
+const UNSAFE_PREFIX_COMMANDS = new Set([
+    // 解释器
+    "python", "python2", "python3", "node", "deno", "bun", "ruby", "perl", "php", "lua", "java", "osascript",
+    // shell
+    "sh", "bash", "zsh", "fish", "dash", "ksh", "csh", "tcsh", "pwsh", "powershell", "cmd",
+    // 包装命令
+    "sudo", "doas", "su", "env", "exec", "eval", "source", "xargs", "nohup", "nice", "time", "timeout", "watch", "npx", "bunx",
+    // 破坏性命令
+    "rm", "rmdir", "dd", "mkfs", "shred", "chmod", "chown", "mv", "kill", "killall", "pkill", "truncate"
+]);
+
+/**
+ * 子命令格式（例如 `git commit` 中的 commit），选项、路径和参数不算
+ */
+const SUBCOMMAND_REGEX = /^[a-z][a-z0-9:_-]*$/;
+
+/**
+ * 解析规则为 SDK 的 { toolName, ruleContent }，格式不合法时返回 undefined
+ */
+export function parsePermissionRule(rule: string): { toolName: string; ruleContent?: string } | undefined {
+    if (validatePermissionRule(rule)) {
+        return undefined;
+    }
+
+    const trimmed = rule.trim();
+    const open = trimmed.indexOf("(");
+    if (open < 0) {
+        return { toolName: trimmed };
+    }
+    return { toolName: trimmed.slice(0, open), ruleContent: trimmed.slice(open + 1, -1) };
+}
+
+/**
+ * 规则的文本形式：`Tool` 或 `Tool(ruleContent)`
+ */
+export function formatPermissionRule(value: { toolName: string; ruleContent?: string }): string {
+    return value.ruleContent ? `${value.toolName}(${value.ruleContent})` : value.toolName;
+}
+
+/**
+ * 前缀规则是否过宽：没有子命令（`Bash(ls:*)`），或命令是解释器、shell、包装命令或破坏性命令
+ */
+export function isUnsafeBashPrefixRule(value: { toolName: string; ruleContent?: string }): boolean {
+    if (value.toolName !== "Bash" || !value.ruleContent?.endsWith(":*")) {
+        return false;
+    }
+    const words = value.ruleContent.slice(0, -2).trim().split(/\s+/);
+    return words.length < 2 || UNSAFE_PREFIX_COMMANDS.has(words[0]);
+}
+
+/**
+ * 生成添加 allow 规则的 PermissionUpdate
+ */
+export function createAllowRuleUpdate(rule: string, scope: PermissionRuleScope): PermissionUpdate {
+    const value = parsePermissionRule(rule);
+    if (!value) {
+        throw new Error(validatePermissionRule(rule));
+    }
+    return { type: "addRules", rules: [value], behavior: "allow", destination: SCOPE_DESTINATIONS[scope] };
+}
+
+/**
+ * 为一次工具调用生成规则候选项：第一项为默认选中的规则（Bash 为完整命令，文件为所在目录），最后一项允许整个工具或服务器
+ *
+ * @param cwd 工作目录，其中的文件路径转换为相对路径
+ */
+export function suggestPermissionRules(
+    toolName: string,
+    inputs: Record<string, unknown>,
+    cwd?: string
+): PermissionRuleSuggestion[] {
+    if (toolName === "Bash") {
+        return suggestBashRules(typeof inputs.command === "string" ? inputs.command : "");
+    }
+
+    if (EDIT_TOOLS.includes(toolName) || toolName === "Read") {
+        const filePath = inputs.file_path ?? inputs.notebook_path;
+        return suggestPathRules(EDIT_TOOLS.includes(toolName) ? "Edit" : "Read", typeof filePath === "string" ? filePath : "", cwd);
+    }
+
+    if (toolName === "WebFetch" && typeof inputs.url === "string") {
+        const host = getHost(inputs.url);
+        return [
+            ...(host ? [{ rule: `WebFetch(domain:${host})`, description: `Fetches from ${host}` }] : []),
+            { rule: "WebFetch", description: "Any URL" }
+        ];
+    }
+
+    // mcp__<server>__<tool>：可以只允许这个工具，也可以允许整个服务器
+    const mcp = /^mcp__(.+?)__.+$/.exec(toolName);
+    if (mcp) {
+        return [
+            { rule: toolName, description: "This MCP tool" },
+            { rule: `mcp__${mcp[1]}`, description: `Every tool from the ${mcp[1]} MCP server` }
+        ];
+    }
+
+    return [{ rule: toolName, description: `Any ${toolName} call` }];
+}
+
+/**
+ * 权限请求的操作对象（命令、文件、URL 等），用于在列表中简要展示
+ */
+export function describePermissionTarget(toolName: string, inputs: Record<string, unknown>): string | undefined {
+    if (toolName === "ExitPlanMode") {
+        return "Plan ready for review";
+    }
+    for (const key of ["command", "file_path", "notebook_path", "url", "pattern", "path", "query", "description"]) {
+        const value = inputs[key];
+        if (typeof value === "string" && value.trim()) {
+            return value.trim().split("\n")[0];
+        }
+    }
+    return undefined;
+}
+
+function suggestBashRules(command: string): PermissionRuleSuggestion[] {
+    const trimmed = command.trim();
+    const suggestions: PermissionRuleSuggestion[] = [];
+
+    if (trimmed && !trimmed.includes("\n")) {
+        suggestions.push({ rule: `Bash(${trimmed})`, description: "This exact command" });
+    }
+
+    // 只有命令带子命令时（例如 `git commit`、`npm test`）才提供前缀规则
+    if (trimmed && !COMPOUND_COMMAND_REGEX.test(trimmed)) {
+        const words = trimmed.split(/\s+/);
+        const prefix = `${words[0]} ${words[1] ?? ""}`.trim();
+        const value = { toolName: "Bash", ruleContent: `${prefix}:*` };
+        if (words.length > 2 && SUBCOMMAND_REGEX.test(words[1]) && !isUnsafeBashPrefixRule(value)) {
+            suggestions.push({ rule: formatPermissionRule(value), description: `Commands starting with ${prefix}` });
+        }
+    }
+
+    suggestions.push({ rule: "Bash", description: "Any command" });
+    return suggestions;
+}
+
+function suggestPathRules(toolName: string, filePath: string, cwd?: string): PermissionRuleSuggestion[] {
+    const normalized = filePath.replace(/\\/g, "/");
+    const suggestions: PermissionRuleSuggestion[] = [];
+
+    if (normalized) {
+        const relative = toRulePath(normalized, cwd);
+        const slash = relative.lastIndexOf("/");
+        const dir = slash > 0 ? relative.slice(0, slash) : undefined;
+
+        suggestions.push({ rule: `${toolName}(${relative})`, description: "This file" });
+        if (dir && dir !== "/") {
+            suggestions.unshift({ rule: `${toolName}(${dir}/**)`, description: `Files under ${dir}` });
+        }
+    }
+
+    suggestions.push({
+        rule: toolName,
+        description: toolName === "Edit" ? "Any file edit" : "Any file read"
+    });
+    return suggestions;
+}
+
+/**
+ * 规则中的路径：工作目录内使用相对路径，其它绝对路径以 `//` 开头
+ */
+function toRulePath(filePath: string, cwd?: string): string {
+    const base = cwd?.replace(/\\/g, "/").replace(/\/+$/, "");
+    if (base && filePath.startsWith(`${base}/`)) {
+        return filePath.slice(base.length + 1);
+    }
+    if (filePath.startsWith("/")) {
+        return `/${filePath}`;
+    }
+    // Windows 盘符路径
+    if (/^[A-Za-z]:\//.test(filePath)) {
+        return `//${filePath}`;
+    }
+    return filePath;
+}
+
+function getHost(url: string): string | undefined {
+    try {
+        return new URL(url).hostname || undefined;
+    } catch {
+        return undefined;
+    }
+}
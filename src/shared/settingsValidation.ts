@@ -0,0 +1,92 @@
+/**
+ * 设置校验（Extension 与 WebView 共用）
+ *
+ * WebView 用于即时提示，Extension 在写入前再次校验
+ */
+
+import type { EnvironmentVariable } from './messages';
+
+/**
+ * 权限规则格式：`Tool` 或 `Tool(specifier)`
+ * 例如 `Bash(npm run test:*)`、`Read(./src/**)`、`mcp__github__create_issue`
+ */
+const PERMISSION_RULE_REGEX = /^([A-Za-z][A-Za-z0-9_-]*)(?:\(([\s\S]*)\))?$/;
+
+/**
+ * 环境变量名称格式
+ */
+const ENV_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * 校验单条权限规则，合法时返回 undefined
+ */
+export function validatePermissionRule(rule: string): string | undefined {
+    const trimmed = rule.trim();
+    if (!trimmed) {
+        return "Rule cannot be empty";
+    }
+
+    const match = PERMISSION_RULE_REGEX.exec(trimmed);
+    if (!match) {
+        return `Invalid rule "${trimmed}": expected Tool or Tool(specifier)`;
+    }
+
+    if (match[2] !== undefined && !match[2].trim()) {
+        return `Invalid rule "${trimmed}": specifier cannot be empty`;
+    }
+
+    return undefined;
+}
+
+/**
+ * 校验一组 allow / deny 规则（格式、重复、冲突）
+ */
+export function validatePermissionRules(allow: string[], deny: string[]): string[] {
+    const errors: string[] = [];
+
+    for (const [label, rules] of [["allow", allow], ["deny", deny]] as const) {
+        const seen = new Set<string>();
+        for (const rule of rules) {
+            const error = validatePermissionRule(rule);
+            if (error) {
+                errors.push(error);
+                continue;
+            }
+            const trimmed = rule.trim();
+            if (seen.has(trimmed)) {
+                errors.push(`Duplicate ${label} rule "${trimmed}"`);
+            }
+            seen.add(trimmed);
+        }
+    }
+
+    const denied = new Set(deny.map(rule => rule.trim()));
+    for (const rule of allow) {
+        if (denied.has(rule.trim())) {
+            errors.push(`Rule "${rule.trim()}" is both allowed and denied`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * 校验环境变量列表（名称格式与重复）
+ */
+export function validateEnvironmentVariables(variables: EnvironmentVariable[]): string[] {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    for (const variable of variables) {
+        if (!ENV_NAME_REGEX.test(variable.name)) {
+            errors.push(`Invalid environment variable name "${variable.name}"`);
+            continue;
+        }
+        if (seen.has(variable.name)) {
+            errors.push(`Duplicate environment variable "${variable.name}"`);
+        }
+        seen.add(variable.name);
+    }
+
+    return errors;
+}
@@ -0,0 +1,109 @@
+/**
+ * Thinking 等级（Extension 与 WebView 共用）
+ *
+ * 等级为命名档位（off | low | medium | high | max）或自定义 token 数（`custom:<tokens>`）
+ */
+
+export type ThinkingLevelName = "off" | "low" | "medium" | "high" | "max";
+
+export const THINKING_LEVELS: readonly ThinkingLevelName[] = ["off", "low", "medium", "high", "max"];
+
+/**
+ * 各档位对应的 maxThinkingTokens
+ */
+export const THINKING_LEVEL_TOKENS: Record<ThinkingLevelName, number> = {
+    off: 0,
+    low: 4000,
+    medium: 10000,
+    high: 20000,
+    max: 31999
+};
+
+export const THINKING_LEVEL_LABELS: Record<ThinkingLevelName, string> = {
+    off: "Off",
+    low: "Low",
+    medium: "Medium",
+    high: "High",
+    max: "Max"
+};
+
+export const DEFAULT_THINKING_LEVEL: ThinkingLevelName = "max";
+
+// 自定义 token 数的范围（SDK 要求思考预算不少于 1024）
+export const MIN_CUSTOM_THINKING_TOKENS = 1024;
+export const MAX_CUSTOM_THINKING_TOKENS = 63999;
+
+const CUSTOM_PREFIX = "custom:";
+
+/**
+ * 生成自定义 token 数的等级
+ */
+export function customThinkingLevel(tokens: number): string {
+    return `${CUSTOM_PREFIX}${Math.round(tokens)}`;
+}
+
+/**
+ * 解析自定义等级中的 token 数，不是自定义等级时返回 undefined
+ */
+export function parseCustomThinkingTokens(level: string): number | undefined {
+    if (!level.startsWith(CUSTOM_PREFIX)) {
+        return undefined;
+    }
+    const tokens = Number(level.slice(CUSTOM_PREFIX.length));
+    return Number.isInteger(tokens) ? tokens : undefined;
+}
+
+/**
+ * 校验等级，合法时返回 undefined
+ */
+export function validateThinkingLevel(level: string): string | undefined {
+    if ((THINKING_LEVELS as readonly string[]).includes(level)) {
+        return undefined;
+    }
+
+    const tokens = parseCustomThinkingTokens(level);
+    if (tokens === undefined) {
+        return `Invalid thinking level: ${level}`;
+    }
+    if (tokens < MIN_CUSTOM_THINKING_TOKENS || tokens > MAX_CUSTOM_THINKING_TOKENS) {
+        return `Thinking budget must be between ${MIN_CUSTOM_THINKING_TOKENS} and ${MAX_CUSTOM_THINKING_TOKENS} tokens`;
+    }
+    return undefined;
+}
+
+/**
+ * 规范化等级：旧版的 default_on 视为 max，无法识别的值回退到 fallback
+ */
+export function normalizeThinkingLevel(
+    level: string | null | undefined,
+    fallback: string = DEFAULT_THINKING_LEVEL
+): string {
+    if (level === "default_on") {
+        return "max";
+    }
+    if (level && !validateThinkingLevel(level)) {
+        return level;
+    }
+    return fallback === DEFAULT_THINKING_LEVEL ? fallback : normalizeThinkingLevel(fallback);
+}
+
+/**
+ * 获取等级对应的 maxThinkingTokens
+ */
+export function getMaxThinkingTokens(level: string | null | undefined): number {
+    const normalized = normalizeThinkingLevel(level);
+    return parseCustomThinkingTokens(normalized)
+        ?? THINKING_LEVEL_TOKENS[normalized as ThinkingLevelName];
+}
+
+/**
+ * 等级的显示名称，例如 `Medium`、`Custom (8,000)`
+ */
+export function formatThinkingLevel(level: string | null | undefined): string {
+    const normalized = normalizeThinkingLevel(level);
+    const tokens = parseCustomThinkingTokens(normalized);
+    if (tokens !== undefined) {
+        return `Custom (${tokens.toLocaleString("en-US")})`;
+    }
+    return THINKING_LEVEL_LABELS[normalized as ThinkingLevelName];
+}
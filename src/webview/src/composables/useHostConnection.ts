@@ -0,0 +1,21 @@
+import { onUnmounted } from 'vue';
+import { EventEmitter } from '../utils/events';
+import { ConnectionManager } from '../core/ConnectionManager';
+import { VSCodeTransport } from '../transport/VSCodeTransport';
+
+/**
+ * 编辑器页面（MCP 管理、设置等）使用的轻量连接
+ *
+ * 与 useRuntime 不同，这里不创建会话、不拉取会话列表，只提供请求通道
+ */
+export function useHostConnection(): ConnectionManager {
+  const connectionManager = new ConnectionManager(
+    () => new VSCodeTransport(new EventEmitter<string>(), new EventEmitter<any>())
+  );
+
+  onUnmounted(() => {
+    connectionManager.close();
+  });
+
+  return connectionManager;
+}
@@ -1,11 +1,10 @@
-import { onMounted, onUnmounted, watch } from 'vue';
-import { signal, effect } from 'alien-signals';
+import { onMounted, onUnmounted } from 'vue';
+import { effect } from 'alien-signals';
 import { EventEmitter } from '../utils/events';
 import { ConnectionManager } from '../core/ConnectionManager';
 import { VSCodeTransport } from '../transport/VSCodeTransport';
 import { AppContext } from '../core/AppContext';
 import { SessionStore } from '../core/SessionStore';
-import type { SelectionRange } from '../core/Session';
 
 export interface RuntimeInstance {
   connectionManager: ConnectionManager;
@@ -22,23 +21,11 @@ export function useRuntime(): RuntimeInstance {
   const connectionManager = new ConnectionManager(() => new VSCodeTransport(atMentionEvents, selectionEvents));
   const appContext = new AppContext(connectionManager);
 
-  // 创建 alien-signal 用于 SessionContext
-  // AppContext.currentSelection 是 Vue Ref，但 SessionContext 需要 alien-signal
-  const currentSelectionSignal = signal<SelectionRange | undefined>(undefined);
-
-  // 双向同步 Vue Ref ↔ Alien Signal
-  // Vue Ref → Alien Signal
-  watch(
-    () => appContext.currentSelection(),
-    (newValue) => {
-      currentSelectionSignal(newValue);
-    },
-    { immediate: true }
-  );
-
+  // AppContext 的选区与当前文件都是 alien-signal，直接交给 SessionContext
   const sessionStore = new SessionStore(connectionManager, {
     commandRegistry: appContext.commandRegistry,
-    currentSelection: currentSelectionSignal,
+    currentSelection: appContext.currentSelection,
+    activeFile: appContext.activeFile,
     fileOpener: appContext.fileOpener,
     showNotification: appContext.showNotification?.bind(appContext),
     startNewConversationTab: appContext.startNewConversationTab?.bind(appContext),
@@ -46,12 +33,20 @@ export function useRuntime(): RuntimeInstance {
     openURL: appContext.openURL.bind(appContext)
   });
 
-  selectionEvents.add((selection) => {
-    appContext.currentSelection(selection);
+  selectionEvents.add((context) => {
+    appContext.currentSelection(context.selection ?? undefined);
+    appContext.activeFile(context.activeFile ?? undefined);
   });
 
   // SessionStore 内部的 effect 会自动监听 connection 建立并拉取会话列表
 
+  // 保存当前会话 ID，编辑器标签在窗口重载后据此恢复
+  const cleanupViewState = effect(() => {
+    const connection = connectionManager.connection();
+    const sessionId = sessionStore.activeSession()?.sessionId();
+    connection?.saveViewState({ sessionId });
+  });
+
   // 监听 claudeConfig 变化并注册 Slash Commands
   let slashCommandDisposers: Array<() => void> = [];
 
@@ -102,7 +97,10 @@ export function useRuntime(): RuntimeInstance {
 
       try {
         const selection = await connection.getCurrentSelection();
-        if (!disposed) appContext.currentSelection(selection?.selection ?? undefined);
+        if (!disposed) {
+          appContext.currentSelection(selection?.selection ?? undefined);
+          appContext.activeFile(selection?.activeFile ?? undefined);
+        }
       } catch (e) { console.warn('[runtime] selection fetch failed', e); }
 
       try {
@@ -111,9 +109,24 @@ export function useRuntime(): RuntimeInstance {
       } catch (e) { console.warn('[runtime] assets fetch failed', e); }
 
       await sessionStore.listSessions();
-      if (!disposed && !sessionStore.activeSession()) {
+      if (disposed) {
+        return;
+      }
+
+      // 编辑器标签：打开指定的会话（恢复或从历史打开）
+      const bootstrap = window.CLAUDIX_BOOTSTRAP;
+      const restored = bootstrap?.sessionId
+        ? sessionStore.sessions().find((session) => session.sessionId() === bootstrap.sessionId)
+        : undefined;
+      if (restored) {
+        sessionStore.setActiveSession(restored);
+      } else if (!sessionStore.activeSession()) {
         await sessionStore.createSession({ isExplicit: false });
       }
+
+      if (!disposed && bootstrap?.initialPrompt && !restored) {
+        await sessionStore.startPrompt({ prompt: bootstrap.initialPrompt });
+      }
     })();
 
     onUnmounted(() => {
@@ -122,6 +135,7 @@ export function useRuntime(): RuntimeInstance {
       // 清理命令注册
       slashCommandDisposers.forEach(dispose => dispose());
       cleanupSlashCommands();
+      cleanupViewState();
 
       connectionManager.close();
     });
@@ -19,10 +19,18 @@ import { computed } from 'vue';
 import type { ComputedRef, Ref } from 'vue';
 import { useSignal } from '@gn8/alien-signals-vue';
 import type { PermissionMode } from '@anthropic-ai/claude-agent-sdk';
-import type { Session, SelectionRange } from '../core/Session';
+import type { Session, SelectionRange, RewindMode, UsageData } from '../core/Session';
 import type { PermissionRequest } from '../core/PermissionRequest';
 import type { BaseTransport } from '../transport/BaseTransport';
-import type { ModelOption } from '../../../shared/messages';
+import type { Message } from '../models/Message';
+import type {
+  BudgetStatus,
+  IdeDiagnostic,
+  ModelOption,
+  RewindCheckpointResponse,
+  SessionBudget,
+  SessionMetadata
+} from '../../../shared/messages';
 
 /**
  * useSession 返回类型
@@ -40,7 +48,13 @@ export interface UseSessionReturn {
   // 核心数据
   messages: Ref<any[]>;
   messageCount: Ref<number>;
+  branchCount: Ref<number>;
+  pinned: Ref<boolean>;
+  tags: Ref<string[]>;
+  archived: Ref<boolean>;
+  revealTarget: Ref<string | undefined>;
   cwd: Ref<string | undefined>;
+  folderName: Ref<string | undefined>;
   permissionMode: Ref<PermissionMode>;
   summary: Ref<string | undefined>;
   modelSelection: Ref<string | undefined>;
@@ -48,18 +62,18 @@ export interface UseSessionReturn {
   todos: Ref<any[]>;
   worktree: Ref<{ name: string; path: string } | undefined>;
   selection: Ref<SelectionRange | undefined>;
+  activeFile: Ref<string | undefined>;
+  includeEditorContext: Ref<boolean>;
 
   // 使用统计
-  usageData: Ref<{
-    totalTokens: number;
-    totalCost: number;
-    contextWindow: number;
-  }>;
+  usageData: Ref<UsageData>;
+  budgetOverride: Ref<SessionBudget>;
 
   // 计算属性
   claudeConfig: ComputedRef<any>;
   config: ComputedRef<any>;
   permissionRequests: ComputedRef<PermissionRequest[]>;
+  budgetStatus: ComputedRef<BudgetStatus | undefined>;
 
   // 派生状态
   isOffline: ComputedRef<boolean>;
@@ -71,15 +85,32 @@ export interface UseSessionReturn {
   send: (
     input: string,
     attachments?: Array<{ fileName: string; mediaType: string; data: string }>,
-    includeSelection?: boolean
+    includeEditorContext?: boolean,
+    context?: { selection?: SelectionRange; diagnostics?: IdeDiagnostic[] }
   ) => Promise<void>;
   launchClaude: () => Promise<string>;
   interrupt: () => Promise<void>;
   restartClaude: () => Promise<void>;
+  rewindTo: (message: Message, mode: RewindMode) => Promise<RewindCheckpointResponse>;
+  editAndResend: (
+    message: Message,
+    input: string,
+    attachments?: Array<{ fileName: string; mediaType: string; data: string }>
+  ) => Promise<void>;
+  switchBranch: (leafUuid: string) => Promise<void>;
+  exportConversation: () => Promise<string | undefined>;
+  savePlan: (plan: string) => Promise<string | undefined>;
+  revealMessage: (uuid: string | undefined) => void;
+  rename: (title: string) => Promise<void>;
+  updateMetadata: (patch: Pick<SessionMetadata, 'pinned' | 'tags' | 'archived'>) => Promise<void>;
   listFiles: (pattern?: string) => Promise<any>;
   setPermissionMode: (mode: PermissionMode, applyToConnection?: boolean) => Promise<boolean>;
   setModel: (model: ModelOption) => Promise<boolean>;
   setThinkingLevel: (level: string) => Promise<void>;
+  setBudget: (budget: SessionBudget) => Promise<void>;
+  setIncludeEditorContext: (include: boolean) => void;
+  editBudget: () => Promise<void>;
+  openInTerminal: () => Promise<void>;
   getMcpServers: () => Promise<any>;
   openConfigFile: (configType: string) => Promise<void>;
   onPermissionRequested: (callback: (request: PermissionRequest) => void) => () => void;
@@ -106,7 +137,13 @@ export function useSession(session: Session): UseSessionReturn {
   const lastModifiedTime = useSignal(session.lastModifiedTime);
   const messages = useSignal(session.messages);
   const messageCount = useSignal(session.messageCount);
+  const branchCount = useSignal(session.branchCount);
+  const pinned = useSignal(session.pinned);
+  const tags = useSignal(session.tags);
+  const archived = useSignal(session.archived);
+  const revealTarget = useSignal(session.revealTarget);
   const cwd = useSignal(session.cwd);
+  const folderName = useSignal(session.folderName);
   const permissionMode = useSignal(session.permissionMode);
   const summary = useSignal(session.summary);
   const modelSelection = useSignal(session.modelSelection);
@@ -114,12 +151,16 @@ export function useSession(session: Session): UseSessionReturn {
   const todos = useSignal(session.todos);
   const worktree = useSignal(session.worktree);
   const selection = useSignal(session.selection);
+  const activeFile = useSignal(session.activeFile);
+  const includeEditorContext = useSignal(session.includeEditorContext);
   const usageData = useSignal(session.usageData);
+  const budgetOverride = useSignal(session.budgetOverride);
 
   //  使用 useSignal 包装 alien computed（读-only 使用，不调用 setter）
   const claudeConfig = useSignal(session.claudeConfig as any);
   const config = useSignal(session.config as any);
   const permissionRequests = useSignal(session.permissionRequests) as unknown as ComputedRef<PermissionRequest[]>;
+  const budgetStatus = useSignal(session.budgetStatus) as unknown as ComputedRef<BudgetStatus | undefined>;
 
   //  派生状态（临时保留 Vue computed）
   const isOffline = computed(() => session.isOffline());
@@ -132,10 +173,22 @@ export function useSession(session: Session): UseSessionReturn {
   const launchClaude = session.launchClaude.bind(session);
   const interrupt = session.interrupt.bind(session);
   const restartClaude = session.restartClaude.bind(session);
+  const rewindTo = session.rewindTo.bind(session);
+  const editAndResend = session.editAndResend.bind(session);
+  const switchBranch = session.switchBranch.bind(session);
+  const exportConversation = session.exportConversation.bind(session);
+  const savePlan = session.savePlan.bind(session);
+  const revealMessage = session.revealMessage.bind(session);
+  const rename = session.rename.bind(session);
+  const updateMetadata = session.updateMetadata.bind(session);
   const listFiles = session.listFiles.bind(session);
   const setPermissionMode = session.setPermissionMode.bind(session);
   const setModel = session.setModel.bind(session);
   const setThinkingLevel = session.setThinkingLevel.bind(session);
+  const setBudget = session.setBudget.bind(session);
+  const setIncludeEditorContext = session.setIncludeEditorContext.bind(session);
+  const editBudget = session.editBudget.bind(session);
+  const openInTerminal = session.openInTerminal.bind(session);
   const getMcpServers = session.getMcpServers.bind(session);
   const openConfigFile = session.openConfigFile.bind(session);
   const onPermissionRequested = session.onPermissionRequested.bind(session);
@@ -152,7 +205,13 @@ export function useSession(session: Session): UseSessionReturn {
     lastModifiedTime,
     messages,
     messageCount,
+    branchCount,
+    pinned,
+    tags,
+    archived,
+    revealTarget,
     cwd,
+    folderName,
     permissionMode,
     summary,
     modelSelection,
@@ -160,12 +219,16 @@ export function useSession(session: Session): UseSessionReturn {
     todos,
     worktree,
     selection,
+    activeFile,
+    includeEditorContext,
     usageData,
+    budgetOverride,
 
     // 计算属性
     claudeConfig,
     config,
     permissionRequests,
+    budgetStatus,
     isOffline,
 
     // 方法
@@ -176,10 +239,22 @@ export function useSession(session: Session): UseSessionReturn {
     launchClaude,
     interrupt,
     restartClaude,
+    rewindTo,
+    editAndResend,
+    switchBranch,
+    exportConversation,
+    savePlan,
+    revealMessage,
+    rename,
+    updateMetadata,
     listFiles,
     setPermissionMode,
     setModel,
     setThinkingLevel,
+    setBudget,
+    setIncludeEditorContext,
+    editBudget,
+    openInTerminal,
     getMcpServers,
     openConfigFile,
     onPermissionRequested,
@@ -20,6 +20,8 @@ import { useSignal } from '@gn8/alien-signals-vue';
 import type { SessionStore, PermissionEvent } from '../core/SessionStore';
 import type { Session, SessionOptions } from '../core/Session';
 import type { BaseTransport } from '../transport/BaseTransport';
+import type { Message } from '../models/Message';
+import type { SessionBranch } from '../../../shared/messages';
 
 /**
  * useSessionStore 返回类型
@@ -32,12 +34,16 @@ export interface UseSessionStoreReturn {
   // 计算属性
   sessionsByLastModified: ComputedRef<Session[]>;
   connectionState: ComputedRef<string>;
+  pendingPermissions: ComputedRef<PermissionEvent[]>;
 
   // 方法
   onPermissionRequested: (callback: (event: PermissionEvent) => void) => () => void;
   getConnection: () => Promise<BaseTransport>;
   createSession: (options?: SessionOptions) => Promise<Session>;
   listSessions: () => Promise<void>;
+  forkSession: (source: Session, message: Message) => Promise<Session>;
+  openBranch: (branch: SessionBranch, source?: Session) => Promise<Session>;
+  deleteSession: (session: Session) => Promise<void>;
   setActiveSession: (session: Session | undefined) => void;
   dispose: () => void;
 
@@ -59,12 +65,16 @@ export function useSessionStore(store: SessionStore): UseSessionStoreReturn {
   // 🔥 使用 useSignal 包装 alien computed
   const sessionsByLastModified = useSignal(store.sessionsByLastModified) as unknown as ComputedRef<Session[]>;
   const connectionState = useSignal(store.connectionState) as unknown as ComputedRef<string>;
+  const pendingPermissions = useSignal(store.pendingPermissions) as unknown as ComputedRef<PermissionEvent[]>;
 
   // 🔥 绑定所有方法（确保 this 指向正确）
   const onPermissionRequested = store.onPermissionRequested.bind(store);
   const getConnection = store.getConnection.bind(store);
   const createSession = store.createSession.bind(store);
   const listSessions = store.listSessions.bind(store);
+  const forkSession = store.forkSession.bind(store);
+  const openBranch = store.openBranch.bind(store);
+  const deleteSession = store.deleteSession.bind(store);
   const setActiveSession = store.setActiveSession.bind(store);
   const dispose = store.dispose.bind(store);
 
@@ -76,12 +86,16 @@ export function useSessionStore(store: SessionStore): UseSessionStoreReturn {
     // 计算属性
     sessionsByLastModified,
     connectionState,
+    pendingPermissions,
 
     // 方法
     onPermissionRequested,
     getConnection,
     createSession,
     listSessions,
+    forkSession,
+    openBranch,
+    deleteSession,
     setActiveSession,
     dispose,
 
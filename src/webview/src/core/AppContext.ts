@@ -92,6 +92,8 @@ export class CommandRegistry {
 export class AppContext {
   readonly commandRegistry = new CommandRegistry();
   readonly currentSelection = signal<SelectionRange | undefined>(undefined);
+  // 当前编辑器中的文件（扩展端推送）
+  readonly activeFile = signal<string | undefined>(undefined);
   readonly assetUris = signal<Record<string, { light: string; dark: string }> | undefined>(
     undefined
   );
@@ -139,9 +141,11 @@ export class AppContext {
   }
 
   renameTab(title: string): boolean {
+    // 只有编辑器中的面板有标签标题，侧边栏忽略
+    const bootstrap = window.CLAUDIX_BOOTSTRAP;
     const connection = this.connectionManager.connection();
-    if (connection?.config()?.openNewInTab) {
-      void connection.renameTab(title);
+    if (connection && bootstrap?.host === 'editor' && bootstrap.id) {
+      void connection.renameTab(title, bootstrap.id);
       return true;
     }
     return false;
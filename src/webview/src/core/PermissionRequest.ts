@@ -2,28 +2,42 @@ import type { PermissionUpdate, PermissionResult } from '@anthropic-ai/claude-ag
 import { EventEmitter } from '../utils/events';
 
 export class PermissionRequest {
+  // 扩展端 tool_permission_request 的 requestId
+  readonly id: string;
   readonly channelId: string;
   readonly toolName: string;
-  readonly inputs: Record<string, unknown>;
+  inputs: Record<string, unknown>;
   readonly suggestions: PermissionUpdate[];
 
   private readonly resolved: EventEmitter<PermissionResult> = new EventEmitter();
 
   constructor(
+    id: string,
     channelId: string,
     toolName: string,
     inputs: Record<string, unknown>,
     suggestions: PermissionUpdate[] = []
   ) {
+    this.id = id;
     this.channelId = channelId;
     this.toolName = toolName;
     this.inputs = inputs;
     this.suggestions = suggestions;
   }
 
+  /**
+   * 用户在 Diff 视图中修改了提议的内容
+   */
+  updateInputs(inputs: Record<string, unknown>): void {
+    this.inputs = inputs;
+  }
+
+  /**
+   * 允许本次调用；只有显式传入 updatedPermissions 时才会新增规则或切换模式
+   */
   accept(
     updatedInput: Record<string, unknown> = this.inputs,
-    updatedPermissions: PermissionUpdate[] = this.suggestions
+    updatedPermissions: PermissionUpdate[] = []
   ): void {
     this.resolved.emit({ behavior: 'allow', updatedInput, updatedPermissions });
   }
@@ -1,12 +1,21 @@
 import { signal, computed, effect } from 'alien-signals';
 import type { BaseTransport } from '../transport/BaseTransport';
 import type { PermissionRequest } from './PermissionRequest';
-import type { ModelOption } from '../../../shared/messages';
+import type {
+  BudgetStatus,
+  IdeDiagnostic,
+  ModelOption,
+  RewindCheckpointResponse,
+  SessionBudget,
+  SessionMetadata
+} from '../../../shared/messages';
 import type { SessionSummary } from './types';
-import type { PermissionMode } from '@anthropic-ai/claude-agent-sdk';
+import type { PermissionMode, SDKPartialAssistantMessage } from '@anthropic-ai/claude-agent-sdk';
 import { processAndAttachMessage /*, mergeConsecutiveReadMessages */ } from '../utils/messageUtils';
 import { Message as MessageModel } from '../models/Message';
 import type { Message } from '../models/Message';
+import { StreamingMessage } from '../models/StreamingMessage';
+import { DEFAULT_THINKING_LEVEL, normalizeThinkingLevel } from '../../../shared/thinkingLevels';
 
 export interface SelectionRange {
   filePath: string;
@@ -18,11 +27,22 @@ export interface SelectionRange {
 }
 
 export interface UsageData {
-  totalTokens: number;
-  totalCost: number;
+  totalTokens: number;     // 本会话累计 token（来自 result 消息）
+  totalCost: number;       // 本会话累计费用（美元，来自 result 消息）
+  contextTokens: number;   // 最近一次请求占用的上下文
   contextWindow: number;
 }
 
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+const EXTENDED_CONTEXT_WINDOW = 1_000_000;
+
+/**
+ * 模型的上下文窗口（带 [1m] 后缀的模型使用 1M 上下文）
+ */
+function getContextWindow(model: string | undefined): number {
+  return model && /\[1m\]$/i.test(model) ? EXTENDED_CONTEXT_WINDOW : DEFAULT_CONTEXT_WINDOW;
+}
+
 export interface AttachmentPayload {
   fileName: string;
   mediaType: string;
@@ -30,8 +50,28 @@ export interface AttachmentPayload {
   fileSize?: number;
 }
 
+/**
+ * 回退方式
+ * - files：仅恢复文件
+ * - truncate：恢复文件并丢弃该消息及之后的对话
+ * - fork：恢复文件并从该消息之前分叉出新会话
+ */
+export type RewindMode = 'files' | 'truncate' | 'fork';
+
+/**
+ * 启动 channel 时的恢复位置
+ */
+interface ResumePoint {
+  sessionId?: string;        // 恢复的会话（默认为当前会话）
+  resumeSessionAt?: string;  // 恢复到指定消息
+  forkSession?: boolean;     // 恢复为新会话
+}
+
 const IMAGE_MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
 
+// 消息中的 @problems 提及
+const PROBLEMS_MENTION = /(^|\s)@problems\b/;
+
 export interface SessionOptions {
   isExplicit?: boolean;
   existingWorktree?: { name: string; path: string };
@@ -40,6 +80,7 @@ export interface SessionOptions {
 
 export interface SessionContext {
   currentSelection: ReturnType<typeof signal<SelectionRange | undefined>>;
+  activeFile: ReturnType<typeof signal<string | undefined>>;
   commandRegistry: { registerAction: (...args: any[]) => void };
   fileOpener: {
     open: (filePath: string, location?: any) => Promise<void> | void;
@@ -64,7 +105,11 @@ export class Session {
   private readonly claudeChannelId = signal<string | undefined>(undefined);
   private currentConnectionPromise?: Promise<BaseTransport>;
   private lastSentSelection?: SelectionRange;
+  private lastSentActiveFile?: string;
+  // 上次自动附带的当前文件错误（未变化时不重复附带）
+  private lastSentDiagnostics?: string;
   private effectCleanup?: () => void;
+  private streamingMessage?: StreamingMessage;
 
   readonly connection = signal<BaseTransport | undefined>(undefined);
 
@@ -76,20 +121,50 @@ export class Session {
   readonly lastModifiedTime = signal<number>(Date.now());
   readonly messages = signal<Message[]>([]);
   readonly messageCount = signal<number>(0);
+  readonly branchCount = signal<number>(1);
+  readonly pinned = signal<boolean>(false);
+  readonly tags = signal<string[]>([]);
+  readonly archived = signal<boolean>(false);
   readonly cwd = signal<string | undefined>(undefined);
+  // 所属工作区文件夹或 worktree 的名称（会话列表分组）
+  readonly folderName = signal<string | undefined>(undefined);
   readonly permissionMode = signal<PermissionMode>('default');
   readonly summary = signal<string | undefined>(undefined);
   readonly modelSelection = signal<string | undefined>(undefined);
-  readonly thinkingLevel = signal<string>('default_on');
+  readonly thinkingLevel = signal<string>(DEFAULT_THINKING_LEVEL);
   readonly todos = signal<any[]>([]);
   readonly worktree = signal<{ name: string; path: string } | undefined>(undefined);
   readonly selection = signal<SelectionRange | undefined>(undefined);
+  readonly activeFile = signal<string | undefined>(undefined);
+  // 发送消息时是否附带当前文件与选区（输入框中的开关）
+  readonly includeEditorContext = signal(true);
+  // 打开会话后需要滚动定位到的消息 uuid（来自搜索结果）
+  readonly revealTarget = signal<string | undefined>(undefined);
   readonly usageData = signal<UsageData>({
     totalTokens: 0,
     totalCost: 0,
-    contextWindow: 200000
+    contextTokens: 0,
+    contextWindow: DEFAULT_CONTEXT_WINDOW
   });
 
+  // 会话预算（未设置的项使用工作区默认值，启动 channel 时传给扩展）
+  readonly budgetOverride = signal<SessionBudget>({});
+
+  // 当前 channel 已计入的累计值（SDK 的 result 消息报告 channel 启动以来的累计值）
+  private channelUsage = { cost: 0, tokens: 0 };
+
+  // 用户尚未手动切换时，首次启动使用配置中的默认权限模式与 thinking 等级
+  private defaultsApplied = false;
+
+  // 会话元数据中记录了 thinking 等级（恢复会话时优先于配置中的默认值）
+  private thinkingLevelRestored = false;
+
+  // 下次启动 channel 时恢复到的位置（回退、编辑重发、切换分支、分叉时设置，使用一次）
+  private pendingResume?: ResumePoint;
+
+  // 从服务器加载的分支（叶子消息 uuid），默认为最新分支
+  private branchLeafUuid?: string;
+
   readonly claudeConfig = computed(() => {
     const conn = this.connection();
     return conn?.claudeConfig?.();
@@ -112,6 +187,16 @@ export class Session {
       .filter((request) => request.channelId === channelId);
   });
 
+  // 扩展端统计的当前 channel 预算状态（channel 启动后首次调用模型前为空）
+  readonly budgetStatus = computed<BudgetStatus | undefined>(() => {
+    const conn = this.connection();
+    const channelId = this.claudeChannelId();
+    if (!conn || !channelId) {
+      return undefined;
+    }
+    return conn.budgetStatuses()[channelId];
+  });
+
   isOffline(): boolean {
     return (
       !this.connection() &&
@@ -131,6 +216,9 @@ export class Session {
     effect(() => {
       this.selection(this.context.currentSelection());
     });
+    effect(() => {
+      this.activeFile(this.context.activeFile());
+    });
   }
 
   static fromServer(
@@ -143,10 +231,27 @@ export class Session {
     session.lastModifiedTime(summary.lastModified);
     session.summary(summary.summary);
     session.worktree(summary.worktree);
+    session.cwd(summary.cwd);
+    session.folderName(summary.folderName);
     session.messageCount(summary.messageCount ?? 0);  // 保存服务器返回的消息数量
+    session.branchCount(summary.branchCount ?? 1);
+    session.applyMetadata(summary);
     return session;
   }
 
+  /**
+   * 同步服务器返回的置顶、标签、归档状态，以及首次启动前记录的 thinking 等级
+   */
+  applyMetadata(metadata: SessionMetadata): void {
+    this.pinned(!!metadata.pinned);
+    this.tags(metadata.tags ?? []);
+    this.archived(!!metadata.archived);
+    if (metadata.thinkingLevel && !this.defaultsApplied) {
+      this.thinkingLevel(normalizeThinkingLevel(metadata.thinkingLevel));
+      this.thinkingLevelRestored = true;
+    }
+  }
+
   async getConnection(): Promise<BaseTransport> {
     const current = this.connection();
     if (current) {
@@ -176,7 +281,7 @@ export class Session {
     this.isLoading(true);
     try {
       const connection = await this.getConnection();
-      const response = await connection.getSession(sessionId);
+      const response = await connection.getSession(sessionId, this.branchLeafUuid, this.cwd());
       const accumulator: Message[] = [];
       for (const raw of response?.messages ?? []) {
         this.processMessage(raw);
@@ -187,6 +292,9 @@ export class Session {
       // 移除 ReadCoalesced 合并逻辑
       // this.messages(mergeConsecutiveReadMessages(accumulator));
       this.messages(accumulator);
+      if (this.branchLeafUuid) {
+        this.pendingResume = { resumeSessionAt: this.branchLeafUuid };
+      }
       await this.launchClaude();
     } finally {
       this.isLoading(false);
@@ -196,7 +304,8 @@ export class Session {
   async send(
     input: string,
     attachments: AttachmentPayload[] = [],
-    includeSelection = false
+    includeEditorContext = false,
+    context: { selection?: SelectionRange; diagnostics?: IdeDiagnostic[] } = {}
   ): Promise<void> {
     const connection = await this.getConnection();
 
@@ -206,16 +315,37 @@ export class Session {
 
     // 启动 channel（确保已带上当前 thinkingLevel）
     await this.launchClaude();
+    // 新消息接在当前分支之后，此后它就是最新分支
+    this.branchLeafUuid = undefined;
 
-    const shouldIncludeSelection = includeSelection && !isSlash;
+    // 有选区时附带选区，否则附带当前文件（与上次发送的相同则跳过）
     let selectionPayload: SelectionRange | undefined;
-
-    if (shouldIncludeSelection && !this.isSameSelection(this.lastSentSelection, this.selection())) {
-      selectionPayload = this.selection();
-      this.lastSentSelection = selectionPayload;
+    let openedFilePayload: string | undefined;
+
+    if (context.selection) {
+      // 编辑器命令传入的选区总是附带
+      selectionPayload = context.selection;
+      this.lastSentSelection = context.selection;
+      this.lastSentActiveFile = context.selection.filePath;
+    } else if (includeEditorContext && !isSlash) {
+      const selection = this.selection();
+      const activeFile = this.activeFile();
+      if (selection && !this.isSameSelection(this.lastSentSelection, selection)) {
+        selectionPayload = selection;
+      } else if (!selection && activeFile && activeFile !== this.lastSentActiveFile) {
+        openedFilePayload = activeFile;
+      }
+      this.lastSentSelection = selection;
+      this.lastSentActiveFile = selection?.filePath ?? activeFile;
     }
 
-    const userMessage = this.buildUserMessage(input, attachments, selectionPayload);
+    const diagnosticsPayload = context.diagnostics ?? (isSlash ? undefined : await this.collectDiagnostics(connection, input));
+
+    const userMessage = this.buildUserMessage(input, attachments, {
+      selection: selectionPayload,
+      openedFile: openedFilePayload,
+      diagnostics: diagnosticsPayload
+    });
     const messageModel = MessageModel.fromRaw(userMessage);
 
     if (messageModel) {
@@ -258,24 +388,193 @@ export class Session {
     if (!this.modelSelection()) {
       this.modelSelection(connection.config()?.modelSetting);
     }
-
-    if (!this.thinkingLevel()) {
-      this.thinkingLevel(connection.config()?.thinkingLevel || 'default_on');
+    this.channelUsage = { cost: 0, tokens: 0 };
+    this.setContextWindow(getContextWindow(this.modelSelection()));
+
+    if (!this.defaultsApplied) {
+      this.defaultsApplied = true;
+      const config = connection.config();
+      if (config?.defaultPermissionMode) {
+        this.permissionMode(config.defaultPermissionMode);
+      }
+      if (!this.thinkingLevelRestored) {
+        this.thinkingLevel(normalizeThinkingLevel(config?.thinkingLevel));
+      }
     }
 
+    const resumeOptions = this.pendingResume;
+    this.pendingResume = undefined;
+
     const stream = connection.launchClaude(
       channelId,
-      this.sessionId() ?? undefined,
+      resumeOptions?.sessionId ?? this.sessionId() ?? undefined,
       this.cwd() ?? undefined,
       this.modelSelection() ?? undefined,
       this.permissionMode(),
-      this.thinkingLevel()
+      this.thinkingLevel(),
+      resumeOptions && {
+        resumeSessionAt: resumeOptions.resumeSessionAt,
+        forkSession: resumeOptions.forkSession
+      },
+      this.budgetOverride()
     );
 
-    void this.readMessages(stream);
+    void this.readMessages(stream, channelId);
     return channelId;
   }
 
+  /**
+   * 回退到某条用户消息之前：恢复之后被修改的文件，可选截断或分叉对话
+   */
+  async rewindTo(message: Message, mode: RewindMode): Promise<RewindCheckpointResponse> {
+    const sessionId = this.sessionId();
+    if (!sessionId || !message.uuid) {
+      throw new Error('No checkpoint available for this message');
+    }
+    if (this.busy()) {
+      throw new Error('Wait for the current response to finish before rewinding');
+    }
+
+    const connection = await this.getConnection();
+    const result = await connection.rewindCheckpoint(sessionId, message.uuid, this.cwd());
+    if (mode === 'files') {
+      return result;
+    }
+
+    this.resumeBefore(connection, message, result.resumeSessionAt, mode === 'fork');
+    await this.launchClaude();
+    return result;
+  }
+
+  /**
+   * 编辑并重新发送：在该消息之前创建新分支，发送编辑后的内容
+   */
+  async editAndResend(
+    message: Message,
+    input: string,
+    attachments: AttachmentPayload[] = []
+  ): Promise<void> {
+    if (!this.sessionId() || !message.uuid) {
+      throw new Error('This message cannot be edited yet');
+    }
+    if (this.busy()) {
+      throw new Error('Wait for the current response to finish before editing');
+    }
+
+    const connection = await this.getConnection();
+    const response = await connection.getForkPoint(message.uuid, 'before', this.cwd());
+    this.resumeBefore(connection, message, response.resumeSessionAt, false);
+    await this.send(input, attachments);
+  }
+
+  /**
+   * 切换到同一对话树中的另一个分支
+   */
+  async switchBranch(leafUuid: string): Promise<void> {
+    if (this.busy()) {
+      throw new Error('Wait for the current response to finish before switching branches');
+    }
+
+    const connection = await this.getConnection();
+    this.closeChannel(connection);
+    this.branchLeafUuid = leafUuid;
+    this.messages([]);
+    await this.loadFromServer();
+  }
+
+  /**
+   * 重命名（空标题恢复自动生成的摘要，由随后推送的会话列表更新）
+   */
+  async rename(title: string): Promise<void> {
+    const sessionId = this.requireSessionId();
+    const connection = await this.getConnection();
+    const { metadata } = await connection.renameSession(sessionId, title, this.cwd());
+    if (metadata.title) {
+      this.summary(metadata.title);
+    }
+  }
+
+  /**
+   * 更新置顶、标签、归档状态
+   */
+  async updateMetadata(patch: Pick<SessionMetadata, 'pinned' | 'tags' | 'archived'>): Promise<void> {
+    const sessionId = this.requireSessionId();
+    const connection = await this.getConnection();
+    const { metadata } = await connection.updateSessionMetadata(sessionId, patch, this.cwd());
+    this.applyMetadata(metadata);
+  }
+
+  /**
+   * 删除服务器上的对话记录（会话正在运行时拒绝）
+   */
+  async deleteFromServer(): Promise<void> {
+    const sessionId = this.requireSessionId();
+    if (this.busy()) {
+      throw new Error('Stop the current response before deleting this conversation');
+    }
+
+    const connection = await this.getConnection();
+    this.closeChannel(connection);
+    await connection.deleteSession(sessionId, this.cwd());
+  }
+
+  /**
+   * 请求聊天页滚动到指定消息（消息加载后由聊天页定位并清除）
+   */
+  revealMessage(uuid: string | undefined): void {
+    this.revealTarget(uuid);
+  }
+
+  /**
+   * 导出当前分支（格式和保存位置在扩展端选择），返回写入的文件路径
+   */
+  async exportConversation(): Promise<string | undefined> {
+    const sessionId = this.sessionId();
+    if (!sessionId) {
+      throw new Error('Cannot export a conversation that has not started');
+    }
+
+    const connection = await this.getConnection();
+    const response = await connection.exportSession(sessionId, this.branchLeafUuid, this.cwd());
+    return response.filePath;
+  }
+
+  /**
+   * 将计划保存为工作区中的 Markdown 文件，返回写入的文件路径（用户取消时为 undefined）
+   */
+  async savePlan(plan: string): Promise<string | undefined> {
+    const connection = await this.getConnection();
+    const response = await connection.savePlan(plan, this.cwd());
+    return response.filePath;
+  }
+
+  /**
+   * 从另一个会话的某条用户消息所在轮次之后分叉（在新 Session 上调用）
+   */
+  forkFrom(source: Session, message: Message, resumeSessionAt: string): void {
+    const sessionId = source.sessionId();
+    if (!sessionId) {
+      throw new Error('Cannot fork a conversation that has not started');
+    }
+
+    // 保留到该轮结束（下一条用户输入之前）的消息
+    const messages = source.messages();
+    const start = messages.indexOf(message);
+    const next = messages.findIndex(
+      (item, index) => index > start && item.type === 'user' && !item.isEmpty
+    );
+    this.messages(messages.slice(0, next >= 0 ? next : messages.length));
+
+    this.summary(source.summary());
+    this.cwd(source.cwd());
+    this.folderName(source.folderName());
+    this.worktree(source.worktree());
+    this.modelSelection(source.modelSelection());
+    this.thinkingLevel(source.thinkingLevel());
+    this.thinkingLevelRestored = true;
+    this.pendingResume = { sessionId, resumeSessionAt, forkSession: true };
+  }
+
   async interrupt(): Promise<void> {
     const channelId = this.claudeChannelId();
     if (!channelId) {
@@ -292,6 +591,48 @@ export class Session {
     await this.launchClaude();
   }
 
+  /**
+   * 关闭当前 channel，丢弃该消息及之后的消息，下次启动时恢复到 resumeSessionAt
+   */
+  private resumeBefore(
+    connection: BaseTransport,
+    message: Message,
+    resumeSessionAt: string | undefined,
+    forkSession: boolean
+  ): void {
+    this.closeChannel(connection);
+
+    const index = this.messages().indexOf(message);
+    if (index >= 0) {
+      this.messages(this.messages().slice(0, index));
+    }
+
+    if (resumeSessionAt) {
+      this.pendingResume = { resumeSessionAt, forkSession };
+    } else {
+      // 回到第一条消息之前：从空白对话重新开始
+      this.sessionId(undefined);
+    }
+    this.branchLeafUuid = undefined;
+    this.lastModifiedTime(Date.now());
+  }
+
+  private requireSessionId(): string {
+    const sessionId = this.sessionId();
+    if (!sessionId) {
+      throw new Error('This conversation has not started yet');
+    }
+    return sessionId;
+  }
+
+  private closeChannel(connection: BaseTransport): void {
+    const channelId = this.claudeChannelId();
+    if (channelId) {
+      connection.closeChannel(channelId);
+      this.claudeChannelId(undefined);
+    }
+  }
+
   async listFiles(pattern?: string, signal?: AbortSignal): Promise<any> {
     const connection = await this.getConnection();
     return connection.listFiles(pattern, signal);
@@ -299,6 +640,7 @@ export class Session {
 
   async setPermissionMode(mode: PermissionMode, applyToConnection = true): Promise<boolean> {
     const previous = this.permissionMode();
+    this.defaultsApplied = true;
     this.permissionMode(mode);
 
     const channelId = this.claudeChannelId();
@@ -316,6 +658,7 @@ export class Session {
   async setModel(model: ModelOption): Promise<boolean> {
     const previous = this.modelSelection();
     this.modelSelection(model.value);
+    this.setContextWindow(getContextWindow(model.value));
 
     const channelId = this.claudeChannelId();
     if (!channelId) {
@@ -327,13 +670,58 @@ export class Session {
 
     if (!response?.success) {
       this.modelSelection(previous);
+      this.setContextWindow(getContextWindow(previous));
       return false;
     }
 
     return true;
   }
 
+  /**
+   * 设置会话预算（运行中的 channel 立即生效）
+   */
+  async setBudget(budget: SessionBudget): Promise<void> {
+    this.budgetOverride(budget);
+
+    const channelId = this.claudeChannelId();
+    if (!channelId) {
+      return;
+    }
+
+    const connection = await this.getConnection();
+    await connection.setSessionBudget(channelId, budget);
+  }
+
+  /**
+   * 在 VS Code 输入框中编辑会话预算（取消时不修改）
+   */
+  async editBudget(): Promise<void> {
+    const connection = await this.getConnection();
+    const response = await connection.editSessionBudget(this.budgetOverride());
+    if (response.budget) {
+      await this.setBudget(response.budget);
+    }
+  }
+
+  /**
+   * 在集成终端中继续当前对话（先关闭本会话的 channel，避免两个进程同时写入同一对话）
+   */
+  async openInTerminal(): Promise<void> {
+    if (this.busy()) {
+      throw new Error('Wait for the current response to finish before continuing in the terminal');
+    }
+
+    const connection = await this.getConnection();
+    this.closeChannel(connection);
+    await connection.openClaudeInTerminal(this.sessionId() ?? undefined, this.cwd() ?? undefined);
+  }
+
+  setIncludeEditorContext(include: boolean): void {
+    this.includeEditorContext(include);
+  }
+
   async setThinkingLevel(level: string): Promise<void> {
+    this.defaultsApplied = true;
     this.thinkingLevel(level);
 
     const channelId = this.claudeChannelId();
@@ -376,7 +764,7 @@ export class Session {
     }
   }
 
-  private async readMessages(stream: AsyncIterable<any>): Promise<void> {
+  private async readMessages(stream: AsyncIterable<any>, channelId: string): Promise<void> {
     try {
       for await (const event of stream) {
         this.processIncomingMessage(event);
@@ -385,34 +773,59 @@ export class Session {
       this.error(error instanceof Error ? error.message : String(error));
       this.busy(false);
     } finally {
-      this.claudeChannelId(undefined);
+      this.clearStreamingMessage();
+      // channel 可能已被替换（如 rewindTo 重新启动），只清理自己的
+      if (this.claudeChannelId() === channelId) {
+        this.claudeChannelId(undefined);
+      }
     }
   }
 
   private processIncomingMessage(event: any): void {
     // 🔥 使用完整的消息处理流程
 
-    // 1. 获取当前消息数组（转为可变数组）
-    const currentMessages = [...this.messages()] as Message[];
+    // 0. 增量事件交给 StreamingMessage，不进入常规消息流程
+    if (event?.type === 'stream_event') {
+      this.processStreamEvent(event);
+      return;
+    }
+
+    // 1. 获取当前消息数组（转为可变数组），先摘掉流式临时消息
+    const currentMessages = this.withoutStreamingMessage(this.messages());
 
     // 2. 处理特殊消息（TodoWrite, usage 等）
     this.processMessage(event);
 
-    // 3. 使用工具函数处理消息：
+    // 3. 完整的 assistant 消息到达：移除被它替换的流式块
+    if (event?.type === 'assistant' && !event.parent_tool_use_id && this.streamingMessage) {
+      if (event.message?.id && event.message.id === this.streamingMessage.messageId) {
+        const content = event.message.content;
+        this.streamingMessage.settle(Array.isArray(content) ? content.length : 1);
+      } else {
+        this.streamingMessage = undefined;
+      }
+    }
+
+    // 4. 使用工具函数处理消息：
     //    - 关联 tool_result 到 tool_use（响应式更新）
     //    - 将原始事件转换为 Message 并添加到数组
     processAndAttachMessage(currentMessages, event);
 
-    // 4. 合并连续 Read 消息为 ReadCoalesced（已禁用，保留作为参考）
+    // 5. 合并连续 Read 消息为 ReadCoalesced（已禁用，保留作为参考）
     // const merged = mergeConsecutiveReadMessages(currentMessages);
 
-    // 5. 更新 messages signal
+    // 6. 更新 messages signal（仍在输出的流式块保持在末尾）
     // this.messages(merged);
-    this.messages(currentMessages);
+    if (event?.type === 'result') {
+      this.streamingMessage = undefined;
+    }
+    this.messages(this.withStreamingMessage(currentMessages));
 
-    // 6. 更新其他状态
+    // 7. 更新其他状态
     if (event?.type === 'system') {
-      this.sessionId(event.session_id);
+      if (event.session_id) {
+        this.sessionId(event.session_id);
+      }
       if (event.subtype === 'init') {
         this.busy(true);
       }
@@ -421,10 +834,59 @@ export class Session {
     }
   }
 
+  /**
+   * 处理 stream_event：构建进行中的 text / thinking / tool_use 块
+   */
+  private processStreamEvent(event: SDKPartialAssistantMessage): void {
+    // 子代理（Task）内部的增量输出不在主时间线上实时渲染
+    if (event.parent_tool_use_id) {
+      return;
+    }
+
+    const streamEvent = event.event;
+    if (streamEvent.type === 'message_start') {
+      this.streamingMessage = new StreamingMessage(streamEvent.message.id);
+      return;
+    }
+
+    if (!this.streamingMessage || !this.streamingMessage.apply(streamEvent)) {
+      return;
+    }
+
+    this.messages(this.withStreamingMessage(this.withoutStreamingMessage(this.messages())));
+  }
+
+  private withoutStreamingMessage(messages: Message[]): Message[] {
+    return messages.filter((message) => !message.isStreaming);
+  }
+
+  private withStreamingMessage(messages: Message[]): Message[] {
+    const streaming = this.streamingMessage?.toMessage();
+    return streaming ? [...messages, streaming] : messages;
+  }
+
+  private clearStreamingMessage(): void {
+    if (!this.streamingMessage) {
+      return;
+    }
+    this.streamingMessage = undefined;
+    this.messages(this.withoutStreamingMessage(this.messages()));
+  }
+
   /**
    * 处理特殊消息（TodoWrite, usage 统计）
    */
   private processMessage(event: any): void {
+    if (event.type === 'result') {
+      this.updateResultUsage(event);
+      return;
+    }
+
+    // 子代理（Task）的待办与 token 不属于主会话
+    if (event.parent_tool_use_id) {
+      return;
+    }
+
     if (
       event.type === 'assistant' &&
       event.message?.content &&
@@ -451,30 +913,94 @@ export class Session {
   }
 
   /**
-   * 更新 token 使用统计
+   * 更新上下文占用（最近一次请求的输入、缓存与输出 token）
    */
   private updateUsage(usage: any): void {
-    const totalTokens =
-      usage.input_tokens +
+    const contextTokens =
+      (usage.input_tokens ?? 0) +
       (usage.cache_creation_input_tokens ?? 0) +
       (usage.cache_read_input_tokens ?? 0) +
-      usage.output_tokens;
+      (usage.output_tokens ?? 0);
+
+    this.usageData({ ...this.usageData(), contextTokens });
+  }
+
+  /**
+   * 从 result 消息累计费用和 token（只计入本 channel 自上次 result 以来的增量）
+   */
+  private updateResultUsage(event: any): void {
+    const modelUsage: any[] = Object.values(event.modelUsage ?? {});
+    const cost = typeof event.total_cost_usd === 'number' ? event.total_cost_usd : this.channelUsage.cost;
+    const tokens = modelUsage.reduce(
+      (sum, usage) =>
+        sum +
+        (usage.inputTokens ?? 0) +
+        (usage.outputTokens ?? 0) +
+        (usage.cacheReadInputTokens ?? 0) +
+        (usage.cacheCreationInputTokens ?? 0),
+      0
+    );
 
     const current = this.usageData();
+    const reportedWindow = Math.max(0, ...modelUsage.map((usage) => usage.contextWindow ?? 0));
     this.usageData({
-      totalTokens,
-      totalCost: current.totalCost,
-      contextWindow: current.contextWindow
+      ...current,
+      totalCost: current.totalCost + Math.max(0, cost - this.channelUsage.cost),
+      totalTokens: current.totalTokens + Math.max(0, tokens - this.channelUsage.tokens),
+      contextWindow: reportedWindow || current.contextWindow
     });
+    this.channelUsage = { cost, tokens };
+  }
+
+  private setContextWindow(contextWindow: number): void {
+    this.usageData({ ...this.usageData(), contextWindow });
+  }
+
+  /**
+   * 消息中的 @problems 附带工作区所有诊断；开启 attachActiveFileErrors 时附带当前文件的错误（与上次相同则跳过）
+   */
+  private async collectDiagnostics(
+    connection: BaseTransport,
+    input: string
+  ): Promise<IdeDiagnostic[] | undefined> {
+    try {
+      if (PROBLEMS_MENTION.test(input)) {
+        const { diagnostics } = await connection.getDiagnostics('workspace');
+        return diagnostics.length > 0 ? diagnostics : undefined;
+      }
+
+      if (!connection.config()?.attachActiveFileErrors) {
+        return undefined;
+      }
+
+      const { diagnostics } = await connection.getDiagnostics('activeFile', true);
+      const key = JSON.stringify(diagnostics);
+      if (diagnostics.length === 0 || key === this.lastSentDiagnostics) {
+        return undefined;
+      }
+      this.lastSentDiagnostics = key;
+      return diagnostics;
+    } catch (error) {
+      console.warn('[Session] Failed to collect diagnostics', error);
+      return undefined;
+    }
   }
 
   private buildUserMessage(
     input: string,
     attachments: AttachmentPayload[],
-    selection?: SelectionRange
+    context: { selection?: SelectionRange; openedFile?: string; diagnostics?: IdeDiagnostic[] } = {}
   ): any {
+    const { selection, openedFile, diagnostics } = context;
     const content: any[] = [];
 
+    if (diagnostics?.length) {
+      content.push({
+        type: 'text',
+        text: `<ide_diagnostics>${JSON.stringify(diagnostics)}</ide_diagnostics>`
+      });
+    }
+
     if (selection?.selectedText) {
       content.push({
         type: 'text',
@@ -483,6 +1009,11 @@ ${selection.selectedText}
 
 This may or may not be related to the current task.</ide_selection>`
       });
+    } else if (openedFile) {
+      content.push({
+        type: 'text',
+        text: `<ide_opened_file>The user opened the file ${openedFile} in the IDE. This may or may not be related to the current task.</ide_opened_file>`
+      });
     }
 
     for (const attachment of attachments) {
@@ -544,6 +1075,7 @@ This may or may not be related to the current task.</ide_selection>`
 
     return {
       type: 'user',
+      uuid: crypto.randomUUID(),
       session_id: '',
       parent_tool_use_id: null,
       message: {
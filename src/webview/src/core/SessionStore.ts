@@ -4,6 +4,8 @@ import type { ConnectionManager } from './ConnectionManager';
 import { Session, type SessionContext, type SessionOptions } from './Session';
 import type { PermissionRequest } from './PermissionRequest';
 import type { SessionSummary } from './types';
+import type { Message } from '../models/Message';
+import type { SessionBranch, StartPromptRequest } from '../../../shared/messages';
 
 export interface PermissionEvent {
   session: Session;
@@ -21,8 +23,17 @@ export class SessionStore {
 
   readonly connectionState = computed(() => this.connectionManager.state());
 
+  // 所有会话中等待用户处理的权限请求（按会话最近修改时间、请求先后排列）
+  readonly pendingPermissions = computed<PermissionEvent[]>(() =>
+    this.sessionsByLastModified().flatMap((session) =>
+      session.permissionRequests().map((permissionRequest) => ({ session, permissionRequest }))
+    )
+  );
+
   private currentConnectionPromise?: Promise<void>;
   private effectCleanups: Array<() => void> = [];
+  private sessionsChangedCleanup?: () => void;
+  private startPromptCleanup?: () => void;
 
   constructor(
     private readonly connectionManager: ConnectionManager,
@@ -30,7 +41,21 @@ export class SessionStore {
   ) {
     this.effectCleanups.push(
       effect(() => {
-        if (this.connectionManager.connection()) {
+        const connection = this.connectionManager.connection();
+
+        // 订阅扩展端推送的会话列表
+        this.sessionsChangedCleanup?.();
+        this.sessionsChangedCleanup = connection?.sessionsChanged.add(
+          (summaries) => this.applySessionList(summaries)
+        );
+
+        // 编辑器命令发起的提示词只由侧边栏处理，避免每个聊天标签各发一次
+        this.startPromptCleanup?.();
+        this.startPromptCleanup = window.CLAUDIX_BOOTSTRAP?.host === 'editor'
+          ? undefined
+          : connection?.promptRequested.add((request) => void this.startPrompt(request));
+
+        if (connection) {
           void this.listSessions();
         }
       })
@@ -129,46 +154,161 @@ export class SessionStore {
       try {
         const connection = await this.getConnection();
         const response = await connection.listSessions();
+        this.applySessionList(response.sessions ?? []);
+      } finally {
+        this.currentConnectionPromise = undefined;
+      }
+    })();
 
-        const existing = new Map(
-          this.sessions()
-            .filter((session) => !!session.sessionId())
-            .map((session) => [session.sessionId() as string, session])
-        );
+    await this.currentConnectionPromise;
+  }
 
-        for (const summary of response.sessions ?? []) {
-          if (!summary.isCurrentWorkspace) {
-            continue;
-          }
+  /**
+   * 从某条用户消息所在轮次之后分叉出新会话，原会话保持不变
+   */
+  async forkSession(source: Session, message: Message): Promise<Session> {
+    if (!message.uuid) {
+      throw new Error('This message cannot be forked yet');
+    }
 
-          const existingSession = existing.get(summary.id);
-          if (existingSession) {
-            existingSession.lastModifiedTime(summary.lastModified);
-            existingSession.summary(summary.summary);
-            existingSession.worktree(summary.worktree);
-            existingSession.messageCount(summary.messageCount ?? 0);
-            continue;
-          }
+    const connection = await this.getConnection();
+    const { resumeSessionAt } = await connection.getForkPoint(message.uuid, 'after', source.cwd());
+    if (!resumeSessionAt) {
+      throw new Error('Fork point not found');
+    }
 
-          const session = Session.fromServer(
-            summary as SessionSummary,
-            () => this.getConnection(),
-            this.context
-          );
+    // 先配置好恢复位置再激活，避免预加载时以普通方式启动 channel
+    const session = new Session(() => this.getConnection(), this.context, { isExplicit: false });
+    session.forkFrom(source, message, resumeSessionAt);
 
-          this.attachPermissionListener(session);
-          this.sessions([...this.sessions(), session]);
-        }
+    this.sessions([session, ...this.sessions()]);
+    this.attachPermissionListener(session);
+    this.activeSession(session);
 
-        this.sessions(
-          [...this.sessions()].sort((a, b) => b.lastModifiedTime() - a.lastModifiedTime())
-        );
-      } finally {
-        this.currentConnectionPromise = undefined;
+    return session;
+  }
+
+  /**
+   * 打开对话树中的某个分支（分支可能属于同一目录下的另一个会话）
+   */
+  async openBranch(branch: SessionBranch, source?: Session): Promise<Session> {
+    let session = this.sessions().find((item) => item.sessionId() === branch.sessionId);
+    if (!session) {
+      session = Session.fromServer(
+        {
+          id: branch.sessionId,
+          lastModified: branch.lastModified,
+          summary: branch.summary,
+          messageCount: branch.messageCount,
+          cwd: source?.cwd(),
+          folderName: source?.folderName(),
+          worktree: source?.worktree(),
+          isCurrentWorkspace: !source?.worktree()
+        },
+        () => this.getConnection(),
+        this.context
+      );
+      this.attachPermissionListener(session);
+      this.sessions([...this.sessions(), session]);
+    }
+
+    await session.switchBranch(branch.leafUuid);
+    this.activeSession(session);
+    return session;
+  }
+
+  /**
+   * 删除会话的对话记录；删除的是当前会话时切换到新的空会话
+   */
+  async deleteSession(session: Session): Promise<void> {
+    await session.deleteFromServer();
+
+    this.sessions(this.sessions().filter((item) => item !== session));
+    const wasActive = this.activeSession() === session;
+    session.dispose();
+    if (wasActive) {
+      await this.createSession({ isExplicit: false });
+    }
+  }
+
+  /**
+   * 合并服务器返回的会话列表：更新已有会话、添加新会话，
+   * 并移除对话记录已不存在且未打开过的会话
+   */
+  private applySessionList(summaries: SessionSummary[]): void {
+    const existing = new Map(
+      this.sessions()
+        .filter((session) => !!session.sessionId())
+        .map((session) => [session.sessionId() as string, session])
+    );
+    const listed = new Set<string>();
+    const added: Session[] = [];
+
+    for (const summary of summaries) {
+      listed.add(summary.id);
+
+      const existingSession = existing.get(summary.id);
+      if (existingSession) {
+        existingSession.lastModifiedTime(summary.lastModified);
+        existingSession.summary(summary.summary);
+        existingSession.worktree(summary.worktree);
+        existingSession.folderName(summary.folderName);
+        if (summary.cwd) {
+          existingSession.cwd(summary.cwd);
+        }
+        existingSession.messageCount(summary.messageCount ?? 0);
+        existingSession.branchCount(summary.branchCount ?? 1);
+        existingSession.applyMetadata(summary);
+        continue;
       }
-    })();
 
-    await this.currentConnectionPromise;
+      const session = Session.fromServer(
+        summary,
+        () => this.getConnection(),
+        this.context
+      );
+
+      this.attachPermissionListener(session);
+      added.push(session);
+    }
+
+    const removed = new Set(
+      [...existing.values()].filter(
+        (session) =>
+          !listed.has(session.sessionId() as string) &&
+          session !== this.activeSession() &&
+          session.isOffline()
+      )
+    );
+    for (const session of removed) {
+      session.dispose();
+    }
+
+    this.sessions(
+      [...this.sessions().filter((session) => !removed.has(session)), ...added].sort(
+        (a, b) => b.lastModifiedTime() - a.lastModifiedTime()
+      )
+    );
+  }
+
+  /**
+   * 发起扩展端命令的提示词（Fix with Claudix、Explain 等；当前会话忙碌时新建会话）
+   */
+  async startPrompt(request: Omit<StartPromptRequest, 'type'>): Promise<void> {
+    let session = this.activeSession();
+    if (!session || session.busy()) {
+      session = await this.createSession();
+    }
+    this.activeSession(session);
+
+    try {
+      await session.send(request.prompt, [], false, {
+        selection: request.selection,
+        diagnostics: request.diagnostics
+      });
+    } catch (error) {
+      console.error('[SessionStore] Failed to start prompt', error);
+    }
   }
 
   setActiveSession(session: Session | undefined): void {
@@ -181,6 +321,10 @@ export class SessionStore {
       cleanup();
     }
     this.effectCleanups = [];
+    this.sessionsChangedCleanup?.();
+    this.sessionsChangedCleanup = undefined;
+    this.startPromptCleanup?.();
+    this.startPromptCleanup = undefined;
 
     // 清理所有 sessions
     for (const session of this.sessions()) {
@@ -3,6 +3,14 @@ export interface SessionSummary {
   lastModified: number;
   summary: string;
   worktree?: { name: string; path: string };
+  cwd?: string;
+  folderName?: string;
   messageCount: number;
   isCurrentWorkspace: boolean;
+  branchCount?: number;
+  title?: string;
+  pinned?: boolean;
+  tags?: string[];
+  archived?: boolean;
+  thinkingLevel?: string;
 }
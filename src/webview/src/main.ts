@@ -4,6 +4,7 @@ import App from './App.vue';
 import '@vscode/codicons/dist/codicon.css';
 import '@mdi/font/css/materialdesignicons.min.css';
 import 'virtual:svg-icons-register';
+import { MARKDOWN_STYLES } from '../../shared/markdownStyles';
 
 declare global {
   interface Window {
@@ -15,10 +16,18 @@ declare global {
     CLAUDIX_BOOTSTRAP?: {
       host?: 'sidebar' | 'editor';
       page?: string;
+      id?: string;
+      sessionId?: string;
+      initialPrompt?: string;
     };
   }
 }
 
+// Markdown 样式与导出的 HTML 共用
+const markdownStyle = document.createElement('style');
+markdownStyle.textContent = MARKDOWN_STYLES;
+document.head.appendChild(markdownStyle);
+
 const pinia = createPinia();
 const app = createApp(App);
 
@@ -8,11 +8,15 @@ export interface TextBlock {
   type: 'text';
   text: string;
   isSlashCommand?: boolean;
+  /** 流式输出中（尚未收到完整消息） */
+  isStreaming?: boolean;
 }
 
 export interface ThinkingBlock {
   type: 'thinking';
   thinking: string;
+  /** 流式输出中（尚未收到完整消息） */
+  isStreaming?: boolean;
 }
 
 export interface ImageBlock {
@@ -86,6 +90,8 @@ export interface ToolUseBlock {
   id: string;
   name: string;
   input: any;
+  /** 流式输出中，input 可能不完整 */
+  isStreaming?: boolean;
 }
 
 export type ToolUseContentBlock = ToolUseBlock & {
@@ -16,6 +16,7 @@
 
 import { signal } from 'alien-signals';
 import type { ContentBlockType, ToolResultBlock } from './ContentBlock';
+import type { Message } from './Message';
 
 export class ContentBlockWrapper {
   /**
@@ -35,6 +36,16 @@ export class ContentBlockWrapper {
    */
   public toolUseResult?: any;
 
+  /**
+   * 子代理（Task）的嵌套时间线：parent_tool_use_id 指向该 tool_use 的消息
+   */
+  readonly subagentMessages = signal<Message[]>([]);
+
+  /**
+   * 子代理最近一次请求的 token 数（输入、缓存与输出）
+   */
+  readonly subagentTokens = signal(0);
+
   constructor(content: ContentBlockType) {
     this.content = content;
   }
@@ -41,6 +41,12 @@ export class Message {
   session_id?: string;
   is_error?: boolean;
 
+  // 消息在对话记录中的 uuid（用于检查点回退和搜索结果定位）
+  uuid?: string;
+
+  // 流式输出中的临时消息（由 StreamingMessage 生成，完整消息到达后被替换）
+  isStreaming?: boolean;
+
   constructor(
     type: MessageRole,
     message: MessageData,
@@ -49,6 +55,7 @@ export class Message {
       subtype?: string;
       session_id?: string;
       is_error?: boolean;
+      uuid?: string;
     }
   ) {
     this.type = type;
@@ -59,6 +66,7 @@ export class Message {
       this.subtype = extra.subtype;
       this.session_id = extra.session_id;
       this.is_error = extra.is_error;
+      this.uuid = extra.uuid;
     }
   }
 
@@ -135,11 +143,22 @@ export class Message {
           role: raw.message?.role ?? raw.type,
           content: wrappedContent,
         },
-        raw.timestamp || Date.now()
+        raw.timestamp || Date.now(),
+        { uuid: raw.uuid }
+      );
+    }
+
+    // 扩展插入的说明（例如超出预算被中断）
+    if (raw.type === 'system' && raw.subtype === 'budget_exceeded') {
+      return new Message(
+        'system',
+        { role: 'system', content: String(raw.content ?? '') },
+        Date.now(),
+        { subtype: raw.subtype, session_id: raw.session_id }
       );
     }
 
-    // 不渲染 system 消息（仅用于状态更新）
+    // 不渲染其他 system 消息（仅用于状态更新）
     if (raw.type === 'system') {
       return null;
     }
@@ -149,7 +168,7 @@ export class Message {
       return null;
     }
 
-    // stream_event 等不创建消息
+    // stream_event 由 Session 交给 StreamingMessage 处理，这里不创建消息
     return null;
   }
 }
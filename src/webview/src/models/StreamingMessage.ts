@@ -0,0 +1,267 @@
+/**
+ * StreamingMessage - 流式消息构建器
+ *
+ * 核心功能：
+ * 1. 消费 SDK 的 stream_event（content_block_start / delta / stop）
+ * 2. 逐块累积 text、thinking 与 tool_use 的 input JSON
+ * 3. 生成带 isStreaming 标记的临时 Message，供 UI 实时渲染
+ * 4. 完整的 assistant 消息到达后，移除已被替换的块
+ *
+ * 为什么需要这个构建器？
+ * - SDK 开启 includePartialMessages 后，完整 assistant 消息前会先推送增量事件
+ * - 完整消息按内容块逐条到达（同一 message.id），需要按块替换而不是整体替换
+ */
+
+import type {
+  BetaRawContentBlockDelta,
+  BetaRawContentBlockStartEvent,
+  BetaRawMessageStreamEvent,
+} from '@anthropic-ai/sdk/resources/beta/messages/messages';
+import { Message } from './Message';
+import { ContentBlockWrapper } from './ContentBlockWrapper';
+import type { ContentBlockType } from './ContentBlock';
+
+/**
+ * 正在构建的内容块
+ */
+interface StreamingBlock {
+  index: number;
+  type: 'text' | 'thinking' | 'tool_use';
+  text: string;
+  toolUseId?: string;
+  toolName?: string;
+  /** 已解析出的最新 input（tool_use 专用） */
+  input?: unknown;
+  done: boolean;
+}
+
+export class StreamingMessage {
+  /**
+   * 对应的 Anthropic message id（message_start 时获得）
+   */
+  readonly messageId: string | undefined;
+
+  private readonly blocks = new Map<number, StreamingBlock>();
+
+  constructor(messageId?: string) {
+    this.messageId = messageId;
+  }
+
+  /**
+   * 是否还有未被完整消息替换的块
+   */
+  get isEmpty(): boolean {
+    return this.blocks.size === 0;
+  }
+
+  /**
+   * 应用一个 stream_event.event
+   *
+   * @returns 事件是否改变了可见内容
+   */
+  apply(event: BetaRawMessageStreamEvent): boolean {
+    switch (event.type) {
+      case 'content_block_start':
+        return this.startBlock(event.index, event.content_block);
+      case 'content_block_delta':
+        return this.applyDelta(event.index, event.delta);
+      case 'content_block_stop': {
+        const block = this.blocks.get(event.index);
+        if (block) {
+          block.done = true;
+        }
+        return false;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 完整的 assistant 消息到达后，移除被它替换掉的块
+   *
+   * 完整消息按块顺序到达，因此按 index 从小到大移除已完成的块
+   *
+   * @param count 完整消息中包含的内容块数量
+   */
+  settle(count: number): void {
+    const finished = [...this.blocks.values()]
+      .filter((block) => block.done)
+      .sort((a, b) => a.index - b.index)
+      .slice(0, Math.max(count, 0));
+
+    for (const block of finished) {
+      this.blocks.delete(block.index);
+    }
+  }
+
+  /**
+   * 生成用于渲染的临时 Message
+   */
+  toMessage(): Message | null {
+    const contentBlocks = [...this.blocks.values()]
+      .sort((a, b) => a.index - b.index)
+      .map((block) => this.toContentBlock(block))
+      .filter((block): block is ContentBlockType => block !== null);
+
+    if (contentBlocks.length === 0) {
+      return null;
+    }
+
+    const message = new Message('assistant', {
+      role: 'assistant',
+      content: contentBlocks.map((block) => new ContentBlockWrapper(block)),
+    });
+    message.isStreaming = true;
+    return message;
+  }
+
+  private startBlock(index: number, contentBlock: BetaRawContentBlockStartEvent['content_block']): boolean {
+    switch (contentBlock.type) {
+      case 'text':
+        this.blocks.set(index, {
+          index,
+          type: 'text',
+          text: contentBlock.text,
+          done: false,
+        });
+        return true;
+      case 'thinking':
+        this.blocks.set(index, {
+          index,
+          type: 'thinking',
+          text: contentBlock.thinking,
+          done: false,
+        });
+        return true;
+      case 'tool_use':
+        this.blocks.set(index, {
+          index,
+          type: 'tool_use',
+          text: '',
+          toolUseId: contentBlock.id,
+          toolName: contentBlock.name,
+          input: contentBlock.input ?? {},
+          done: false,
+        });
+        return true;
+      default:
+        // redacted_thinking / server_tool_use 等不做实时渲染
+        return false;
+    }
+  }
+
+  private applyDelta(index: number, delta: BetaRawContentBlockDelta): boolean {
+    const block = this.blocks.get(index);
+    if (!block) {
+      return false;
+    }
+
+    switch (delta.type) {
+      case 'text_delta':
+        block.text += delta.text;
+        return true;
+      case 'thinking_delta':
+        block.text += delta.thinking;
+        return true;
+      case 'input_json_delta': {
+        block.text += delta.partial_json;
+        const parsed = parsePartialJson(block.text);
+        if (parsed !== undefined) {
+          block.input = parsed;
+          return true;
+        }
+        return false;
+      }
+      default:
+        // signature_delta 等对渲染无影响
+        return false;
+    }
+  }
+
+  private toContentBlock(block: StreamingBlock): ContentBlockType | null {
+    switch (block.type) {
+      case 'text':
+        return block.text ? { type: 'text', text: block.text, isStreaming: true } : null;
+      case 'thinking':
+        return { type: 'thinking', thinking: block.text, isStreaming: true };
+      case 'tool_use':
+        return {
+          type: 'tool_use',
+          id: block.toolUseId ?? `streaming_${block.index}`,
+          name: block.toolName ?? '',
+          input: block.input ?? {},
+          isStreaming: true,
+          toolResult: undefined,
+        };
+    }
+  }
+}
+
+/**
+ * 尽力解析不完整的 JSON（input_json_delta 的累积结果）
+ *
+ * 补齐未闭合的字符串、对象和数组后再尝试解析；
+ * 仍无法解析时返回 undefined，由调用方沿用上一次的结果
+ */
+export function parsePartialJson(text: string): unknown {
+  const source = text.trim();
+  if (!source) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(source);
+  } catch {
+    // 继续尝试补齐
+  }
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of source) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    }
+  }
+
+  let body = source;
+  if (inString) {
+    if (escaped) {
+      body = body.slice(0, -1);
+    }
+    body += '"';
+  }
+
+  const suffix = closers.reverse().join('');
+  // 先按原样补齐；失败时再去掉末尾悬空的 key（如 `, "old_str"` 或 `"a":`）
+  const candidates = [body, body.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '')];
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate.replace(/[,:]\s*$/, '') + suffix);
+    } catch {
+      // 尝试下一个候选
+    }
+  }
+
+  return undefined;
+}
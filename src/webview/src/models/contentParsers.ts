@@ -96,7 +96,7 @@ function parseTextBlock(text: string): ContentBlockType[] {
     }
   }
 
-  if (text.includes('<post-tool-use-hook>')) {
+  if (text.includes('<ide_diagnostics>')) {
     const diagnostics = parseDiagnostics(text);
     if (diagnostics) {
       return [diagnostics];
@@ -243,12 +243,13 @@ function parseSlashCommandResult(text: string): SlashCommandResultBlock | undefi
 }
 
 function parseDiagnostics(text: string): DiagnosticsBlock | undefined {
+  // 工具调用后的 hook 输出，或用户消息中附带的诊断（@problems / Fix with Claudix）
   const hookMatch = text.match(/<post-tool-use-hook>([\s\S]*?)<\/post-tool-use-hook>/);
-  if (!hookMatch) {
+  if (!hookMatch && !text.trim().startsWith('<ide_diagnostics>')) {
     return undefined;
   }
 
-  const diagnosticsMatch = hookMatch[1].match(/<ide_diagnostics>([\s\S]*?)<\/ide_diagnostics>/);
+  const diagnosticsMatch = (hookMatch ? hookMatch[1] : text).match(/<ide_diagnostics>([\s\S]*?)<\/ide_diagnostics>/);
   if (!diagnosticsMatch) {
     return undefined;
   }
@@ -7,7 +7,16 @@ import type { RuntimeInstance } from '../composables/useRuntime'
 export interface FileReference {
   path: string
   name: string
-  type: 'file' | 'directory'
+  type: 'file' | 'directory' | 'problems'
+}
+
+/**
+ * @problems：发送时附带工作区的所有诊断信息
+ */
+export const PROBLEMS_REFERENCE: FileReference = {
+  path: 'problems',
+  name: 'problems',
+  type: 'problems'
 }
 
 /**
@@ -33,9 +42,10 @@ export async function getFileReferences(
     // 空查询传递空字符串,让后端返回顶层内容（目录 + 顶层文件）
     const pattern = (query && query.trim()) ? query : ''
     const response = await connection.listFiles(pattern, signal)
+    const problems = PROBLEMS_REFERENCE.name.startsWith(pattern.toLowerCase()) ? [PROBLEMS_REFERENCE] : []
 
     // response.files 格式：{ path, name, type }
-    return response.files || []
+    return [...problems, ...(response.files || [])]
   } catch (error) {
     // 如果是 AbortError,静默处理
     if (error instanceof Error && error.name === 'AbortError') {
@@ -50,6 +60,19 @@ export async function getFileReferences(
  * 将文件引用转换为 DropdownItem 格式
  */
 export function fileToDropdownItem(file: FileReference): DropdownItemType {
+  if (file.type === 'problems') {
+    return {
+      id: 'problems',
+      type: 'item',
+      label: '@problems',
+      detail: 'Errors and warnings in the workspace',
+      icon: 'codicon-warning',
+      data: {
+        file
+      }
+    }
+  }
+
   return {
     id: `file-${file.path}`,
     type: 'item',
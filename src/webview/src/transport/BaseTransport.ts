@@ -3,6 +3,7 @@ import { AsyncQueue } from "./AsyncQueue";
 import { EventEmitter } from "../utils/events";
 import { PermissionRequest } from "../core/PermissionRequest";
 import type { PermissionResult, PermissionMode } from "@anthropic-ai/claude-agent-sdk";
+import type { SessionSummary } from "../core/types";
 import type {
   ExtensionRequestResponse,
   ExtensionToWebViewMessage,
@@ -13,6 +14,49 @@ import type {
   WebViewToExtensionMessage,
   WebViewRequest,
   ShowNotificationRequest,
+  ListMcpServerConfigsResponse,
+  InspectMcpServerResponse,
+  McpServerConfig,
+  McpServerScope,
+  SettingsSnapshot,
+  ClaudeSettingsScope,
+  GetSettingsResponse,
+  UpdateSettingsRequest,
+  UpdateSettingsResponse,
+  UpdatePermissionRulesResponse,
+  GetPermissionRulesResponse,
+  RemovePermissionRuleResponse,
+  PermissionRulesFile,
+  RewindCheckpointResponse,
+  ExportSessionResponse,
+  SavePlanResponse,
+  RenameTabResponse,
+  GetUsageReportResponse,
+  ExportUsageCsvResponse,
+  OpenUsageDashboardResponse,
+  UsageScope,
+  BudgetStatus,
+  SessionBudget,
+  SetSessionBudgetResponse,
+  EditSessionBudgetResponse,
+  DiagnosticsScope,
+  GetDiagnosticsResponse,
+  StartPromptRequest,
+  AuthStatus,
+  AuthURLRequest,
+  LoginMethod,
+  GetAuthStatusResponse,
+  LoginResponse,
+  SubmitOAuthCodeResponse,
+  LogoutResponse,
+  RenameSessionResponse,
+  UpdateSessionMetadataResponse,
+  DeleteSessionResponse,
+  SessionMetadata,
+  SearchSessionsResponse,
+  ListSessionBranchesResponse,
+  GetForkPointResponse,
+  ForkPosition,
 } from "../../../shared/messages";
 
 type ConnectionState = "connecting" | "connected" | "disconnected";
@@ -32,6 +76,11 @@ export abstract class BaseTransport {
   readonly permissionRequests = signal<PermissionRequest[]>([]);
   readonly config = signal<InitResponse["state"] | undefined>(undefined);
   readonly claudeConfig = signal<GetClaudeStateResponse["config"] | undefined>(undefined);
+  readonly settings = signal<SettingsSnapshot | undefined>(undefined);
+  // 扩展端推送的各 channel 预算状态
+  readonly budgetStatuses = signal<Record<string, BudgetStatus>>({});
+  // 进行中的 OAuth 登录（等待提交授权页面显示的代码）
+  readonly pendingAuth = signal<Omit<AuthURLRequest, "type"> | undefined>(undefined);
 
   get opened(): Promise<void> {
     return Promise.resolve();
@@ -42,10 +91,18 @@ export abstract class BaseTransport {
 
   readonly permissionRequested: EventEmitter<PermissionRequest> =
     new EventEmitter<PermissionRequest>();
+  // 扩展端推送的最新会话列表
+  readonly sessionsChanged: EventEmitter<SessionSummary[]> =
+    new EventEmitter<SessionSummary[]>();
+  // 扩展端命令发起的提示词（Fix with Claudix、Explain、Refactor 等）
+  readonly promptRequested: EventEmitter<StartPromptRequest> =
+    new EventEmitter<StartPromptRequest>();
 
   protected readonly fromHost = new AsyncQueue<ExtensionToWebViewMessage>();
   protected readonly streams = new Map<string, AsyncQueue<any>>();
   protected readonly outstandingRequests = new Map<string, RequestHandler>();
+  // 未处理的权限请求（requestId → PermissionRequest），供 Diff 视图中的操作解析
+  protected readonly pendingPermissions = new Map<string, PermissionRequest>();
 
   constructor(
     protected readonly atMentionEvents: EventEmitter<string>,
@@ -64,6 +121,9 @@ export abstract class BaseTransport {
       modelSetting: initResponse.state.modelSetting,
       platform: initResponse.state.platform,
       thinkingLevel: initResponse.state.thinkingLevel,
+      defaultPermissionMode: initResponse.state.defaultPermissionMode,
+      attachActiveFileErrors: initResponse.state.attachActiveFileErrors,
+      authStatus: initResponse.state.authStatus,
     } as InitResponse["state"]);
 
     const claudeState = await this.sendRequest<GetClaudeStateResponse>({
@@ -79,7 +139,9 @@ export abstract class BaseTransport {
     cwd?: string,
     model?: string,
     permissionMode?: PermissionMode,
-    thinkingLevel?: string
+    thinkingLevel?: string,
+    resumeOptions?: { resumeSessionAt?: string; forkSession?: boolean },
+    budget?: SessionBudget
   ): AsyncQueue<any> {
     const queue = new AsyncQueue<any>();
     this.streams.set(channelId, queue);
@@ -91,10 +153,20 @@ export abstract class BaseTransport {
       model,
       permissionMode,
       thinkingLevel,
+      budget,
+      ...resumeOptions,
     });
     return queue;
   }
 
+  closeChannel(channelId: string): void {
+    this.send({ type: "close_channel", channelId });
+    // Extension 侧主动关闭时不会回发 close_channel，这里直接结束本地流
+    this.streams.get(channelId)?.done();
+    this.streams.delete(channelId);
+    this.clearBudgetStatus(channelId);
+  }
+
   sendInput(channelId: string, message: any, done: boolean): void {
     this.send({ type: "io_message", channelId, message, done });
   }
@@ -112,6 +184,81 @@ export abstract class BaseTransport {
   getMcpServers(channelId?: string): Promise<any> {
     return this.sendRequest({ type: "get_mcp_servers" }, channelId);
   }
+  listMcpServerConfigs(cwd?: string, channelId?: string): Promise<ListMcpServerConfigsResponse> {
+    return this.sendRequest({ type: "list_mcp_server_configs", cwd }, channelId);
+  }
+  saveMcpServer(
+    scope: McpServerScope,
+    name: string,
+    config: McpServerConfig,
+    previous?: { scope: McpServerScope; name: string },
+    cwd?: string
+  ): Promise<any> {
+    return this.sendRequest({ type: "save_mcp_server", scope, name, config, previous, cwd });
+  }
+  removeMcpServer(scope: McpServerScope, name: string, cwd?: string): Promise<any> {
+    return this.sendRequest({ type: "remove_mcp_server", scope, name, cwd });
+  }
+  setMcpServerEnabled(name: string, enabled: boolean, cwd?: string): Promise<any> {
+    return this.sendRequest({ type: "set_mcp_server_enabled", name, enabled, cwd });
+  }
+  inspectMcpServer(
+    scope: McpServerScope,
+    name: string,
+    cwd?: string,
+    signal?: AbortSignal
+  ): Promise<InspectMcpServerResponse> {
+    return this.sendRequest({ type: "inspect_mcp_server", scope, name, cwd }, undefined, signal);
+  }
+
+  async getSettings(): Promise<SettingsSnapshot> {
+    const response = await this.sendRequest<GetSettingsResponse>({ type: "get_settings" });
+    this.settings(response.settings);
+    return response.settings;
+  }
+  async updateSettings(changes: UpdateSettingsRequest["changes"]): Promise<SettingsSnapshot> {
+    const response = await this.sendRequest<UpdateSettingsResponse>({
+      type: "update_settings",
+      changes,
+    });
+    this.settings(response.settings);
+    return response.settings;
+  }
+  async updatePermissionRules(
+    scope: ClaudeSettingsScope,
+    allow: string[],
+    deny: string[],
+    cwd?: string
+  ): Promise<SettingsSnapshot> {
+    const response = await this.sendRequest<UpdatePermissionRulesResponse>({
+      type: "update_permission_rules",
+      scope,
+      allow,
+      deny,
+      cwd,
+    });
+    this.settings(response.settings);
+    return response.settings;
+  }
+  async getPermissionRules(cwd?: string): Promise<PermissionRulesFile[]> {
+    const response = await this.sendRequest<GetPermissionRulesResponse>({ type: "get_permission_rules", cwd });
+    return response.permissionRules;
+  }
+  async removePermissionRule(
+    scope: ClaudeSettingsScope,
+    behavior: "allow" | "deny",
+    rule: string,
+    cwd?: string
+  ): Promise<PermissionRulesFile[]> {
+    const response = await this.sendRequest<RemovePermissionRuleResponse>({
+      type: "remove_permission_rule",
+      scope,
+      behavior,
+      rule,
+      cwd,
+    });
+    return response.permissionRules;
+  }
 
   async openContent(
     content: string,
@@ -132,6 +279,7 @@ export abstract class BaseTransport {
     newFilePath: string,
     edits: any[],
     supportMultiEdits: boolean,
+    cwd?: string,
     signal?: AbortSignal
   ): Promise<any[]> {
     const response = await this.sendRequest(
@@ -141,6 +289,7 @@ export abstract class BaseTransport {
         newFilePath,
         edits,
         supportMultiEdits,
+        cwd,
       },
       undefined,
       signal
@@ -160,6 +309,14 @@ export abstract class BaseTransport {
     return this.sendRequest({ type: "set_model", model }, channelId);
   }
 
+  setSessionBudget(channelId: string, budget: SessionBudget): Promise<SetSessionBudgetResponse> {
+    return this.sendRequest({ type: "set_session_budget", channelId, budget }, channelId);
+  }
+
+  editSessionBudget(budget: SessionBudget): Promise<EditSessionBudgetResponse> {
+    return this.sendRequest({ type: "edit_session_budget", budget });
+  }
+
   async setThinkingLevel(channelId: string, thinkingLevel: string): Promise<void> {
     await this.sendRequest({ type: "set_thinking_level", channelId, thinkingLevel }, channelId);
   }
@@ -167,8 +324,48 @@ export abstract class BaseTransport {
   listSessions(): Promise<any> {
     return this.sendRequest({ type: "list_sessions_request" });
   }
-  getSession(sessionId: string): Promise<any> {
-    return this.sendRequest({ type: "get_session_request", sessionId });
+  getSession(sessionId: string, leafUuid?: string, cwd?: string): Promise<any> {
+    return this.sendRequest({ type: "get_session_request", sessionId, leafUuid, cwd });
+  }
+  listSessionBranches(sessionId: string, cwd?: string): Promise<ListSessionBranchesResponse> {
+    return this.sendRequest({ type: "list_session_branches", sessionId, cwd });
+  }
+  getForkPoint(messageUuid: string, position: ForkPosition, cwd?: string): Promise<GetForkPointResponse> {
+    return this.sendRequest({ type: "get_fork_point", messageUuid, position, cwd });
+  }
+  rewindCheckpoint(sessionId: string, userMessageUuid: string, cwd?: string): Promise<RewindCheckpointResponse> {
+    return this.sendRequest({ type: "rewind_checkpoint", sessionId, userMessageUuid, cwd });
+  }
+  exportSession(sessionId: string, leafUuid?: string, cwd?: string): Promise<ExportSessionResponse> {
+    return this.sendRequest({ type: "export_session", sessionId, leafUuid, cwd });
+  }
+  savePlan(plan: string, cwd?: string): Promise<SavePlanResponse> {
+    return this.sendRequest({ type: "save_plan", plan, cwd });
+  }
+  renameSession(sessionId: string, title: string, cwd?: string): Promise<RenameSessionResponse> {
+    return this.sendRequest({ type: "rename_session", sessionId, title, cwd });
+  }
+  updateSessionMetadata(
+    sessionId: string,
+    patch: Pick<SessionMetadata, "pinned" | "tags" | "archived">,
+    cwd?: string
+  ): Promise<UpdateSessionMetadataResponse> {
+    return this.sendRequest({ type: "update_session_metadata", sessionId, ...patch, cwd });
+  }
+  deleteSession(sessionId: string, cwd?: string): Promise<DeleteSessionResponse> {
+    return this.sendRequest({ type: "delete_session", sessionId, cwd });
+  }
+  getUsageReport(scope: UsageScope, since?: number): Promise<GetUsageReportResponse> {
+    return this.sendRequest({ type: "get_usage_report", scope, since });
+  }
+  exportUsageCsv(scope: UsageScope, since?: number): Promise<ExportUsageCsvResponse> {
+    return this.sendRequest({ type: "export_usage_csv", scope, since });
+  }
+  openUsageDashboard(): Promise<OpenUsageDashboardResponse> {
+    return this.sendRequest({ type: "open_usage_dashboard" });
+  }
+  searchSessions(query: string, signal?: AbortSignal): Promise<SearchSessionsResponse> {
+    return this.sendRequest({ type: "search_sessions", query }, undefined, signal);
   }
   listFiles(pattern?: string, signal?: AbortSignal): Promise<any> {
     return this.sendRequest({ type: "list_files_request", pattern }, undefined, signal);
@@ -182,18 +379,48 @@ export abstract class BaseTransport {
       initialPrompt,
     } as any);
   }
-  renameTab(title: string): Promise<any> {
-    return this.sendRequest({ type: "rename_tab", title } as any);
+  renameTab(title: string, instanceId?: string): Promise<RenameTabResponse> {
+    return this.sendRequest<RenameTabResponse>({ type: "rename_tab", title, instanceId });
+  }
+  async getAuthStatus(): Promise<AuthStatus> {
+    const response = await this.sendRequest<GetAuthStatusResponse>({ type: "get_auth_status" });
+    this.applyAuthStatus(response.status);
+    return response.status;
+  }
+  async login(method: LoginMethod): Promise<AuthStatus> {
+    const response = await this.sendRequest<LoginResponse>({ type: "login", method });
+    this.applyAuthStatus(response.auth);
+    return response.auth;
   }
-  openClaudeInTerminal(): Promise<any> {
-    return this.sendRequest({ type: "open_claude_in_terminal" });
+  async submitOAuthCode(code: string): Promise<AuthStatus> {
+    const response = await this.sendRequest<SubmitOAuthCodeResponse>({ type: "submit_oauth_code", code });
+    this.applyAuthStatus(response.auth);
+    return response.auth;
   }
+  async logout(): Promise<AuthStatus> {
+    const response = await this.sendRequest<LogoutResponse>({ type: "logout" });
+    this.applyAuthStatus(response.auth);
+    return response.auth;
+  }
+  cancelLogin(): void {
+    this.pendingAuth(undefined);
+  }
+  openClaudeInTerminal(sessionId?: string, cwd?: string): Promise<any> {
+    return this.sendRequest({ type: "open_claude_in_terminal", sessionId, cwd });
+  }
+  /**
+   * 保存编辑器面板状态，窗口重载后用于恢复（仅 VS Code 宿主实现）
+   */
+  saveViewState(_state: { sessionId?: string }): void {}
   openURL(url: string): void {
     void this.sendRequest({ type: "open_url", url });
   }
   exec(command: string, params: string[]): Promise<any> {
     return this.sendRequest({ type: "exec", command, params });
   }
+  getDiagnostics(scope: DiagnosticsScope, errorsOnly?: boolean): Promise<GetDiagnosticsResponse> {
+    return this.sendRequest({ type: "get_diagnostics", scope, errorsOnly });
+  }
   getCurrentSelection(): Promise<any> {
     return this.sendRequest({ type: "get_current_selection" });
   }
@@ -262,6 +489,7 @@ export abstract class BaseTransport {
             break;
           }
           case "close_channel": {
+            this.clearBudgetStatus(message.channelId);
             const stream = this.streams.get(message.channelId);
             if (stream) {
               if (message.error) stream.error(new Error(message.error));
@@ -312,18 +540,32 @@ export abstract class BaseTransport {
     switch (req.type) {
       case "tool_permission_request": {
         const response = await this.handleToolPermissionRequest(
+          message.requestId,
           (message.channelId ?? "") as string,
           req as ToolPermissionRequest
         );
         this.send({ type: "response", requestId: message.requestId, response });
         break;
       }
+      case "resolve_tool_permission": {
+        const permissionRequest = this.pendingPermissions.get(req.permissionRequestId);
+        if (req.behavior === "allow") {
+          permissionRequest?.accept(req.updatedInput ?? permissionRequest.inputs);
+        } else {
+          permissionRequest?.reject();
+        }
+        break;
+      }
+      case "update_tool_permission_input": {
+        this.pendingPermissions.get(req.permissionRequestId)?.updateInputs(req.updatedInput);
+        break;
+      }
       case "insert_at_mention": {
         if (this.isVisible()) this.atMentionEvents.emit(req.text);
         break;
       }
       case "selection_changed": {
-        this.selectionChangedEvents.emit(req.selection);
+        this.selectionChangedEvents.emit({ selection: req.selection, activeFile: req.activeFile });
         break;
       }
       case "visibility_changed": {
@@ -338,8 +580,34 @@ export abstract class BaseTransport {
           modelSetting: req.state.modelSetting,
           platform: req.state.platform,
           thinkingLevel: req.state.thinkingLevel,
+          defaultPermissionMode: req.state.defaultPermissionMode,
+          attachActiveFileErrors: req.state.attachActiveFileErrors,
+          authStatus: req.state.authStatus,
         } as InitResponse["state"]);
-        this.claudeConfig(req.config);
+        // 仅设置变化时不携带 config，避免覆盖已加载的模型与命令列表
+        if (req.config !== undefined) {
+          this.claudeConfig(req.config);
+        }
+        break;
+      }
+      case "settings_changed": {
+        this.settings(req.settings);
+        break;
+      }
+      case "sessions_changed": {
+        this.sessionsChanged.emit(req.sessions);
+        break;
+      }
+      case "start_prompt": {
+        this.promptRequested.emit(req);
+        break;
+      }
+      case "auth_url": {
+        this.pendingAuth({ url: req.url, method: req.method });
+        break;
+      }
+      case "budget_status": {
+        this.budgetStatuses({ ...this.budgetStatuses(), [req.channelId]: req.status });
         break;
       }
       default:
@@ -347,19 +615,42 @@ export abstract class BaseTransport {
     }
   }
 
+  // 登录、退出后更新认证状态（扩展端随后也会推送 update_state）
+  private applyAuthStatus(status: AuthStatus): void {
+    const config = this.config();
+    if (config) {
+      this.config({ ...config, authStatus: status });
+    }
+    if (!status.pendingLogin) {
+      this.pendingAuth(undefined);
+    }
+  }
+
+  private clearBudgetStatus(channelId: string): void {
+    if (!(channelId in this.budgetStatuses())) {
+      return;
+    }
+    const statuses = { ...this.budgetStatuses() };
+    delete statuses[channelId];
+    this.budgetStatuses(statuses);
+  }
+
   private async handleToolPermissionRequest(
+    requestId: string,
     channelId: string,
     request: ToolPermissionRequest
   ): Promise<ExtensionRequestResponse> {
     let trackedRequest: PermissionRequest | undefined;
     return new Promise<ExtensionRequestResponse>((resolve) => {
       const permissionRequest = new PermissionRequest(
+        requestId,
         channelId,
         request.toolName,
         request.inputs,
         request.suggestions ?? []
       );
       trackedRequest = permissionRequest;
+      this.pendingPermissions.set(requestId, permissionRequest);
 
       permissionRequest.onResolved((resolution: PermissionResult) => {
         resolve({ type: "tool_permission_response", result: resolution });
@@ -374,6 +665,7 @@ export abstract class BaseTransport {
       ]);
       this.permissionRequested.emit(permissionRequest);
     }).finally(() => {
+      this.pendingPermissions.delete(requestId);
       if (trackedRequest) {
         this.permissionRequests(
           this.permissionRequests().filter((i) => i !== trackedRequest)
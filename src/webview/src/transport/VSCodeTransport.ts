@@ -4,6 +4,8 @@ import type { FromExtensionWrapper, WebViewToExtensionMessage } from '../../../s
 
 interface VsCodeApi {
     postMessage(message: any): void;
+    getState(): any;
+    setState(state: any): void;
 }
 
 export class VSCodeTransport extends BaseTransport {
@@ -36,6 +38,10 @@ export class VSCodeTransport extends BaseTransport {
 
         this.api = (window as any).acquireVsCodeApi();
 
+        // 记录页面类型与实例，供 WebviewPanelSerializer 在窗口重载后恢复（不保存 initialPrompt，避免重复发送）
+        const bootstrap = window.CLAUDIX_BOOTSTRAP;
+        this.saveViewState({ page: bootstrap?.page, id: bootstrap?.id, sessionId: bootstrap?.sessionId });
+
         window.addEventListener('message', this.handleMessage);
 
         this.openedPromise = this.initialize();
@@ -44,6 +50,10 @@ export class VSCodeTransport extends BaseTransport {
         });
     }
 
+    override saveViewState(state: { page?: string; id?: string; sessionId?: string }): void {
+        this.api.setState({ ...this.api.getState(), ...state });
+    }
+
     protected send(message: WebViewToExtensionMessage): void {
         this.api.postMessage(message);
     }
@@ -122,6 +122,15 @@ export function attachToolResults(messages: Message[], newMessage: Message): voi
  * @param rawEvent 原始消息事件
  */
 export function processAndAttachMessage(messages: Message[], rawEvent: any): void {
+    // 0. 子代理（Task）的消息归入对应 Task 块的嵌套时间线，不进入主时间线
+    if (rawEvent.parent_tool_use_id) {
+        const taskWrapper = findToolUseBlock(messages, rawEvent.parent_tool_use_id);
+        if (taskWrapper) {
+            attachSubagentMessage(taskWrapper, rawEvent);
+            return;
+        }
+    }
+
     // 1. 先关联 tool_result 和 toolUseResult（如果有）
     // 注意：这一步要在添加新消息之前，因为 tool_use 应该已经在消息数组中了
     if (rawEvent.type === 'user' && Array.isArray(rawEvent.message?.content)) {
@@ -148,6 +157,30 @@ export function processAndAttachMessage(messages: Message[], rawEvent: any): voi
     }
 }
 
+/**
+ * 把子代理消息追加到 Task 块的嵌套时间线
+ *
+ * 嵌套时间线内同样关联 tool_result，并记录子代理最近一次请求的 token 数
+ *
+ * @param taskWrapper Task 工具的 tool_use 块
+ * @param rawEvent parent_tool_use_id 指向该 Task 的原始消息
+ */
+export function attachSubagentMessage(taskWrapper: ContentBlockWrapper, rawEvent: any): void {
+    const children = [...taskWrapper.subagentMessages()];
+    processAndAttachMessage(children, { ...rawEvent, parent_tool_use_id: null });
+    taskWrapper.subagentMessages(children);
+
+    const usage = rawEvent.type === 'assistant' ? rawEvent.message?.usage : undefined;
+    if (usage) {
+        taskWrapper.subagentTokens(
+            (usage.input_tokens ?? 0) +
+            (usage.cache_creation_input_tokens ?? 0) +
+            (usage.cache_read_input_tokens ?? 0) +
+            (usage.output_tokens ?? 0)
+        );
+    }
+}
+
 /**
  * 将连续的 Read 工具消息合并为 ReadCoalesced（对齐原版 IJ/ySe/CSe/iZe 行为）
  *
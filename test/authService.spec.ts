@@ -0,0 +1,44 @@
+/**
+ * 认证服务测试 / Auth Service Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as crypto from 'crypto';
+import {
+	buildAuthorizeUrl,
+	createPkce,
+	getTokenRefreshDelay,
+	hasCredentialEnvironment,
+	parseOAuthCode
+} from '../src/services/claude/ClaudeAuthService';
+
+describe('auth service', () => {
+	it('should build a PKCE authorize URL', () => {
+		const { verifier, challenge, state } = createPkce();
+		expect(challenge).toBe(crypto.createHash('sha256').update(verifier).digest('base64url'));
+
+		const url = new URL(buildAuthorizeUrl('claude.ai', challenge, state));
+		expect(url.origin).toBe('https://claude.ai');
+		expect(url.searchParams.get('code_challenge')).toBe(challenge);
+		expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+		expect(url.searchParams.get('state')).toBe(state);
+		expect(url.searchParams.get('scope')).toContain('user:inference');
+	});
+
+	it('should parse pasted codes and detect credential variables', () => {
+		expect(parseOAuthCode('  abc#xyz \n')).toEqual({ code: 'abc', state: 'xyz' });
+		expect(parseOAuthCode('abc')).toEqual({ code: 'abc', state: undefined });
+
+		expect(hasCredentialEnvironment({ ANTHROPIC_API_KEY: 'sk-ant-test' })).toBe(true);
+		expect(hasCredentialEnvironment({ CLAUDE_CODE_USE_BEDROCK: '1' })).toBe(true);
+		expect(hasCredentialEnvironment({ ANTHROPIC_API_KEY: '', PATH: '/usr/bin' })).toBe(false);
+	});
+
+	it('should refresh the injected token before it expires', () => {
+		const now = 1_000_000_000;
+		expect(getTokenRefreshDelay(now + 60 * 60 * 1000, now)).toBe(55 * 60 * 1000);
+		// 已过期或刷新失败时稍后重试
+		expect(getTokenRefreshDelay(now - 1000, now)).toBe(60 * 1000);
+		expect(getTokenRefreshDelay(now + 365 * 24 * 60 * 60 * 1000, now)).toBe(2 ** 31 - 1);
+	});
+});
@@ -0,0 +1,114 @@
+/**
+ * 文件检查点服务测试 / Checkpoint Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClaudeCheckpointService } from '../src/services/claude/ClaudeCheckpointService';
+import type { ILogService } from '../src/services/logService';
+
+const logService: ILogService = {
+	_serviceBrand: undefined,
+	trace: () => {},
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	setLevel: () => {},
+};
+
+describe('ClaudeCheckpointService', () => {
+	let tempDir: string;
+	let transcriptPath: string;
+	let transcript: any[];
+	let service: ClaudeCheckpointService;
+
+	async function prompt(uuid: string, text: string, parentUuid: string | null = transcript.at(-1)?.uuid ?? null) {
+		transcript.push({ type: 'user', uuid, parentUuid, message: { role: 'user', content: text } });
+		await fs.writeFile(transcriptPath, transcript.map(entry => JSON.stringify(entry)).join('\n'));
+	}
+
+	async function toolResult(uuid: string) {
+		transcript.push({ type: 'user', uuid, parentUuid: transcript.at(-1)?.uuid ?? null, message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't', content: 'ok' }] } });
+		await fs.writeFile(transcriptPath, transcript.map(entry => JSON.stringify(entry)).join('\n'));
+	}
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudix-checkpoint-'));
+		transcriptPath = path.join(tempDir, 'session.jsonl');
+		transcript = [];
+		service = new ClaudeCheckpointService({ globalStorageUri: vscode.Uri.file(path.join(tempDir, 'storage')) }, logService);
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('should restore files to their state before the selected message', async () => {
+		const file = path.join(tempDir, 'a.ts');
+		const created = path.join(tempDir, 'b.ts');
+		await fs.writeFile(file, 'v1');
+
+		await prompt('u1', 'first');
+		await service.snapshot('s1', transcriptPath, file);
+		await fs.writeFile(file, 'v2');
+		await toolResult('r1');
+		await service.snapshot('s1', transcriptPath, file);
+		await fs.writeFile(file, 'v2b');
+
+		await prompt('u2', 'second');
+		await service.snapshot('s1', transcriptPath, file);
+		await fs.writeFile(file, 'v3');
+		await service.snapshot('s1', transcriptPath, created);
+		await fs.writeFile(created, 'new');
+
+		const result = await service.rewind('s1', 'u2', transcriptPath);
+		expect(result).toEqual({ restoredFiles: [file], deletedFiles: [created], resumeSessionAt: 'r1' });
+		expect(await fs.readFile(file, 'utf8')).toBe('v2b');
+		await expect(fs.stat(created)).rejects.toThrow();
+
+		const first = await service.rewind('s1', 'u1', transcriptPath);
+		expect(first.resumeSessionAt).toBeUndefined();
+		expect(await fs.readFile(file, 'utf8')).toBe('v1');
+	});
+
+	it('should only rewind checkpoints on the current branch', async () => {
+		const file = path.join(tempDir, 'a.ts');
+		await fs.writeFile(file, 'v1');
+
+		await prompt('u1', 'first');
+		await prompt('u2', 'second');
+		await service.snapshot('s1', transcriptPath, file);
+		await fs.writeFile(file, 'v2');
+
+		// 编辑重发：u2b 与 u2 的轮次相同，但位于另一个分支
+		await prompt('u2b', 'second, edited', 'u1');
+		await service.snapshot('s1', transcriptPath, file);
+		await fs.writeFile(file, 'v3');
+
+		const result = await service.rewind('s1', 'u2b', transcriptPath);
+		expect(result.restoredFiles).toEqual([file]);
+		expect(await fs.readFile(file, 'utf8')).toBe('v2');
+	});
+
+	it('should reject messages outside the conversation', async () => {
+		await prompt('u1', 'first');
+		await expect(service.rewind('s1', 'missing', transcriptPath)).rejects.toThrow('Message not found');
+	});
+
+	it('should delete all checkpoint data of a session', async () => {
+		const file = path.join(tempDir, 'a.ts');
+		await fs.writeFile(file, 'v1');
+		await prompt('u1', 'first');
+		await service.snapshot('s1', transcriptPath, file);
+
+		const sessionDir = path.join(tempDir, 'storage', 'checkpoints', 's1');
+		expect((await fs.readdir(sessionDir)).length).toBe(2);
+
+		await service.deleteCheckpoints('s1');
+		await expect(fs.stat(sessionDir)).rejects.toThrow();
+	});
+});
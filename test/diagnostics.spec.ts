@@ -0,0 +1,46 @@
+/**
+ * IDE 诊断信息测试 / IDE Diagnostics Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { markerToIdeDiagnostic, sortDiagnostics } from '../src/services/claude/diagnostics';
+import type { IdeDiagnostic } from '../src/shared/messages';
+
+function diagnostic(filePath: string, line: number, severity: IdeDiagnostic['severity']): IdeDiagnostic {
+	return { filePath, line, column: 1, message: `${severity} at ${line}`, code: '', severity };
+}
+
+describe('ide diagnostics', () => {
+	it('should convert Problems view markers', () => {
+		const marker = {
+			resource: { fsPath: '/repo/src/index.ts' },
+			severity: 8,
+			message: "Cannot find name 'foo'.",
+			code: { value: '2304', target: {} },
+			source: 'ts',
+			startLineNumber: 12,
+			startColumn: 5,
+		};
+
+		expect(markerToIdeDiagnostic({ marker })).toEqual({
+			filePath: '/repo/src/index.ts',
+			line: 12,
+			column: 5,
+			message: "Cannot find name 'foo'.",
+			code: '2304',
+			severity: 'Error',
+			source: 'ts',
+		});
+		expect(markerToIdeDiagnostic({ id: 'resource-node' })).toBeUndefined();
+	});
+
+	it('should list errors first, then by file and position', () => {
+		const sorted = sortDiagnostics([
+			diagnostic('/repo/b.ts', 3, 'Warning'),
+			diagnostic('/repo/b.ts', 9, 'Error'),
+			diagnostic('/repo/a.ts', 20, 'Error'),
+		]);
+
+		expect(sorted.map(item => `${item.filePath}:${item.line}`)).toEqual(['/repo/a.ts:20', '/repo/b.ts:9', '/repo/b.ts:3']);
+	});
+});
@@ -0,0 +1,46 @@
+/**
+ * Diff 编辑还原测试 / Diff Edit Reconstruction Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeReplacement, buildEditedToolInput } from '../src/services/claude/diffEdits';
+
+describe('diffEdits', () => {
+	it('should return the changed lines as a replacement', () => {
+		const original = 'const a = 1;\nconst b = 2;\nconst c = 3;\n';
+		const edited = 'const a = 1;\nconst b = 20;\nconst c = 3;\n';
+
+		expect(computeReplacement(original, edited)).toEqual({
+			oldString: 'const b = 2;',
+			newString: 'const b = 20;',
+		});
+		expect(computeReplacement(original, original)).toBeUndefined();
+	});
+
+	it('should expand old_string until it is unique', () => {
+		const original = 'start\nreturn;\nmiddle\nreturn;\nend';
+		const edited = 'start\nreturn;\nmiddle\nreturn 1;\nend';
+
+		const replacement = computeReplacement(original, edited)!;
+		expect(replacement).toEqual({ oldString: 'middle\nreturn;\nend', newString: 'middle\nreturn 1;\nend' });
+		expect(original.replace(replacement.oldString, replacement.newString)).toBe(edited);
+	});
+
+	it('should handle insertions and empty files', () => {
+		expect(computeReplacement('a\nb', 'a\nX\nb')).toEqual({ oldString: 'b', newString: 'X\nb' });
+		expect(computeReplacement('', 'new file')).toEqual({ oldString: '', newString: 'new file' });
+	});
+
+	it('should rebuild tool inputs from the edited content', () => {
+		const original = 'one\ntwo\n';
+		const edited = 'one\nTWO\n';
+
+		expect(buildEditedToolInput('Edit', { file_path: 'a.ts', old_string: 'two', new_string: '2', replace_all: true }, original, edited))
+			.toEqual({ file_path: 'a.ts', old_string: 'two', new_string: 'TWO', replace_all: false });
+		expect(buildEditedToolInput('MultiEdit', { file_path: 'a.ts', edits: [] }, original, edited))
+			.toEqual({ file_path: 'a.ts', edits: [{ old_string: 'two', new_string: 'TWO' }] });
+		expect(buildEditedToolInput('Write', { file_path: 'a.ts', content: 'x' }, original, edited))
+			.toEqual({ file_path: 'a.ts', content: edited });
+		expect(buildEditedToolInput('Edit', { file_path: 'a.ts' }, original, original)).toBeUndefined();
+	});
+});
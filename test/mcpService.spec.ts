@@ -0,0 +1,112 @@
+/**
+ * MCP 配置服务测试 / MCP Config Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeMcpService, expandEnvVars, mergeMcpServerStatus } from '../src/services/claude/ClaudeMcpService';
+import type { ILogService } from '../src/services/logService';
+
+const logService: ILogService = {
+	_serviceBrand: undefined,
+	trace: () => {},
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	setLevel: () => {},
+};
+
+describe('ClaudeMcpService', () => {
+	let tempDir: string;
+	let cwd: string;
+	let previousConfigDir: string | undefined;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudix-mcp-'));
+		cwd = path.join(tempDir, 'project');
+		await fs.mkdir(cwd);
+		previousConfigDir = process.env.CLAUDE_CONFIG_DIR;
+		process.env.CLAUDE_CONFIG_DIR = tempDir;
+	});
+
+	afterEach(async () => {
+		if (previousConfigDir === undefined) {
+			delete process.env.CLAUDE_CONFIG_DIR;
+		} else {
+			process.env.CLAUDE_CONFIG_DIR = previousConfigDir;
+		}
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('should save servers to each scope and preserve unrelated config', async () => {
+		await fs.writeFile(path.join(tempDir, '.claude.json'), JSON.stringify({ numStartups: 3 }));
+		const service = new ClaudeMcpService(logService);
+
+		await service.saveServer(cwd, 'user', 'docs', { type: 'http', url: 'https://example.com/mcp' });
+		await service.saveServer(cwd, 'project', 'fs', { command: 'npx', args: ['fs-server'] });
+		await service.saveServer(cwd, 'local', 'db', { type: 'stdio', command: 'db-server' });
+
+		const globalConfig = JSON.parse(await fs.readFile(path.join(tempDir, '.claude.json'), 'utf8'));
+		expect(globalConfig.numStartups).toBe(3);
+		expect(globalConfig.mcpServers.docs.url).toBe('https://example.com/mcp');
+		expect(globalConfig.projects[cwd].mcpServers.db.command).toBe('db-server');
+
+		const projectConfig = JSON.parse(await fs.readFile(path.join(cwd, '.mcp.json'), 'utf8'));
+		expect(projectConfig.mcpServers.fs.args).toEqual(['fs-server']);
+
+		const servers = await service.listServers(cwd);
+		expect(servers.map(server => `${server.scope}:${server.name}`)).toEqual(['local:db', 'project:fs', 'user:docs']);
+	});
+
+	it('should rename, disable and remove servers', async () => {
+		const service = new ClaudeMcpService(logService);
+		await service.saveServer(cwd, 'local', 'old', { command: 'server' });
+
+		await service.saveServer(cwd, 'user', 'renamed', { command: 'server' }, { scope: 'local', name: 'old' });
+		await service.setServerEnabled(cwd, 'renamed', false);
+
+		let servers = await service.listServers(cwd);
+		expect(servers).toEqual([
+			{ name: 'renamed', scope: 'user', config: { command: 'server' }, enabled: false }
+		]);
+
+		await service.removeServer(cwd, 'user', 'renamed');
+		servers = await service.listServers(cwd);
+		expect(servers).toEqual([]);
+	});
+
+	it('should reject invalid servers', async () => {
+		const service = new ClaudeMcpService(logService);
+
+		await expect(service.saveServer(cwd, 'user', 'bad name', { command: 'x' })).rejects.toThrow('Invalid server name');
+		await expect(service.saveServer(cwd, 'user', 'remote', { type: 'sse', url: 'not a url' })).rejects.toThrow('Invalid URL');
+		await expect(service.saveServer(cwd, 'user', 'empty', { command: ' ' })).rejects.toThrow('Command is required');
+	});
+
+	it('should attach live status only to the server that takes effect', () => {
+		const servers = mergeMcpServerStatus(
+			[
+				{ name: 'docs', scope: 'local', config: { command: 'docs-local' }, enabled: true },
+				{ name: 'docs', scope: 'user', config: { command: 'docs' }, enabled: true },
+				{ name: 'github', scope: 'project', config: { command: 'gh' }, enabled: true },
+			],
+			[{ name: 'docs', status: 'connected' }, { name: 'other', status: 'failed' }]
+		);
+
+		expect(servers.map(server => [server.scope, server.name, server.status])).toEqual([
+			['local', 'docs', 'connected'],
+			['user', 'docs', undefined],
+			['project', 'github', undefined],
+		]);
+	});
+
+	it('should expand environment variables', () => {
+		const env = { TOKEN: 'abc' };
+		expect(expandEnvVars('Bearer ${TOKEN}', env)).toBe('Bearer abc');
+		expect(expandEnvVars('${MISSING:-fallback}', env)).toBe('fallback');
+		expect(expandEnvVars('${MISSING}', env)).toBe('${MISSING}');
+	});
+});
@@ -16,9 +16,51 @@ export const workspace = {
 	getConfiguration: () => ({
 		get: (key: string, defaultValue?: any) => defaultValue,
 		update: () => Promise.resolve()
+	}),
+	createFileSystemWatcher: () => ({
+		onDidChange: () => ({ dispose: () => { } }),
+		onDidCreate: () => ({ dispose: () => { } }),
+		onDidDelete: () => ({ dispose: () => { } }),
+		dispose: () => { }
 	})
 };
 
+export class EventEmitter<T> {
+	private listeners: Array<(value: T) => void> = [];
+
+	event = (listener: (value: T) => void) => {
+		this.listeners.push(listener);
+		return { dispose: () => { this.listeners = this.listeners.filter(item => item !== listener); } };
+	};
+
+	fire(value: T): void {
+		this.listeners.forEach(listener => listener(value));
+	}
+
+	dispose(): void {
+		this.listeners = [];
+	}
+}
+
+export class RelativePattern {
+	constructor(public base: any, public pattern: string) { }
+}
+
+export const Uri = {
+	file: (fsPath: string) => ({ fsPath, scheme: 'file', path: fsPath })
+};
+
 export const commands = {
 	registerCommand: () => ({ dispose: () => { } })
 };
+
+export enum DiagnosticSeverity {
+	Error = 0,
+	Warning = 1,
+	Information = 2,
+	Hint = 3
+}
+
+export const CodeActionKind = {
+	QuickFix: { value: 'quickfix' }
+};
@@ -0,0 +1,71 @@
+/**
+ * 权限规则测试 / Permission Rule Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	createAllowRuleUpdate,
+	describePermissionTarget,
+	isUnsafeBashPrefixRule,
+	parsePermissionRule,
+	suggestPermissionRules
+} from '../src/shared/permissionRules';
+
+const rules = (toolName: string, inputs: Record<string, unknown>, cwd?: string) =>
+	suggestPermissionRules(toolName, inputs, cwd).map(suggestion => suggestion.rule);
+
+describe('permission rules', () => {
+	it('should pre-select the exact command and only offer subcommand prefixes', () => {
+		expect(rules('Bash', { command: 'npm test -- --watch=false' })).toEqual([
+			'Bash(npm test -- --watch=false)',
+			'Bash(npm test:*)',
+			'Bash'
+		]);
+		expect(rules('Bash', { command: 'git commit -m "wip"' })[1]).toBe('Bash(git commit:*)');
+		expect(rules('Bash', { command: 'ls -la' })).toEqual(['Bash(ls -la)', 'Bash']);
+		expect(rules('Bash', { command: 'npm install && rm -rf dist' })).toEqual([
+			'Bash(npm install && rm -rf dist)',
+			'Bash'
+		]);
+	});
+
+	it('should never suggest prefixes for interpreters, shells or destructive commands', () => {
+		expect(rules('Bash', { command: 'rm -rf build' })).toEqual(['Bash(rm -rf build)', 'Bash']);
+		expect(rules('Bash', { command: 'python manage.py migrate' })).toEqual(['Bash(python manage.py migrate)', 'Bash']);
+		expect(rules('Bash', { command: 'bash scripts/release.sh now' })).toEqual(['Bash(bash scripts/release.sh now)', 'Bash']);
+		expect(isUnsafeBashPrefixRule({ toolName: 'Bash', ruleContent: 'node:*' })).toBe(true);
+		expect(isUnsafeBashPrefixRule({ toolName: 'Bash', ruleContent: 'git commit:*' })).toBe(false);
+	});
+
+	it('should suggest path globs for file tools', () => {
+		expect(rules('Write', { file_path: '/work/app/src/ui/button.ts' }, '/work/app')).toEqual([
+			'Edit(src/ui/**)',
+			'Edit(src/ui/button.ts)',
+			'Edit'
+		]);
+		expect(rules('Read', { file_path: '/etc/hosts' }, '/work/app')).toEqual(['Read(//etc/**)', 'Read(//etc/hosts)', 'Read']);
+	});
+
+	it('should suggest MCP tool and server rules', () => {
+		expect(rules('mcp__github__create_issue', {})).toEqual(['mcp__github__create_issue', 'mcp__github']);
+		expect(rules('WebFetch', { url: 'https://docs.example.com/a' })[0]).toBe('WebFetch(domain:docs.example.com)');
+	});
+
+	it('should convert rules to permission updates', () => {
+		expect(parsePermissionRule('Bash(npm test:*)')).toEqual({ toolName: 'Bash', ruleContent: 'npm test:*' });
+		expect(parsePermissionRule('Bash()')).toBeUndefined();
+		expect(createAllowRuleUpdate('mcp__github', 'project')).toEqual({
+			type: 'addRules',
+			rules: [{ toolName: 'mcp__github' }],
+			behavior: 'allow',
+			destination: 'projectSettings'
+		});
+		expect(() => createAllowRuleUpdate('', 'session')).toThrow(/empty/);
+	});
+
+	it('should describe the target of a request', () => {
+		expect(describePermissionTarget('Bash', { command: 'npm test\nnpm run lint', description: 'Run tests' })).toBe('npm test');
+		expect(describePermissionTarget('Edit', { file_path: '/work/a.ts', old_string: 'x' })).toBe('/work/a.ts');
+		expect(describePermissionTarget('TodoWrite', { todos: [] })).toBeUndefined();
+	});
+});
@@ -0,0 +1,20 @@
+/**
+ * 计划文件测试 / Plan File Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getPlanFileName, getPlanTitle } from '../src/services/claude/planFiles';
+
+describe('plan files', () => {
+	it('should take the title from the first heading', () => {
+		expect(getPlanTitle('Intro text\n\n## Plan: Add dark mode\n\n1. Step')).toBe('Plan: Add dark mode');
+		expect(getPlanTitle('\n  Refactor the parser  \n- step')).toBe('Refactor the parser');
+		expect(getPlanTitle('   \n')).toBeUndefined();
+	});
+
+	it('should build a Markdown file name from the title', () => {
+		expect(getPlanFileName('# Plan: Add dark mode (settings page)')).toBe('plan-add-dark-mode-settings-page.md');
+		expect(getPlanFileName('# 重构 解析器')).toBe('plan-重构-解析器.md');
+		expect(getPlanFileName('# ***')).toBe('plan.md');
+	});
+});
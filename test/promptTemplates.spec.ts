@@ -0,0 +1,30 @@
+/**
+ * 提示词模板测试 / Prompt Template Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	DEFAULT_PROMPT_TEMPLATES,
+	formatLineMention,
+	getPromptTemplate,
+	renderPromptTemplate
+} from '../src/services/claude/promptTemplates';
+
+describe('prompt templates', () => {
+	it('should fall back to defaults and fill placeholders', () => {
+		const template = getPromptTemplate('explain', { explain: '  ', refactor: 'Tidy {file}' });
+		expect(template).toBe(DEFAULT_PROMPT_TEMPLATES.explain);
+
+		expect(renderPromptTemplate('Tidy {file} ({lines}, {language}) {unknown}', {
+			file: 'src/index.ts',
+			lines: 'lines 3-10',
+			language: 'typescript',
+		})).toBe('Tidy src/index.ts (lines 3-10, typescript) {unknown}');
+	});
+
+	it('should format mentions with line ranges', () => {
+		expect(formatLineMention('src/index.ts')).toBe('@src/index.ts');
+		expect(formatLineMention('src/index.ts', 4, 4)).toBe('@src/index.ts#L4');
+		expect(formatLineMention('src/index.ts', 3, 10)).toBe('@src/index.ts#L3-10');
+	});
+});
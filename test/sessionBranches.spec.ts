@@ -0,0 +1,101 @@
+/**
+ * 会话分支测试 / Session Branch Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClaudeSessionService } from '../src/services/claude/ClaudeSessionService';
+import type { ILogService } from '../src/services/logService';
+
+const logService: ILogService = {
+	_serviceBrand: undefined,
+	trace: () => {},
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	setLevel: () => {},
+};
+
+const SESSION_ID = '11111111-1111-4111-8111-111111111111';
+
+function entry(uuid: string, parentUuid: string | null, type: 'user' | 'assistant', content: unknown, minute: number) {
+	return {
+		uuid,
+		parentUuid,
+		sessionId: SESSION_ID,
+		type,
+		timestamp: new Date(Date.UTC(2025, 0, 1, 0, minute)).toISOString(),
+		message: { role: type, content },
+	};
+}
+
+describe('ClaudeSessionService branches', () => {
+	let tempDir: string;
+	let cwd: string;
+	let previousConfigDir: string | undefined;
+	let service: ClaudeSessionService;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudix-branches-'));
+		cwd = path.join(tempDir, 'project');
+		previousConfigDir = process.env.CLAUDE_CONFIG_DIR;
+		process.env.CLAUDE_CONFIG_DIR = tempDir;
+
+		// u1 → a1 → u2 → a2（原分支）
+		//           ↘ u2b → a2b（编辑后重新发送的分支）
+		const projectDir = path.join(tempDir, 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+		await fs.mkdir(projectDir, { recursive: true });
+		const entries = [
+			entry('u1', null, 'user', 'first question', 0),
+			entry('a1', 'u1', 'assistant', [{ type: 'text', text: 'answer' }], 1),
+			entry('t1', 'a1', 'user', [{ type: 'tool_result', tool_use_id: 'x', content: 'ok' }], 2),
+			entry('u2', 't1', 'user', 'original follow-up', 3),
+			entry('a2', 'u2', 'assistant', [{ type: 'text', text: 'reply' }], 4),
+			entry('u2b', 't1', 'user', 'edited follow-up', 5),
+			entry('a2b', 'u2b', 'assistant', [{ type: 'text', text: 'reply b' }], 6),
+		];
+		await fs.writeFile(
+			path.join(projectDir, `${SESSION_ID}.jsonl`),
+			entries.map(item => JSON.stringify(item)).join('\n')
+		);
+
+		service = new ClaudeSessionService({ globalStorageUri: vscode.Uri.file(path.join(tempDir, 'storage')) }, logService);
+	});
+
+	afterEach(async () => {
+		if (previousConfigDir === undefined) {
+			delete process.env.CLAUDE_CONFIG_DIR;
+		} else {
+			process.env.CLAUDE_CONFIG_DIR = previousConfigDir;
+		}
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('should list one session per id with its branch count', async () => {
+		const sessions = await service.listSessions(cwd);
+		expect(sessions).toHaveLength(1);
+		expect(sessions[0]).toMatchObject({ id: SESSION_ID, branchCount: 2, messageCount: 5 });
+	});
+
+	it('should list sibling branches and load a specific branch', async () => {
+		const branches = await service.listBranches(SESSION_ID, cwd);
+		expect(branches.map(branch => [branch.leafUuid, branch.summary, branch.isLatest])).toEqual([
+			['a2b', 'edited follow-up', true],
+			['a2', 'original follow-up', false],
+		]);
+
+		const messages = await service.getSession(SESSION_ID, cwd, 'a2');
+		expect(messages.map(msg => msg.message.content[0]?.text ?? msg.message.content)).toContain('original follow-up');
+	});
+
+	it('should resolve fork points before and after a message', async () => {
+		expect(await service.getForkPoint('u2b', 'before', cwd)).toBe('t1');
+		expect(await service.getForkPoint('u1', 'before', cwd)).toBeUndefined();
+		expect(await service.getForkPoint('u1', 'after', cwd)).toBe('t1');
+		await expect(service.getForkPoint('missing', 'after', cwd)).rejects.toThrow('Message not found');
+	});
+});
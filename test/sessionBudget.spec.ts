@@ -0,0 +1,69 @@
+/**
+ * 会话预算测试 / Session Budget Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BudgetTracker, resolveBudget } from '../src/services/claude/budget';
+
+function assistant(id: string, outputTokens: number, parentToolUseId: string | null = null): any {
+	return {
+		type: 'assistant',
+		parent_tool_use_id: parentToolUseId,
+		session_id: 'session-1',
+		message: {
+			id,
+			model: 'claude-sonnet-4-5',
+			usage: { input_tokens: 0, output_tokens: outputTokens, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 },
+		},
+	};
+}
+
+describe('session budget', () => {
+	it('should prefer session limits over workspace defaults', () => {
+		expect(resolveBudget({ maxCostUsd: 5, maxTurns: 10 }, { maxTurns: 0, maxOutputTokens: 1000 })).toEqual({
+			maxCostUsd: 5,
+			maxOutputTokens: 1000,
+			maxTurns: 0,
+		});
+	});
+
+	it('should warn, stop once per turn and settle on result messages', () => {
+		const tracker = new BudgetTracker({ maxOutputTokens: 1000, maxTurns: 4 }, {}, 0.5);
+
+		// 同一条消息的多个内容块只计一次回合，token 取最新值
+		tracker.record(assistant('msg-1', 200));
+		tracker.record(assistant('msg-1', 600));
+		// 子代理不计入回合数
+		tracker.record(assistant('sub-1', 100, 'tool-1'));
+
+		let status = tracker.getStatus();
+		expect(status.usage).toMatchObject({ outputTokens: 700, turns: 1 });
+		expect(status.warnings).toEqual(['outputTokens']);
+		expect(tracker.takeExceeded()).toBeUndefined();
+
+		tracker.record({ type: 'result', total_cost_usd: 0.02, modelUsage: { 'claude-sonnet-4-5': { outputTokens: 1200 } } });
+		status = tracker.getStatus();
+		expect(status.usage).toMatchObject({ costUsd: 0.02, outputTokens: 1200 });
+		expect(status.exceeded).toBe('outputTokens');
+		expect(tracker.takeExceeded()).toBe('outputTokens');
+		expect(tracker.takeExceeded()).toBeUndefined();
+
+		tracker.resetStop();
+		expect(tracker.takeExceeded()).toBe('outputTokens');
+	});
+
+	it('should continue from the usage recorded before a resume', () => {
+		const tracker = new BudgetTracker({ maxCostUsd: 1, maxTurns: 3 }, {}, 0.8, { costUsd: 0.9, outputTokens: 500, turns: 3 });
+		expect(tracker.getStatus().usage).toEqual({ costUsd: 0.9, outputTokens: 500, turns: 3 });
+		expect(tracker.getStatus().exceeded).toBeUndefined();
+
+		// SDK 的 result 只包含恢复之后的用量
+		tracker.record(assistant('msg-1', 100));
+		tracker.record({ type: 'result', total_cost_usd: 0.1, modelUsage: { 'claude-sonnet-4-5': { outputTokens: 100 } } });
+
+		const status = tracker.getStatus();
+		expect(status.usage.costUsd).toBeCloseTo(1);
+		expect(status.usage).toMatchObject({ outputTokens: 600, turns: 4 });
+		expect(status.exceeded).toBe('cost');
+	});
+});
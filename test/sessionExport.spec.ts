@@ -0,0 +1,76 @@
+/**
+ * 会话导出测试 / Session Export Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	normalizeConversation,
+	renderMarkdown,
+	renderHtml,
+	renderConversation
+} from '../src/services/claude/sessionExport';
+
+const messages = [
+	{ type: 'user', message: { role: 'user', content: 'Run the tests' } },
+	{ type: 'assistant', message: { role: 'assistant', content: [{ type: 'thinking', thinking: 'Use npm' }] } },
+	{ type: 'assistant', message: { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'Bash', input: { command: 'npm test' } }] } },
+	{ type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'ok ```x``` <b>', is_error: false }] } },
+	{ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: 'All tests pass.' }] } },
+	{ type: 'system', message: { content: 'ignored' } },
+];
+
+const ALL = { includeThinking: true, includeToolResults: true };
+
+describe('sessionExport', () => {
+	it('should merge assistant turns with their tool results and apply options', () => {
+		const full = normalizeConversation('abc', 'Tests', messages, ALL);
+		expect(full.messages.map(message => [message.role, message.blocks.map(block => block.type)])).toEqual([
+			['user', ['text']],
+			['assistant', ['thinking', 'tool_use', 'tool_result', 'text']],
+		]);
+
+		const trimmed = normalizeConversation('abc', 'Tests', messages, { includeThinking: false, includeToolResults: false });
+		expect(trimmed.messages[1].blocks.map(block => block.type)).toEqual(['tool_use', 'text']);
+		expect(JSON.parse(renderConversation(trimmed, 'json')).messages).toEqual(trimmed.messages);
+	});
+
+	it('should render tool calls as collapsible details in Markdown', () => {
+		const markdown = renderMarkdown(normalizeConversation('abc', 'Tests', messages, ALL));
+		expect(markdown).toContain('# Tests');
+		expect(markdown).toContain('<summary>Bash: npm test</summary>');
+		// 结果中包含 ``` 时使用更长的围栏
+		expect(markdown).toContain('````\nok ```x``` <b>\n````');
+	});
+
+	it('should escape content in the self-contained HTML', () => {
+		const html = renderHtml(normalizeConversation('abc', '<Tests>', messages, ALL));
+		expect(html).toContain('<title>&lt;Tests&gt;</title>');
+		expect(html).toContain('&lt;b&gt;');
+		expect(html).not.toMatch(/<(link|script)\b/);
+	});
+
+	it('should render sanitized Markdown for assistant text in HTML', () => {
+		const text = [
+			'## Done',
+			'',
+			'Run `npm test` and see [docs](https://example.com/docs).',
+			'',
+			'<img src=x onerror=alert(1)> [click](javascript:alert(1)) [encoded](&#106;avascript:alert(1))',
+			'![logo](https://example.com/logo.png)',
+		].join('\n');
+		const html = renderHtml(normalizeConversation('abc', 'Tests', [
+			{ type: 'user', message: { role: 'user', content: '**not markdown**' } },
+			{ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text }] } },
+		], ALL));
+
+		expect(html).toContain('<div class="markdown-content"><h2>Done</h2>');
+		expect(html).toContain('<code>npm test</code>');
+		expect(html).toContain('<a href="https://example.com/docs">docs</a>');
+		expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+		expect(html).not.toContain('javascript:');
+		expect(html).toContain('<a href="&amp;#106;avascript:alert(1)">encoded</a>');
+		expect(html).not.toMatch(/<img\b/);
+		expect(html).toContain('<div class="text">**not markdown**</div>');
+		expect(html).toContain('.markdown-content blockquote');
+	});
+});
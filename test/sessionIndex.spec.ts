@@ -0,0 +1,104 @@
+/**
+ * 会话索引缓存测试 / Session Index Cache Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClaudeSessionService } from '../src/services/claude/ClaudeSessionService';
+import type { ILogService } from '../src/services/logService';
+
+const logService: ILogService = {
+	_serviceBrand: undefined,
+	trace: () => {},
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	setLevel: () => {},
+};
+
+const SESSION_ID = '33333333-3333-4333-8333-333333333333';
+
+function line(uuid: string, parentUuid: string | null, type: 'user' | 'assistant', content: unknown, minute: number): string {
+	return JSON.stringify({
+		uuid,
+		parentUuid,
+		sessionId: SESSION_ID,
+		type,
+		timestamp: new Date(Date.UTC(2025, 0, 1, 0, minute)).toISOString(),
+		message: { role: type, content },
+	}) + '\n';
+}
+
+describe('ClaudeSessionService index cache', () => {
+	let tempDir: string;
+	let cwd: string;
+	let transcriptPath: string;
+	let previousConfigDir: string | undefined;
+
+	const createService = () =>
+		new ClaudeSessionService({ globalStorageUri: vscode.Uri.file(path.join(tempDir, 'storage')) }, logService);
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudix-index-'));
+		cwd = path.join(tempDir, 'project');
+		previousConfigDir = process.env.CLAUDE_CONFIG_DIR;
+		process.env.CLAUDE_CONFIG_DIR = tempDir;
+
+		const projectDir = path.join(tempDir, 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+		await fs.mkdir(projectDir, { recursive: true });
+		transcriptPath = path.join(projectDir, `${SESSION_ID}.jsonl`);
+		await fs.writeFile(transcriptPath, line('u1', null, 'user', 'first question', 0));
+	});
+
+	afterEach(async () => {
+		if (previousConfigDir === undefined) {
+			delete process.env.CLAUDE_CONFIG_DIR;
+		} else {
+			process.env.CLAUDE_CONFIG_DIR = previousConfigDir;
+		}
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('should pick up appended lines and persist the session list', async () => {
+		const service = createService();
+		expect((await service.listSessions(cwd))[0]).toMatchObject({ id: SESSION_ID, messageCount: 1 });
+
+		await fs.appendFile(transcriptPath, line('a1', 'u1', 'assistant', [{ type: 'text', text: 'answer' }], 1));
+		expect((await service.listSessions(cwd))[0].messageCount).toBe(2);
+		expect(await service.getSession(SESSION_ID, cwd)).toHaveLength(2);
+
+		// 新实例在文件未变化时直接使用持久化的列表
+		const storageFiles = await fs.readdir(path.join(tempDir, 'storage', 'session-index'));
+		expect(storageFiles).toHaveLength(1);
+		expect((await createService().listSessions(cwd))[0].messageCount).toBe(2);
+	});
+
+	it('should drop deleted transcripts', async () => {
+		const service = createService();
+		expect(await service.listSessions(cwd)).toHaveLength(1);
+
+		await fs.rm(transcriptPath);
+		expect(await service.listSessions(cwd)).toEqual([]);
+		expect(await service.getSession(SESSION_ID, cwd)).toEqual([]);
+	});
+
+	it('should persist metadata alongside the transcript and remove it on delete', async () => {
+		const service = createService();
+		await service.updateMetadata(SESSION_ID, { title: 'Renamed', tags: ['bug', ' bug ', 'ui'], pinned: true }, cwd);
+
+		expect((await createService().listSessions(cwd))[0]).toMatchObject({
+			summary: 'Renamed',
+			title: 'Renamed',
+			tags: ['bug', 'ui'],
+			pinned: true,
+		});
+
+		await service.deleteSession(SESSION_ID, cwd);
+		expect(await fs.readdir(path.dirname(transcriptPath))).toEqual([]);
+		expect(await service.listSessions(cwd)).toEqual([]);
+	});
+});
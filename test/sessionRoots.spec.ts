@@ -0,0 +1,34 @@
+/**
+ * 会话来源目录测试 / Session Roots Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseWorktreeList } from '../src/services/claude/sessionRoots';
+
+describe('parseWorktreeList', () => {
+	it('should list worktrees with branch names and skip bare repositories', () => {
+		const output = [
+			'worktree /repo.git',
+			'bare',
+			'',
+			'worktree /work/main',
+			'HEAD 0123456789abcdef0123456789abcdef01234567',
+			'branch refs/heads/main',
+			'',
+			'worktree /work/feature',
+			'HEAD 89abcdef0123456789abcdef0123456789abcdef',
+			'branch refs/heads/feature/login',
+			'',
+			'worktree /work/detached',
+			'HEAD fedcba9876543210fedcba9876543210fedcba98',
+			'detached',
+			'',
+		].join('\n');
+
+		expect(parseWorktreeList(output)).toEqual([
+			{ path: '/work/main', branch: 'main' },
+			{ path: '/work/feature', branch: 'feature/login' },
+			{ path: '/work/detached', branch: undefined },
+		]);
+	});
+});
@@ -0,0 +1,93 @@
+/**
+ * 会话全文搜索测试 / Session Search Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeSearchService } from '../src/services/claude/ClaudeSearchService';
+import type { ILogService } from '../src/services/logService';
+
+const logService: ILogService = {
+	_serviceBrand: undefined,
+	trace: () => {},
+	debug: () => {},
+	info: () => {},
+	warn: () => {},
+	error: () => {},
+	setLevel: () => {},
+};
+
+const SESSION_ID = '22222222-2222-4222-8222-222222222222';
+
+function line(entry: unknown): string {
+	return JSON.stringify(entry) + '\n';
+}
+
+describe('ClaudeSearchService', () => {
+	let tempDir: string;
+	let cwd: string;
+	let transcriptPath: string;
+	let previousConfigDir: string | undefined;
+	let service: ClaudeSearchService;
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudix-search-'));
+		cwd = path.join(tempDir, 'project');
+		previousConfigDir = process.env.CLAUDE_CONFIG_DIR;
+		process.env.CLAUDE_CONFIG_DIR = tempDir;
+
+		const projectDir = path.join(tempDir, 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+		await fs.mkdir(projectDir, { recursive: true });
+		transcriptPath = path.join(projectDir, `${SESSION_ID}.jsonl`);
+		await fs.writeFile(
+			transcriptPath,
+			line({ type: 'user', uuid: 'u1', message: { role: 'user', content: 'Why does the Login form crash?' } }) +
+			line({ type: 'assistant', uuid: 'a1', parentUuid: 'u1', message: { role: 'assistant', content: [{ type: 'tool_use', id: 't1', name: 'Read', input: { file_path: '/src/auth/LoginForm.tsx' } }] } }) +
+			line({ type: 'user', uuid: 'r1', parentUuid: 'a1', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 't1', content: 'login internals' }] } })
+		);
+
+		service = new ClaudeSearchService(logService);
+	});
+
+	afterEach(async () => {
+		if (previousConfigDir === undefined) {
+			delete process.env.CLAUDE_CONFIG_DIR;
+		} else {
+			process.env.CLAUDE_CONFIG_DIR = previousConfigDir;
+		}
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	it('should match prompts and tool file paths with highlighted snippets', async () => {
+		const [result] = await service.search('login', cwd);
+		expect(result).toMatchObject({ sessionId: SESSION_ID, totalMatches: 2 });
+		expect(result.matches.map(match => [match.uuid, match.kind])).toEqual([['u1', 'prompt'], ['a1', 'tool']]);
+
+		const prompt = result.matches[0];
+		const [start, end] = prompt.highlights[0];
+		expect(prompt.snippet.slice(start, end)).toBe('Login');
+
+		// 所有词都需出现在同一条消息中；工具结果不参与索引
+		expect(await service.search('login crash', cwd)).toHaveLength(1);
+		expect(await service.search('internals', cwd)).toEqual([]);
+	});
+
+	it('should pick up appended and rewritten transcripts incrementally', async () => {
+		expect(await service.search('retry', cwd)).toEqual([]);
+
+		// 追加一条尚未写完的行：只索引完整的行
+		const appended = line({ type: 'assistant', uuid: 'a2', parentUuid: 'r1', message: { role: 'assistant', content: [{ type: 'text', text: 'Add a retry guard.' }] } });
+		await fs.appendFile(transcriptPath, appended.slice(0, 20));
+		expect(await service.search('retry', cwd)).toEqual([]);
+		await fs.appendFile(transcriptPath, appended.slice(20));
+		const [result] = await service.search('retry', cwd);
+		expect(result.matches[0]).toMatchObject({ uuid: 'a2', kind: 'assistant' });
+		expect(result.totalMatches).toBe(1);
+
+		await fs.writeFile(transcriptPath, line({ type: 'user', uuid: 'u9', message: { role: 'user', content: 'fresh start' } }));
+		expect(await service.search('login', cwd)).toEqual([]);
+		expect((await service.search('fresh', cwd))[0].matches[0].uuid).toBe('u9');
+	});
+});
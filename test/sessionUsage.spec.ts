@@ -0,0 +1,149 @@
+/**
+ * 用量统计测试 / Usage Accounting Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { aggregateUsage, extractUsageRecord, readSessionUsage, summarizeSessionUsage, toCsv } from '../src/services/claude/ClaudeUsageService';
+import { calculateCost } from '../src/services/claude/usagePricing';
+
+function assistant(messageId: string, model: string, usage: any, timestamp: string, requestId = 'req-1'): any {
+	return {
+		type: 'assistant',
+		uuid: `${messageId}-${Math.random()}`,
+		requestId,
+		timestamp,
+		message: { id: messageId, model, role: 'assistant', content: [], usage },
+	};
+}
+
+describe('usage accounting', () => {
+	it('should estimate cost from the pricing table', () => {
+		const cost = calculateCost('claude-sonnet-4-5-20250929', {
+			inputTokens: 1_000_000,
+			outputTokens: 1_000_000,
+			cacheCreationTokens: 0,
+			cacheReadTokens: 1_000_000,
+		});
+		expect(cost).toBeCloseTo(3 + 15 + 0.3);
+		expect(calculateCost('unknown-model', { inputTokens: 1, outputTokens: 1, cacheCreationTokens: 0, cacheReadTokens: 0 })).toBeUndefined();
+	});
+
+	it('should count each API call once and group by day, session and model', () => {
+		const usage = { input_tokens: 1000, output_tokens: 500, cache_creation_input_tokens: 0, cache_read_input_tokens: 2000 };
+		const first = [
+			// 同一条回复按内容块拆成两行，usage 相同
+			assistant('msg-1', 'claude-sonnet-4-5', usage, '2025-01-01T10:00:00'),
+			assistant('msg-1', 'claude-sonnet-4-5', usage, '2025-01-01T10:00:01'),
+			assistant('msg-2', 'claude-haiku-4-5', usage, '2025-01-02T10:00:00'),
+			{ type: 'user', message: { role: 'user', content: 'hi' } },
+		].map(extractUsageRecord).filter(record => record !== undefined);
+		// 恢复的会话复制了 msg-2
+		const resumed = [
+			assistant('msg-2', 'claude-haiku-4-5', usage, '2025-01-02T10:00:00'),
+			assistant('msg-3', 'mystery-model', usage, '2025-01-03T10:00:00'),
+		].map(extractUsageRecord).filter(record => record !== undefined);
+
+		const { report, rows } = aggregateUsage([
+			{ sessionId: 's1', project: 'app', summary: 'first, "quoted"', records: first as any },
+			{ sessionId: 's2', project: 'app', summary: 'resumed', records: resumed as any },
+		]);
+
+		expect(report.totals.inputTokens).toBe(3000);
+		expect(report.days.map(day => day.date)).toEqual(['2025-01-01', '2025-01-02', '2025-01-03']);
+		expect(report.sessions.map(session => [session.sessionId, session.inputTokens])).toEqual([['s2', 1000], ['s1', 2000]]);
+		expect(report.unpricedModels).toEqual(['mystery-model']);
+		expect(report.models[0].model).toBe('claude-sonnet-4-5');
+
+		const csv = toCsv(rows).split('\r\n');
+		expect(csv[0]).toContain('Cost (USD)');
+		expect(csv[1]).toBe('2025-01-01,app,s1,"first, ""quoted""",claude-sonnet-4-5,1000,500,0,2000,0.011100');
+		expect(csv).toHaveLength(5);
+	});
+
+	it('should count subagent transcripts under their parent session', () => {
+		const usage = { input_tokens: 100, output_tokens: 10, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+		const record = (id: string) => extractUsageRecord(assistant(id, 'claude-sonnet-4-5', usage, '2025-01-01T10:00:00'))!;
+
+		const { report, rows } = aggregateUsage([
+			// 子代理对话记录比父会话先写完
+			{ sessionId: 's1', project: 'app', summary: '', records: [record('msg-agent')] },
+			{ sessionId: 's1', project: 'app', summary: 'parent prompt', records: [record('msg-1')] },
+		]);
+
+		expect(report.sessions).toHaveLength(1);
+		expect(report.sessions[0]).toMatchObject({ sessionId: 's1', summary: 'parent prompt', inputTokens: 200 });
+		expect(rows).toHaveLength(1);
+		expect(rows[0].summary).toBe('parent prompt');
+	});
+
+	it('should summarize the usage recorded for one session', () => {
+		const usage = { input_tokens: 0, output_tokens: 1000, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+		const record = (id: string, isSidechain = false) =>
+			extractUsageRecord({ ...assistant(id, 'claude-sonnet-4-5', usage, '2025-01-01T10:00:00'), isSidechain })!;
+
+		const files = [
+			{ sessionId: 's1', project: 'app', summary: 'first', records: [record('msg-1')] },
+			// 恢复的会话复制了 msg-1，子代理的调用计入费用但不计回合
+			{ sessionId: 's2', project: 'app', summary: 'first', records: [record('msg-1'), record('msg-2'), record('msg-2')] },
+			{ sessionId: 's2', project: 'app', summary: '', records: [record('msg-agent', true)] },
+		];
+
+		const summary = summarizeSessionUsage(files, 's2');
+		expect(summary).toMatchObject({ outputTokens: 2000, turns: 1 });
+		expect(summary.costUsd).toBeCloseTo(0.03);
+		expect(summarizeSessionUsage(files, 'missing')).toEqual({ costUsd: 0, outputTokens: 0, turns: 0 });
+	});
+
+	it('should read only the session, the sessions it was copied from and its subagents', async () => {
+		const usage = { input_tokens: 0, output_tokens: 1000, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+		const source = '11111111-1111-4111-8111-111111111111';
+		const resumed = '22222222-2222-4222-8222-222222222222';
+		const entry = (id: string, sessionId: string, extra: object = {}) =>
+			JSON.stringify({ ...assistant(id, 'claude-sonnet-4-5', usage, '2025-01-01T10:00:00'), sessionId, ...extra }) + '\n';
+
+		const projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'claudix-usage-'));
+		try {
+			await fs.writeFile(path.join(projectDir, `${source}.jsonl`), entry('msg-1', source));
+			// 复制的 msg-1 保留原会话 id；子代理的调用写在 agent-a1.jsonl 中
+			await fs.writeFile(path.join(projectDir, `${resumed}.jsonl`), [
+				entry('msg-1', source),
+				entry('msg-2', resumed),
+				entry('msg-task', resumed, {
+					message: { id: 'msg-task', role: 'assistant', content: [{ type: 'tool_use', id: 'task-1', name: 'Task', input: { prompt: 'go' } }] },
+				}),
+				JSON.stringify({
+					type: 'user',
+					uuid: 'u-task',
+					sessionId: resumed,
+					timestamp: '2025-01-01T10:00:00',
+					message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'task-1', content: 'done' }] },
+					toolUseResult: { agentId: 'a1' },
+				}) + '\n',
+			].join(''));
+			await fs.writeFile(path.join(projectDir, 'agent-a1.jsonl'), entry('msg-agent', resumed, { isSidechain: true }));
+			// 同目录的其它会话不参与
+			await fs.writeFile(path.join(projectDir, 'agent-other.jsonl'), entry('msg-other', resumed, { isSidechain: true }));
+
+			const summary = await readSessionUsage(projectDir, resumed);
+			expect(summary).toMatchObject({ outputTokens: 2000, turns: 1 });
+		} finally {
+			await fs.rm(projectDir, { recursive: true, force: true });
+		}
+	});
+
+	it('should neutralize spreadsheet formulas in CSV cells', () => {
+		const usage = { input_tokens: 1, output_tokens: 1, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+		const records = [extractUsageRecord(assistant('msg-1', 'claude-sonnet-4-5', usage, '2025-01-01T10:00:00'))!];
+		const summaries = ['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', 'plain'];
+
+		const csv = summaries.map(summary => {
+			const { rows } = aggregateUsage([{ sessionId: 's1', project: 'app', summary, records }]);
+			return toCsv(rows).split('\r\n')[1].split(',')[3];
+		});
+
+		expect(csv).toEqual(['"\'=HYPERLINK(""http://x"")"', "'+1", "'-2", "'@SUM(A1)", 'plain']);
+	});
+});
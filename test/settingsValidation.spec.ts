@@ -0,0 +1,44 @@
+/**
+ * 设置校验测试 / Settings Validation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	validatePermissionRule,
+	validatePermissionRules,
+	validateEnvironmentVariables,
+} from '../src/shared/settingsValidation';
+
+describe('settingsValidation', () => {
+	it('should accept tool and tool(specifier) rules', () => {
+		expect(validatePermissionRule('Bash(npm run test:*)')).toBeUndefined();
+		expect(validatePermissionRule('Read(./src/**)')).toBeUndefined();
+		expect(validatePermissionRule('mcp__github__create_issue')).toBeUndefined();
+	});
+
+	it('should reject malformed rules', () => {
+		expect(validatePermissionRule('  ')).toBe('Rule cannot be empty');
+		expect(validatePermissionRule('Bash()')).toContain('specifier cannot be empty');
+		expect(validatePermissionRule('Bash(npm')).toContain('expected Tool or Tool(specifier)');
+	});
+
+	it('should report duplicates and allow/deny conflicts', () => {
+		const errors = validatePermissionRules(['Read', 'Read', 'Bash(rm:*)'], ['Bash(rm:*)']);
+		expect(errors).toEqual([
+			'Duplicate allow rule "Read"',
+			'Rule "Bash(rm:*)" is both allowed and denied',
+		]);
+	});
+
+	it('should validate environment variable names', () => {
+		expect(validateEnvironmentVariables([{ name: 'API_KEY', value: 'x' }])).toEqual([]);
+		expect(validateEnvironmentVariables([
+			{ name: '1BAD', value: '' },
+			{ name: 'A', value: '1' },
+			{ name: 'A', value: '2' },
+		])).toEqual([
+			'Invalid environment variable name "1BAD"',
+			'Duplicate environment variable "A"',
+		]);
+	});
+});
@@ -0,0 +1,46 @@
+/**
+ * 流式消息测试 / Streaming Message Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StreamingMessage, parsePartialJson } from '../src/webview/src/models/StreamingMessage';
+
+describe('StreamingMessage', () => {
+	it('should accumulate text deltas into a streaming message', () => {
+		const streaming = new StreamingMessage('msg_1');
+		streaming.apply({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } });
+		streaming.apply({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } });
+		streaming.apply({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' world' } });
+
+		const message = streaming.toMessage();
+		expect(message?.isStreaming).toBe(true);
+		const content = message?.message.content as any[];
+		expect(content[0].content).toEqual({ type: 'text', text: 'Hello world', isStreaming: true });
+	});
+
+	it('should drop finished blocks once the final message arrives', () => {
+		const streaming = new StreamingMessage('msg_1');
+		streaming.apply({ type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } });
+		streaming.apply({ type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'hmm' } });
+		streaming.apply({ type: 'content_block_stop', index: 0 });
+		streaming.apply({ type: 'content_block_start', index: 1, content_block: { type: 'text', text: 'Hi' } });
+
+		streaming.settle(1);
+
+		const content = streaming.toMessage()?.message.content as any[];
+		expect(content).toHaveLength(1);
+		expect(content[0].content.type).toBe('text');
+
+		streaming.apply({ type: 'content_block_stop', index: 1 });
+		streaming.settle(1);
+		expect(streaming.isEmpty).toBe(true);
+		expect(streaming.toMessage()).toBeNull();
+	});
+
+	it('should parse partial tool input JSON', () => {
+		expect(parsePartialJson('{"file_path": "/a.ts", "old_str')).toEqual({ file_path: '/a.ts' });
+		expect(parsePartialJson('{"command": "npm te')).toEqual({ command: 'npm te' });
+		expect(parsePartialJson('{"todos": [{"content": "a"},')).toEqual({ todos: [{ content: 'a' }] });
+		expect(parsePartialJson('')).toBeUndefined();
+	});
+});
@@ -0,0 +1,47 @@
+/**
+ * 子代理对话记录测试 / Subagent Transcript Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	getAgentTranscriptPath,
+	getSidechainTranscript,
+	getTaskToolUses,
+	type TranscriptEntry
+} from '../src/services/claude/subagentTranscripts';
+
+function entry(uuid: string, parentUuid: string | undefined, timestamp: string, extra: Partial<TranscriptEntry>): TranscriptEntry {
+	return { uuid, parentUuid, timestamp, type: 'user', ...extra };
+}
+
+describe('subagent transcripts', () => {
+	it('should pair Task calls with the agent id from their result', () => {
+		const transcript = [
+			entry('a1', undefined, '2025-01-01T00:00:00Z', {
+				type: 'assistant',
+				message: { content: [{ type: 'tool_use', id: 'toolu_1', name: 'Task', input: { prompt: 'Find tests' } }] }
+			}),
+			entry('u1', 'a1', '2025-01-01T00:00:05Z', {
+				message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'done' }] },
+				toolUseResult: { agentId: 'a3f9c2' }
+			})
+		];
+
+		expect(getTaskToolUses(transcript)).toEqual([{ toolUseId: 'toolu_1', prompt: 'Find tests', agentId: 'a3f9c2' }]);
+		expect(getAgentTranscriptPath('/projects/demo', 'a3f9c2')).toMatch(/agent-a3f9c2\.jsonl$/);
+		expect(getAgentTranscriptPath('/projects/demo', '../secrets')).toBeUndefined();
+	});
+
+	it('should follow the latest sidechain that starts with the Task prompt', () => {
+		const entries = [
+			entry('s1', undefined, '2025-01-01T00:00:01Z', { isSidechain: true, message: { content: 'Find tests' } }),
+			entry('s2', 's1', '2025-01-01T00:00:02Z', { isSidechain: true, type: 'assistant', message: { content: [] } }),
+			entry('s3', 's1', '2025-01-01T00:00:03Z', { isSidechain: true, type: 'assistant', message: { content: [] } }),
+			entry('x1', undefined, '2025-01-01T00:00:04Z', { isSidechain: true, message: { content: 'Other task' } }),
+			entry('m1', undefined, '2025-01-01T00:00:00Z', { message: { content: 'Find tests' } })
+		];
+
+		expect(getSidechainTranscript('Find tests', entries).map(item => item.uuid)).toEqual(['s1', 's3']);
+		expect(getSidechainTranscript('Missing', entries)).toEqual([]);
+	});
+});
@@ -0,0 +1,29 @@
+/**
+ * Thinking 等级测试 / Thinking Level Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	customThinkingLevel,
+	formatThinkingLevel,
+	getMaxThinkingTokens,
+	normalizeThinkingLevel,
+	validateThinkingLevel
+} from '../src/shared/thinkingLevels';
+
+describe('thinking levels', () => {
+	it('should map named and custom levels to token budgets', () => {
+		expect(getMaxThinkingTokens('off')).toBe(0);
+		expect(getMaxThinkingTokens('medium')).toBe(10000);
+		expect(getMaxThinkingTokens(customThinkingLevel(8000))).toBe(8000);
+		expect(formatThinkingLevel('custom:8000')).toBe('Custom (8,000)');
+	});
+
+	it('should migrate legacy values and reject out-of-range budgets', () => {
+		expect(normalizeThinkingLevel('default_on')).toBe('max');
+		expect(normalizeThinkingLevel(null, 'low')).toBe('low');
+		expect(normalizeThinkingLevel('custom:12', 'high')).toBe('high');
+		expect(validateThinkingLevel('custom:500')).toMatch(/between 1024/);
+		expect(validateThinkingLevel('turbo')).toMatch(/Invalid thinking level/);
+	});
+});